@@ -0,0 +1,128 @@
+import { loadEnvConfig } from '@next/env'
+import { parseArgs } from 'util'
+
+// Load .env.local etc. the same way `next dev` does, before reading config
+loadEnvConfig(process.cwd())
+
+const USAGE = `Usage:
+  npm run backtest -- [--days 14] [--every 3] [--horizons 1,2,4,8,24] [--lot <lot_id>] [--json]
+
+Replays the hourly occupancy rollups: every --every hours over the last --days,
+forecasts each lot --horizons hours ahead using only the data available at the
+time, and reports MAE/MAPE/bias by lot, hour of day and horizon, plus how often
+forecasts land within 10% of capacity at each confidence level.`
+
+const HOUR_MS = 60 * 60 * 1000
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      days: { type: 'string', default: '14' },
+      every: { type: 'string', default: '3' },
+      horizons: { type: 'string' },
+      lot: { type: 'string' },
+      json: { type: 'boolean', default: false },
+      help: { type: 'boolean', default: false }
+    }
+  })
+
+  if (values.help) {
+    console.log(USAGE)
+    process.exit(0)
+  }
+
+  // Imported after the env is loaded: lib/supabase builds its clients at import time
+  const { getSupabaseAdminClient, checkSupabaseConfig } = await import('@/lib/supabase')
+  const { loadHourlyHistory, HISTORY_WEEKS } = await import('@/lib/forecasting')
+  const { backtestLot, summarizeForecastErrors, EVALUATION_HORIZONS } = await import('@/lib/forecast-accuracy')
+  const { loadCalendarPeriods } = await import('@/lib/academic-calendar')
+  const { loadWeather, COVERED_AMENITY } = await import('@/lib/weather')
+  const { loadPlacedEvents } = await import('@/lib/campus-events')
+  const { campusTimeZone } = await import('@/lib/campus-time')
+
+  if (!checkSupabaseConfig().isConfigured) {
+    console.error('Supabase not configured: set NEXT_PUBLIC_SUPABASE_URL, NEXT_PUBLIC_SUPABASE_ANON_KEY and SUPABASE_SERVICE_ROLE_KEY in .env.local')
+    process.exit(1)
+  }
+
+  const supabaseAdmin = getSupabaseAdminClient()
+  const days = parseInt(values.days!)
+  const every = parseInt(values.every!)
+  const horizons = values.horizons
+    ? values.horizons.split(',').map(horizon => parseInt(horizon)).filter(horizon => horizon > 0)
+    : EVALUATION_HORIZONS
+
+  const { data: allLots, error: lotsError } = await supabaseAdmin
+    .from('parking_lots')
+    .select('id, name, capacity, amenities, location')
+    .order('name')
+
+  if (lotsError || !allLots) {
+    console.error('Could not load parking lots:', lotsError?.message)
+    process.exit(1)
+  }
+
+  const lots = allLots
+    .filter(lot => !values.lot || lot.id === values.lot)
+    .map(lot => ({ ...lot, covered: (lot.amenities || []).includes(COVERED_AMENITY) }))
+
+  // Origins on hour boundaries, late enough that every horizon has an actual
+  const now = Math.floor(Date.now() / HOUR_MS) * HOUR_MS
+  const lastOrigin = now - Math.max(...horizons) * HOUR_MS
+  const origins: Date[] = []
+  for (let origin = now - days * 24 * HOUR_MS; origin <= lastOrigin; origin += every * HOUR_MS) {
+    origins.push(new Date(origin))
+  }
+
+  const historyStart = new Date(now - (days * 24 + HISTORY_WEEKS * 7 * 24) * HOUR_MS)
+  const history = await loadHourlyHistory(supabaseAdmin, lots.map(lot => lot.id), historyStart)
+
+  const context = {
+    events: await loadPlacedEvents(supabaseAdmin, historyStart, new Date(now), allLots),
+    campus_capacity: allLots.reduce((sum, lot) => sum + lot.capacity, 0),
+    covered_capacity: allLots
+      .filter(lot => (lot.amenities || []).includes(COVERED_AMENITY))
+      .reduce((sum, lot) => sum + lot.capacity, 0),
+    calendar: await loadCalendarPeriods(supabaseAdmin, historyStart, new Date(now)),
+    weather: await loadWeather(supabaseAdmin, historyStart, new Date(now))
+  }
+
+  const records = lots.flatMap(lot =>
+    backtestLot(lot, history.get(lot.id) || [], context, origins, horizons)
+  )
+  const report = summarizeForecastErrors(records)
+
+  if (values.json) {
+    console.log(JSON.stringify(report, null, 2))
+    return
+  }
+
+  const nameOf = new Map(lots.map(lot => [lot.id, lot.name]))
+  const table = (title: string, rows: typeof report.by_lot, label: (key: string) => string = key => key) => {
+    console.log(`\n${title}`)
+    console.table(rows.map(row => ({
+      [title.split(' ').pop()!]: label(row.key),
+      forecasts: row.count,
+      mae: row.mae,
+      'mape %': row.mape ?? '-',
+      bias: row.bias
+    })))
+  }
+
+  console.log(`Backtest over ${days} days, ${origins.length} origins, horizons ${horizons.join(', ')}h, hours in ${campusTimeZone()}`)
+  console.log(`Overall: ${report.overall.count} forecasts, MAE ${report.overall.mae}, MAPE ${report.overall.mape ?? '-'}%, bias ${report.overall.bias}`)
+  table('By lot', report.by_lot, key => nameOf.get(key) || key)
+  table('By hour', report.by_hour)
+  table('By horizon', report.by_horizon, key => `${key}h`)
+  console.log('\nCalibration (hit = within 10% of capacity)')
+  console.table(report.calibration)
+  if (report.interval_coverage) {
+    const { within, below, above } = report.interval_coverage
+    console.log(`\np10-p90 coverage: ${Math.round(within * 100)}% within (target 80%), ${Math.round(below * 100)}% below, ${Math.round(above * 100)}% above`)
+  }
+}
+
+main().catch(error => {
+  console.error(error)
+  process.exit(1)
+})
@@ -0,0 +1,94 @@
+import { loadEnvConfig } from '@next/env'
+import { parseArgs } from 'util'
+import { readFileSync } from 'fs'
+import { basename } from 'path'
+import type { WeatherHour } from '@/lib/weather'
+
+// Load .env.local etc. the same way `next dev` does, before reading config
+loadEnvConfig(process.cwd())
+
+const USAGE = `Usage:
+  npm run weather -- --file weather.csv [--source <name>]
+  npm run weather -- --simulate [--days 28] [--hours 72] [--seed 1]
+
+--file      Load hourly weather from a CSV file with a
+            hour_start,condition,temperature_c,precipitation_mm,is_forecast
+            header, or a JSON array of the same fields. Conditions are clear,
+            cloudy, fog, rain, heavy_rain, snow or storm.
+--simulate  Stand-in feed for development: seeded synthetic observations for
+            the last --days and forecasts for the next --hours.
+
+Hours already stored are replaced, except that forecasts never replace
+observations.`
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      file: { type: 'string' },
+      source: { type: 'string' },
+      simulate: { type: 'boolean', default: false },
+      days: { type: 'string', default: '28' },
+      hours: { type: 'string', default: '72' },
+      seed: { type: 'string', default: '1' },
+      help: { type: 'boolean', default: false }
+    }
+  })
+
+  if (values.help || (!values.file && !values.simulate)) {
+    console.log(USAGE)
+    process.exit(values.help ? 0 : 1)
+  }
+
+  // Imported after the env is loaded: lib/supabase builds its clients at import time
+  const { getSupabaseAdminClient, checkSupabaseConfig } = await import('@/lib/supabase')
+  const { parseWeatherImport, validateWeatherHour, saveWeather } = await import('@/lib/weather')
+  const { createRng, simulateWeather } = await import('@/lib/traffic-simulator')
+
+  if (!checkSupabaseConfig().isConfigured) {
+    console.error('Supabase not configured: set NEXT_PUBLIC_SUPABASE_URL, NEXT_PUBLIC_SUPABASE_ANON_KEY and SUPABASE_SERVICE_ROLE_KEY in .env.local')
+    process.exit(1)
+  }
+
+  const supabaseAdmin = getSupabaseAdminClient()
+
+  if (values.simulate) {
+    const now = new Date()
+    const hours = simulateWeather(
+      new Date(now.getTime() - parseInt(values.days!) * 24 * 60 * 60 * 1000),
+      new Date(now.getTime() + parseInt(values.hours!) * 60 * 60 * 1000),
+      now,
+      createRng(parseInt(values.seed!))
+    )
+    const { saved, skipped } = await saveWeather(supabaseAdmin, hours, values.source || 'simulator')
+    console.log(`${saved} simulated weather hours saved, ${skipped} forecasts skipped (already observed)`)
+    return
+  }
+
+  const file = values.file!
+  const items = parseWeatherImport(readFileSync(file, 'utf8'), file.endsWith('.json') ? 'application/json' : 'text/csv')
+
+  const hours: WeatherHour[] = []
+  const errors: string[] = []
+  items.forEach((item, index) => {
+    const validation = validateWeatherHour(item)
+    if (validation.ok) {
+      hours.push(validation.hour)
+    } else {
+      errors.push(`Row ${index + 1}: ${validation.error}`)
+    }
+  })
+
+  if (errors.length > 0) {
+    console.error(`${errors.length} invalid rows, nothing loaded:`)
+    errors.slice(0, 10).forEach(error => console.error(`  ${error}`))
+    process.exit(1)
+  }
+
+  const { saved, skipped } = await saveWeather(supabaseAdmin, hours, values.source || basename(file))
+  console.log(`${saved} weather hours saved from ${file}, ${skipped} skipped (forecasts for observed hours or duplicates)`)
+}
+
+main().catch(error => {
+  console.error(error)
+  process.exit(1)
+})
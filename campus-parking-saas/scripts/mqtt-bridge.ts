@@ -0,0 +1,26 @@
+import { loadEnvConfig } from '@next/env'
+
+// Load .env.local etc. the same way `next dev` does, before reading config
+loadEnvConfig(process.cwd())
+
+async function main() {
+  // Imported after the env is loaded: lib/supabase builds its clients at import time
+  const { getSupabaseAdminClient, checkSupabaseConfig } = await import('@/lib/supabase')
+  const { loadMqttBridgeConfig, startMqttBridge } = await import('@/lib/mqtt-bridge')
+
+  if (!checkSupabaseConfig().isConfigured) {
+    console.error('Supabase not configured: set NEXT_PUBLIC_SUPABASE_URL, NEXT_PUBLIC_SUPABASE_ANON_KEY and SUPABASE_SERVICE_ROLE_KEY in .env.local')
+    process.exit(1)
+  }
+
+  const client = startMqttBridge(getSupabaseAdminClient(), loadMqttBridgeConfig())
+
+  const shutdown = () => {
+    console.log('Shutting down MQTT bridge')
+    client.end(false, {}, () => process.exit(0))
+  }
+  process.on('SIGINT', shutdown)
+  process.on('SIGTERM', shutdown)
+}
+
+main()
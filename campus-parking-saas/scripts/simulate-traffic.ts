@@ -0,0 +1,283 @@
+import { loadEnvConfig } from '@next/env'
+import { parseArgs } from 'util'
+import { randomBytes, randomUUID } from 'crypto'
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+// Load .env.local etc. the same way `next dev` does, before reading config
+loadEnvConfig(process.cwd())
+
+const USAGE = `Usage:
+  npm run simulate -- replay [--base-url http://localhost:3000] [--speed 60] [--interval 5]
+                              [--hours 24] [--start 2024-01-15T06:00] [--lpr-rate 2]
+                              [--register-devices] [--seed 1]
+  npm run simulate -- backfill [--days 28] [--interval 15] [--seed 1]
+
+replay    Post simulated readings (signed, as each lot's sensor device) and LPR
+          detections to a running app. The simulated clock runs --speed times
+          faster than real time; a reading is sent every --interval simulated
+          minutes. Readings are stamped on arrival, so a fast replay squeezes a
+          day of curves into minutes of history.
+backfill  Write --days of simulated readings straight into occupancy_history,
+          one per lot every --interval minutes, ending now, and rebuild the
+          hourly and daily rollups for them. Stored weather (npm run weather)
+          raises demand on wet days, most of all in covered lots.`
+
+const BACKFILL_CHUNK_SIZE = 1000
+
+async function main() {
+  const { positionals, values } = parseArgs({
+    allowPositionals: true,
+    options: {
+      'base-url': { type: 'string', default: 'http://localhost:3000' },
+      speed: { type: 'string', default: '60' },
+      interval: { type: 'string' },
+      hours: { type: 'string', default: '24' },
+      start: { type: 'string' },
+      'lpr-rate': { type: 'string', default: '2' },
+      'register-devices': { type: 'boolean', default: false },
+      days: { type: 'string', default: '28' },
+      seed: { type: 'string', default: '1' },
+      help: { type: 'boolean', default: false }
+    }
+  })
+
+  const mode = positionals[0]
+  if (values.help || (mode !== 'replay' && mode !== 'backfill')) {
+    console.log(USAGE)
+    process.exit(values.help ? 0 : 1)
+  }
+
+  // Imported after the env is loaded: lib/supabase builds its clients at import time
+  const { getSupabaseAdminClient, checkSupabaseConfig } = await import('@/lib/supabase')
+  const { createRng } = await import('@/lib/traffic-simulator')
+
+  if (!checkSupabaseConfig().isConfigured) {
+    console.error('Supabase not configured: set NEXT_PUBLIC_SUPABASE_URL, NEXT_PUBLIC_SUPABASE_ANON_KEY and SUPABASE_SERVICE_ROLE_KEY in .env.local')
+    process.exit(1)
+  }
+
+  const supabaseAdmin = getSupabaseAdminClient()
+  const rng = createRng(parseInt(values.seed!))
+
+  const { data: lots, error: lotsError } = await supabaseAdmin
+    .from('parking_lots')
+    .select('id, name, capacity, permit_restrictions, amenities, location')
+    .order('name')
+
+  if (lotsError || !lots || lots.length === 0) {
+    console.error('No parking lots to simulate:', lotsError?.message || 'run supabase-schema.sql first')
+    process.exit(1)
+  }
+
+  if (mode === 'backfill') {
+    await backfill(supabaseAdmin, lots, rng, parseInt(values.days!), parseInt(values.interval || '15'))
+  } else {
+    await replay(supabaseAdmin, lots, rng, {
+      baseUrl: values['base-url']!.replace(/\/+$/, ''),
+      speed: parseFloat(values.speed!),
+      intervalMinutes: parseInt(values.interval || '5'),
+      hours: parseFloat(values.hours!),
+      start: values.start ? new Date(values.start) : new Date(),
+      lprRate: parseFloat(values['lpr-rate']!),
+      registerDevices: values['register-devices']!
+    })
+  }
+}
+
+type Lot = {
+  id: string
+  name: string
+  capacity: number
+  permit_restrictions: string[]
+  amenities: string[] | null
+  location: { lat: number; lng: number }
+}
+
+async function backfill(supabaseAdmin: SupabaseClient, lots: Lot[], rng: () => number, days: number, intervalMinutes: number) {
+  const { simulateOccupancy } = await import('@/lib/traffic-simulator')
+  const { rollupOccupancyHistory } = await import('@/lib/occupancy-rollups')
+  const { loadPlacedEvents } = await import('@/lib/campus-events')
+  const { loadWeather, createWeatherLookup, weatherFactor, COVERED_AMENITY } = await import('@/lib/weather')
+
+  const end = new Date()
+  const start = new Date(end.getTime() - days * 24 * 60 * 60 * 1000)
+  const events = await loadPlacedEvents(supabaseAdmin, start, end, lots)
+  const campusCapacity = lots.reduce((sum, lot) => sum + lot.capacity, 0)
+
+  const isCovered = (lot: Lot) => (lot.amenities || []).includes(COVERED_AMENITY)
+  const coveredShare = lots.filter(isCovered).reduce((sum, lot) => sum + lot.capacity, 0) / campusCapacity
+  const weatherAt = createWeatherLookup(await loadWeather(supabaseAdmin, start, end))
+
+  console.log(`Backfilling ${days} days of readings every ${intervalMinutes} min for ${lots.length} lots`)
+
+  let rows: Array<{ lot_id: string; occupancy_count: number; timestamp: string; source: 'sensor' }> = []
+  let written = 0
+  const flush = async () => {
+    if (rows.length === 0) return
+    const { error } = await supabaseAdmin.from('occupancy_history').insert(rows)
+    if (error) {
+      throw error
+    }
+    written += rows.length
+    rows = []
+  }
+
+  for (let time = start.getTime(); time <= end.getTime(); time += intervalMinutes * 60 * 1000) {
+    const at = new Date(time)
+    lots.forEach(lot => {
+      rows.push({
+        lot_id: lot.id,
+        occupancy_count: simulateOccupancy(
+          lot, at, events, rng,
+          weatherFactor(weatherAt(at), isCovered(lot), coveredShare)
+        ),
+        timestamp: at.toISOString(),
+        source: 'sensor'
+      })
+    })
+    if (rows.length >= BACKFILL_CHUNK_SIZE) {
+      await flush()
+      process.stdout.write(`\r${written} readings written`)
+    }
+  }
+  await flush()
+
+  console.log(`\r${written} readings written`)
+
+  const hours = await rollupOccupancyHistory(supabaseAdmin, start, end)
+  console.log(`${hours} hourly rollups rebuilt`)
+}
+
+interface ReplayOptions {
+  baseUrl: string
+  speed: number
+  intervalMinutes: number
+  hours: number
+  start: Date
+  lprRate: number
+  registerDevices: boolean
+}
+
+async function replay(supabaseAdmin: SupabaseClient, lots: Lot[], rng: () => number, options: ReplayOptions) {
+  const { simulateOccupancy, simulateDetections } = await import('@/lib/traffic-simulator')
+  const { computeSensorSignature, SENSOR_AUTH_HEADERS } = await import('@/lib/sensor-auth')
+  const { loadPlacedEvents } = await import('@/lib/campus-events')
+
+  // One lot-level device per lot; with --register-devices, lots without one
+  // get a `sim-` device with a fresh secret
+  const { data: devices, error: devicesError } = await supabaseAdmin
+    .from('sensor_devices')
+    .select('id, lot_id, secret')
+    .eq('enabled', true)
+    .is('zone_id', null)
+
+  if (devicesError) {
+    throw devicesError
+  }
+
+  const deviceByLot = new Map<string, { id: string; secret: string }>()
+  devices?.forEach(device => {
+    if (!deviceByLot.has(device.lot_id)) {
+      deviceByLot.set(device.lot_id, { id: device.id, secret: device.secret })
+    }
+  })
+
+  for (const lot of lots) {
+    if (deviceByLot.has(lot.id) || !options.registerDevices) continue
+
+    const device = { id: `sim-${lot.id.slice(0, 8)}`, secret: randomBytes(24).toString('hex') }
+    const { error } = await supabaseAdmin
+      .from('sensor_devices')
+      .upsert({ ...device, lot_id: lot.id, enabled: true })
+
+    if (error) {
+      throw error
+    }
+    deviceByLot.set(lot.id, device)
+    console.log(`Registered simulator device ${device.id} for ${lot.name}`)
+  }
+
+  const sensedLots = lots.filter(lot => deviceByLot.has(lot.id))
+  lots.filter(lot => !deviceByLot.has(lot.id)).forEach(lot => {
+    console.warn(`Skipping ${lot.name}: no enabled lot-level sensor device (use --register-devices)`)
+  })
+
+  const end = new Date(options.start.getTime() + options.hours * 60 * 60 * 1000)
+  const events = await loadPlacedEvents(supabaseAdmin, options.start, end, lots)
+  const tickMs = options.intervalMinutes * 60 * 1000
+  const realTickMs = tickMs / options.speed
+
+  console.log(
+    `Replaying ${options.hours}h from ${options.start.toISOString()} at ${options.speed}x ` +
+    `against ${options.baseUrl} (${sensedLots.length} lots, one tick every ${Math.round(realTickMs)} ms)`
+  )
+
+  const stats = { sent: 0, failed: 0, detections: 0 }
+  let stopped = false
+  process.on('SIGINT', () => { stopped = true })
+
+  for (let time = options.start.getTime(); time <= end.getTime() && !stopped; time += tickMs) {
+    const tickStarted = Date.now()
+    const at = new Date(time)
+
+    const occupancies = sensedLots.map(lot => ({
+      ...lot,
+      occupancy: simulateOccupancy(lot, at, events, rng)
+    }))
+
+    await Promise.all(occupancies.map(async lot => {
+      const device = deviceByLot.get(lot.id)!
+      const body = JSON.stringify({ lot_id: lot.id, occupancy_count: lot.occupancy, sensor_id: device.id })
+      const timestamp = Math.floor(Date.now() / 1000).toString()
+      const nonce = randomUUID()
+
+      const response = await fetch(`${options.baseUrl}/api/sensors/occupancy`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          [SENSOR_AUTH_HEADERS.deviceId]: device.id,
+          [SENSOR_AUTH_HEADERS.timestamp]: timestamp,
+          [SENSOR_AUTH_HEADERS.nonce]: nonce,
+          [SENSOR_AUTH_HEADERS.signature]: computeSensorSignature(device.secret, timestamp, nonce, body)
+        },
+        body
+      }).catch(() => null)
+
+      if (response?.ok) {
+        stats.sent++
+      } else {
+        stats.failed++
+        console.warn(`Reading for ${lot.name} failed: ${response ? response.status : 'no response'}`)
+      }
+    }))
+
+    const detections = simulateDetections(occupancies, options.intervalMinutes, options.lprRate, rng)
+    for (const detection of detections) {
+      const response = await fetch(`${options.baseUrl}/api/violations/lpr`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(detection)
+      }).catch(() => null)
+
+      if (response?.ok) {
+        stats.detections++
+      }
+    }
+
+    process.stdout.write(
+      `\r${at.toISOString()} sent ${stats.sent} readings, ${stats.failed} failed, ${stats.detections} LPR detections`
+    )
+
+    const wait = realTickMs - (Date.now() - tickStarted)
+    if (wait > 0) {
+      await new Promise(resolve => setTimeout(resolve, wait))
+    }
+  }
+
+  console.log('\nReplay finished')
+}
+
+main().catch(error => {
+  console.error(error)
+  process.exit(1)
+})
@@ -9,19 +9,63 @@ import { useUser, SignOutButton } from '@clerk/nextjs'
 import { getUserProfile, syncUserProfile } from '@/lib/clerk-auth-client'
 import { supabase } from '@/lib/supabase'
 import { formatDate, getOccupancyStatus } from '@/lib/utils'
+import { campusTime } from '@/lib/campus-time'
+import { getDeviceHealth, getFreshnessStatus, getLastDataAt } from '@/lib/sensor-health'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
 import type { Database } from '@/lib/supabase'
+import type { AccuracyReport } from '@/lib/forecast-accuracy'
+import type { RecommendationWeights } from '@/lib/recommendations'
+import { STANDARD_DAY_TYPES } from '@/lib/academic-calendar'
 
 type ParkingLot = Database['public']['Tables']['parking_lots']['Row']
 type Violation = Database['public']['Tables']['violations']['Row']
 type UserProfile = Database['public']['Tables']['users']['Row']
+type SensorDevice = Omit<Database['public']['Tables']['sensor_devices']['Row'], 'secret'>
+type SensorAuthFailure = Database['public']['Tables']['sensor_auth_failures']['Row']
+type QuarantinedReading = Database['public']['Tables']['quarantined_readings']['Row']
+type LotZone = Database['public']['Tables']['lot_zones']['Row']
+type ManualCount = Database['public']['Tables']['manual_counts']['Row']
+type DriftEstimate = Database['public']['Tables']['sensor_drift_estimates']['Row']
+type DailyOccupancy = Database['public']['Tables']['occupancy_daily']['Row']
+type CalendarPeriod = Database['public']['Tables']['academic_calendar']['Row']
 
 export default function AdminDashboard() {
   const { user: clerkUser, isLoaded } = useUser()
   const [profile, setProfile] = useState<UserProfile | null>(null)
   const [parkingLots, setParkingLots] = useState<ParkingLot[]>([])
   const [violations, setViolations] = useState<Violation[]>([])
+  const [sensorDevices, setSensorDevices] = useState<SensorDevice[]>([])
+  const [sensorAuthFailures, setSensorAuthFailures] = useState<SensorAuthFailure[]>([])
+  const [quarantinedReadings, setQuarantinedReadings] = useState<QuarantinedReading[]>([])
+  const [lotZones, setLotZones] = useState<LotZone[]>([])
+  const [manualCounts, setManualCounts] = useState<ManualCount[]>([])
+  const [driftEstimates, setDriftEstimates] = useState<DriftEstimate[]>([])
+  const [dailyOccupancy, setDailyOccupancy] = useState<DailyOccupancy[]>([])
+  const [forecastAccuracy, setForecastAccuracy] = useState<AccuracyReport | null>(null)
+  const [countForm, setCountForm] = useState({
+    lot_id: '',
+    zone_id: '',
+    occupancy_count: '',
+    authoritative: false,
+    notes: ''
+  })
+  const [countError, setCountError] = useState<string | null>(null)
+  const [calendarPeriods, setCalendarPeriods] = useState<CalendarPeriod[]>([])
+  const [periodForm, setPeriodForm] = useState({
+    id: '',
+    name: '',
+    day_type: 'term',
+    start_date: '',
+    end_date: ''
+  })
+  const [calendarImport, setCalendarImport] = useState('')
+  const [replaceCalendar, setReplaceCalendar] = useState(false)
+  const [calendarError, setCalendarError] = useState<string | null>(null)
+  const [recommendationWeights, setRecommendationWeights] = useState<Record<string, string>>({})
+  const [defaultWeights, setDefaultWeights] = useState<RecommendationWeights | null>(null)
+  const [weightsError, setWeightsError] = useState<string | null>(null)
   const [stats, setStats] = useState({
     totalSpots: 0,
     occupiedSpots: 0,
@@ -94,6 +138,100 @@ export default function AdminDashboard() {
       if (violationsError) throw violationsError
       setViolations(violationsData || [])
 
+      // Fetch sensor devices and their recently rejected requests
+      const { data: devicesData, error: devicesError } = await supabase
+        .from('sensor_devices')
+        .select('id, lot_id, zone_id, enabled, last_seen_at, last_heartbeat_at, battery_level, firmware_version, created_at')
+        .order('id')
+
+      if (devicesError) throw devicesError
+      setSensorDevices(devicesData || [])
+
+      const { data: failuresData, error: failuresError } = await supabase
+        .from('sensor_auth_failures')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(100)
+
+      if (failuresError) throw failuresError
+      setSensorAuthFailures(failuresData || [])
+
+      // Fetch readings held back by anomaly detection
+      const { data: quarantineData, error: quarantineError } = await supabase
+        .from('quarantined_readings')
+        .select('*')
+        .eq('status', 'pending')
+        .order('timestamp', { ascending: false })
+        .limit(100)
+
+      if (quarantineError) throw quarantineError
+      setQuarantinedReadings(quarantineData || [])
+
+      // Fetch zones and recent officer headcounts
+      const { data: zonesData, error: zonesError } = await supabase
+        .from('lot_zones')
+        .select('*')
+        .order('level_number')
+        .order('name')
+
+      if (zonesError) throw zonesError
+      setLotZones(zonesData || [])
+
+      const { data: countsData, error: countsError } = await supabase
+        .from('manual_counts')
+        .select('*')
+        .order('counted_at', { ascending: false })
+        .limit(100)
+
+      if (countsError) throw countsError
+      setManualCounts(countsData || [])
+
+      const { data: driftData, error: driftError } = await supabase
+        .from('sensor_drift_estimates')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(200)
+
+      if (driftError) throw driftError
+      setDriftEstimates(driftData || [])
+
+      // Fetch the last week of daily occupancy rollups
+      const weekAgo = campusTime(new Date(Date.now() - 7 * 24 * 60 * 60 * 1000)).date
+      const { data: dailyData, error: dailyError } = await supabase
+        .from('occupancy_daily')
+        .select('*')
+        .gte('day', weekAgo)
+        .order('day', { ascending: false })
+
+      if (dailyError) throw dailyError
+      setDailyOccupancy(dailyData || [])
+
+      // Fetch the academic calendar
+      const { data: calendarData, error: calendarFetchError } = await supabase
+        .from('academic_calendar')
+        .select('*')
+        .order('start_date')
+
+      if (calendarFetchError) throw calendarFetchError
+      setCalendarPeriods(calendarData || [])
+
+      // Accuracy of the last two weeks of live forecasts
+      const accuracyResponse = await fetch('/api/predictions/accuracy?days=14')
+      if (accuracyResponse.ok) {
+        const { data } = await accuracyResponse.json()
+        setForecastAccuracy(data)
+      }
+
+      // Weights the recommendations are scored with
+      const weightsResponse = await fetch('/api/recommendations/weights')
+      if (weightsResponse.ok) {
+        const { data } = await weightsResponse.json()
+        setRecommendationWeights(Object.fromEntries(
+          Object.entries(data.weights).map(([key, value]) => [key, String(value)])
+        ))
+        setDefaultWeights(data.defaults)
+      }
+
       // Calculate stats
       if (lotsData) {
         const totalSpots = lotsData.reduce((sum, lot) => sum + lot.capacity, 0)
@@ -151,6 +289,179 @@ export default function AdminDashboard() {
     }
   }
 
+  const reviewQuarantinedReading = async (readingId: string, action: 'accept' | 'discard') => {
+    try {
+      const response = await fetch(`/api/sensors/quarantine/${readingId}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action })
+      })
+
+      if (!response.ok) {
+        const { error } = await response.json()
+        throw new Error(error)
+      }
+
+      setQuarantinedReadings(prev => prev.filter(r => r.id !== readingId))
+    } catch (error) {
+      console.error('Error reviewing quarantined reading:', error)
+    }
+  }
+
+  const submitManualCount = async () => {
+    try {
+      setCountError(null)
+      const response = await fetch('/api/occupancy/manual', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          lot_id: countForm.lot_id,
+          zone_id: countForm.zone_id || null,
+          occupancy_count: parseInt(countForm.occupancy_count),
+          authoritative: countForm.authoritative,
+          notes: countForm.notes
+        })
+      })
+
+      if (!response.ok) {
+        const { error } = await response.json()
+        throw new Error(error)
+      }
+
+      setCountForm(prev => ({ ...prev, occupancy_count: '', authoritative: false, notes: '' }))
+      fetchData()
+    } catch (error) {
+      console.error('Error submitting manual count:', error)
+      setCountError(error instanceof Error ? error.message : 'Could not submit count')
+    }
+  }
+
+  const savePeriod = async () => {
+    try {
+      setCalendarError(null)
+      const { id, ...period } = periodForm
+      const response = await fetch(id ? `/api/calendar/${id}` : '/api/calendar', {
+        method: id ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(id ? period : [period])
+      })
+
+      if (!response.ok) {
+        const { error, errors } = await response.json()
+        throw new Error(errors?.[0]?.error || error)
+      }
+
+      setPeriodForm({ id: '', name: '', day_type: 'term', start_date: '', end_date: '' })
+      fetchData()
+    } catch (error) {
+      console.error('Error saving calendar period:', error)
+      setCalendarError(error instanceof Error ? error.message : 'Could not save period')
+    }
+  }
+
+  const deletePeriod = async (periodId: string) => {
+    try {
+      const response = await fetch(`/api/calendar/${periodId}`, { method: 'DELETE' })
+
+      if (!response.ok) {
+        const { error } = await response.json()
+        throw new Error(error)
+      }
+
+      setCalendarPeriods(prev => prev.filter(period => period.id !== periodId))
+    } catch (error) {
+      console.error('Error deleting calendar period:', error)
+    }
+  }
+
+  const importCalendar = async () => {
+    try {
+      setCalendarError(null)
+      const response = await fetch(`/api/calendar${replaceCalendar ? '?replace=true' : ''}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'text/csv' },
+        body: calendarImport
+      })
+
+      if (!response.ok) {
+        const { error, errors } = await response.json()
+        throw new Error(errors ? `Row ${errors[0].index + 1}: ${errors[0].error}` : error)
+      }
+
+      setCalendarImport('')
+      setReplaceCalendar(false)
+      fetchData()
+    } catch (error) {
+      console.error('Error importing calendar:', error)
+      setCalendarError(error instanceof Error ? error.message : 'Could not import calendar')
+    }
+  }
+
+  const saveWeights = async (weights: Record<string, string>) => {
+    try {
+      setWeightsError(null)
+      const response = await fetch('/api/recommendations/weights', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(Object.fromEntries(
+          Object.entries(weights).map(([key, value]) => [key, value.trim() === '' ? NaN : Number(value)])
+        ))
+      })
+
+      if (!response.ok) {
+        const { error } = await response.json()
+        throw new Error(error)
+      }
+
+      const { data } = await response.json()
+      setRecommendationWeights(Object.fromEntries(
+        Object.entries(data.weights).map(([key, value]) => [key, String(value)])
+      ))
+    } catch (error) {
+      console.error('Error saving recommendation weights:', error)
+      setWeightsError(error instanceof Error ? error.message : 'Could not save weights')
+    }
+  }
+
+  // Manual counts tab: sensor value for the lot/zone being counted
+  const countLot = parkingLots.find(lot => lot.id === countForm.lot_id)
+  const countZone = lotZones.find(zone => zone.id === countForm.zone_id)
+  const sensorValue = countZone ? countZone.current_occupancy : countLot?.current_occupancy
+  const nameOf = (count: ManualCount) => {
+    const lotName = parkingLots.find(lot => lot.id === count.lot_id)?.name || 'Unknown'
+    const zoneName = lotZones.find(zone => zone.id === count.zone_id)?.name
+    return zoneName ? `${lotName} / ${zoneName}` : lotName
+  }
+
+  // Sensor accuracy per lot from the counts loaded above
+  const accuracy = parkingLots.map(lot => {
+    const discrepancies = manualCounts.filter(count => count.lot_id === lot.id).map(count => count.discrepancy)
+    return {
+      lot,
+      counts: discrepancies.length,
+      meanAbsolute: discrepancies.length > 0
+        ? discrepancies.reduce((sum, d) => sum + Math.abs(d), 0) / discrepancies.length
+        : 0
+    }
+  }).filter(entry => entry.counts > 0)
+
+  // Analytics tab: average and peak utilization per lot over the last week
+  const weeklyUtilization = parkingLots.map(lot => {
+    const days = dailyOccupancy.filter(day => day.lot_id === lot.id)
+    const busiest = days.reduce<DailyOccupancy | null>(
+      (max, day) => (!max || day.max_occupancy > max.max_occupancy ? day : max),
+      null
+    )
+    return {
+      lot,
+      days: days.length,
+      averageRate: days.length > 0 && lot.capacity > 0
+        ? days.reduce((sum, day) => sum + Number(day.avg_occupancy), 0) / days.length / lot.capacity * 100
+        : 0,
+      busiest
+    }
+  }).filter(entry => entry.days > 0)
+
   // Remove handleSignOut function as we'll use Clerk's SignOutButton
 
   if (loading) {
@@ -282,6 +593,9 @@ export default function AdminDashboard() {
               { id: 'overview', label: 'Overview' },
               { id: 'lots', label: 'Parking Lots' },
               { id: 'violations', label: 'Violations' },
+              { id: 'sensors', label: 'Sensors' },
+              { id: 'counts', label: 'Manual Counts' },
+              { id: 'calendar', label: 'Calendar' },
               { id: 'analytics', label: 'Analytics' }
             ].map((tab) => (
               <button
@@ -376,6 +690,7 @@ export default function AdminDashboard() {
               const status = getOccupancyStatus(lot.current_occupancy, lot.capacity)
               const availableSpots = lot.capacity - lot.current_occupancy
               const occupancyRate = (lot.current_occupancy / lot.capacity) * 100
+              const freshness = getFreshnessStatus(getLastDataAt(lot))
               
               return (
                 <Card key={lot.id}>
@@ -386,6 +701,11 @@ export default function AdminDashboard() {
                         <CardDescription>
                           {availableSpots} of {lot.capacity} spots available
                         </CardDescription>
+                        {freshness.freshness !== 'live' && (
+                          <span className={`inline-block mt-1 px-2 py-1 rounded text-xs ${freshness.bgColor} ${freshness.color}`}>
+                            {freshness.label}
+                          </span>
+                        )}
                       </div>
                       <div className={`px-2 py-1 rounded-full text-xs ${status.bgColor} ${status.color}`}>
                         {status.status}
@@ -510,6 +830,449 @@ export default function AdminDashboard() {
           </Card>
         )}
 
+        {activeTab === 'sensors' && (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+            <Card className="lg:col-span-2">
+              <CardHeader>
+                <CardTitle>Stale &amp; Offline Lots</CardTitle>
+                <CardDescription>Lots whose occupancy hasn't been confirmed by a sensor recently</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-4">
+                  {parkingLots
+                    .map(lot => ({ lot, freshness: getFreshnessStatus(getLastDataAt(lot)) }))
+                    .filter(({ freshness }) => freshness.freshness !== 'live')
+                    .map(({ lot, freshness }) => {
+                      const lastDataAt = getLastDataAt(lot)
+                      const lotDevices = sensorDevices.filter(device => device.lot_id === lot.id)
+
+                      return (
+                        <div key={lot.id} className="flex items-center justify-between p-3 border rounded-lg">
+                          <div className="flex-1">
+                            <p className="font-medium">{lot.name}</p>
+                            <p className="text-sm text-gray-600">
+                              Last data: {lastDataAt ? formatDate(lastDataAt) : 'never'}
+                            </p>
+                            <p className="text-xs text-gray-500">
+                              Devices: {lotDevices.length > 0 ? lotDevices.map(device => device.id).join(', ') : 'none registered'}
+                            </p>
+                          </div>
+                          <span className={`px-2 py-1 rounded-full text-xs ${freshness.bgColor} ${freshness.color}`}>
+                            {freshness.label}
+                          </span>
+                        </div>
+                      )
+                    })}
+                  {parkingLots.every(lot => getFreshnessStatus(getLastDataAt(lot)).freshness === 'live') && (
+                    <p className="text-sm text-gray-600">All lots are reporting live data.</p>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card className="lg:col-span-2">
+              <CardHeader>
+                <CardTitle>Sensor Drift Correction</CardTitle>
+                <CardDescription>Offset added to each lot's raw sensor counts, learned from headcounts and overnight-empty checks</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-4">
+                  {parkingLots
+                    .map(lot => ({ lot, history: driftEstimates.filter(estimate => estimate.lot_id === lot.id) }))
+                    .filter(({ lot, history }) => history.length > 0 || Number(lot.drift_offset) !== 0)
+                    .map(({ lot, history }) => (
+                      <div key={lot.id} className="p-3 border rounded-lg">
+                        <div className="flex items-center justify-between">
+                          <p className="font-medium">{lot.name}</p>
+                          <span className="text-sm">
+                            {Number(lot.drift_offset) > 0 ? '+' : ''}{Number(lot.drift_offset).toFixed(1)} cars
+                          </span>
+                        </div>
+                        <div className="mt-2 space-y-1">
+                          {history.slice(0, 5).map(estimate => (
+                            <p key={estimate.id} className="text-xs text-gray-500">
+                              {formatDate(estimate.created_at)} • {estimate.reference_type === 'manual_count' ? 'Headcount' : 'Overnight empty'} {estimate.reference_count} vs sensor {estimate.sensor_count} • offset {Number(estimate.previous_offset).toFixed(1)} → {Number(estimate.new_offset).toFixed(1)}
+                            </p>
+                          ))}
+                        </div>
+                      </div>
+                    ))}
+                  {driftEstimates.length === 0 && parkingLots.every(lot => Number(lot.drift_offset) === 0) && (
+                    <p className="text-sm text-gray-600">No drift measured yet.</p>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Sensor Devices</CardTitle>
+                <CardDescription>Registered devices and their rejected requests</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-4">
+                  {sensorDevices.map((device) => {
+                    const rejected = sensorAuthFailures.filter(f => f.device_id === device.id).length
+                    const health = getDeviceHealth(device.last_seen_at)
+
+                    return (
+                      <div key={device.id} className="flex items-center justify-between p-3 border rounded-lg">
+                        <div className="flex-1">
+                          <p className="font-medium">{device.id}</p>
+                          <p className="text-sm text-gray-600">
+                            {parkingLots.find(lot => lot.id === device.lot_id)?.name || 'Unknown'}
+                          </p>
+                          <p className="text-xs text-gray-500">
+                            Last seen: {device.last_seen_at ? formatDate(device.last_seen_at) : 'never'}
+                            {device.battery_level !== null && ` • Battery ${device.battery_level}%`}
+                            {device.firmware_version && ` • v${device.firmware_version}`}
+                          </p>
+                        </div>
+                        <div className="flex items-center space-x-2">
+                          <span className={`px-2 py-1 rounded-full text-xs ${
+                            health === 'online' ? 'bg-green-100 text-green-800' :
+                            health === 'offline' ? 'bg-red-100 text-red-800' :
+                            'bg-gray-100 text-gray-800'
+                          }`}>
+                            {health.replace('_', ' ')}
+                          </span>
+                          {rejected > 0 && (
+                            <span className="px-2 py-1 rounded-full text-xs bg-red-100 text-red-800">
+                              {rejected} rejected
+                            </span>
+                          )}
+                          <span className={`px-2 py-1 rounded-full text-xs ${
+                            device.enabled ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+                          }`}>
+                            {device.enabled ? 'enabled' : 'disabled'}
+                          </span>
+                        </div>
+                      </div>
+                    )
+                  })}
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card className="lg:col-span-2">
+              <CardHeader>
+                <CardTitle>Quarantined Readings</CardTitle>
+                <CardDescription>Readings held back as anomalous; accept to apply them or discard</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-4">
+                  {quarantinedReadings.map((reading) => (
+                    <div key={reading.id} className="flex items-center justify-between p-3 border rounded-lg">
+                      <div className="flex-1">
+                        <p className="font-medium">
+                          {parkingLots.find(lot => lot.id === reading.lot_id)?.name || 'Unknown'}: {reading.occupancy_count} cars
+                        </p>
+                        <p className="text-sm text-gray-600">
+                          {reading.reasons.map(reason => reason.replace(/_/g, ' ')).join(', ')} (score {reading.anomaly_score})
+                        </p>
+                        <p className="text-xs text-gray-500">{formatDate(reading.timestamp)}</p>
+                      </div>
+                      <div className="flex space-x-2">
+                        <Button
+                          size="sm"
+                          onClick={() => reviewQuarantinedReading(reading.id, 'accept')}
+                        >
+                          Accept
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => reviewQuarantinedReading(reading.id, 'discard')}
+                        >
+                          Discard
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                  {quarantinedReadings.length === 0 && (
+                    <p className="text-sm text-gray-600">No readings awaiting review.</p>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Rejected Sensor Requests</CardTitle>
+                <CardDescription>Latest requests that failed authentication</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-4">
+                  {sensorAuthFailures.slice(0, 20).map((failure) => (
+                    <div key={failure.id} className="flex items-center justify-between p-3 border rounded-lg">
+                      <div className="flex-1">
+                        <p className="font-medium">{failure.device_id || 'Unknown device'}</p>
+                        <p className="text-sm text-gray-600">{failure.reason.replace(/_/g, ' ')}</p>
+                        <p className="text-xs text-gray-500">
+                          {formatDate(failure.created_at)}{failure.ip_address && ` • ${failure.ip_address}`}
+                        </p>
+                      </div>
+                    </div>
+                  ))}
+                  {sensorAuthFailures.length === 0 && (
+                    <p className="text-sm text-gray-600">No rejected requests.</p>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
+        {activeTab === 'counts' && (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+            <Card>
+              <CardHeader>
+                <CardTitle>Submit Headcount</CardTitle>
+                <CardDescription>Record a walk-through count and compare it with the sensors</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-4">
+                  <select
+                    value={countForm.lot_id}
+                    onChange={(e) => setCountForm(prev => ({ ...prev, lot_id: e.target.value, zone_id: '' }))}
+                    className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                  >
+                    <option value="">Select a lot</option>
+                    {parkingLots.map(lot => (
+                      <option key={lot.id} value={lot.id}>{lot.name}</option>
+                    ))}
+                  </select>
+                  {lotZones.some(zone => zone.lot_id === countForm.lot_id) && (
+                    <select
+                      value={countForm.zone_id}
+                      onChange={(e) => setCountForm(prev => ({ ...prev, zone_id: e.target.value }))}
+                      className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                    >
+                      <option value="">Whole lot</option>
+                      {lotZones.filter(zone => zone.lot_id === countForm.lot_id).map(zone => (
+                        <option key={zone.id} value={zone.id}>{zone.name}</option>
+                      ))}
+                    </select>
+                  )}
+                  <div className="flex items-center space-x-4">
+                    <Input
+                      type="number"
+                      min={0}
+                      placeholder="Cars counted"
+                      value={countForm.occupancy_count}
+                      onChange={(e) => setCountForm(prev => ({ ...prev, occupancy_count: e.target.value }))}
+                    />
+                    {sensorValue !== undefined && (
+                      <span className="text-sm text-gray-600 whitespace-nowrap">Sensor: {sensorValue}</span>
+                    )}
+                  </div>
+                  <Input
+                    placeholder="Notes (optional)"
+                    value={countForm.notes}
+                    onChange={(e) => setCountForm(prev => ({ ...prev, notes: e.target.value }))}
+                  />
+                  <label className="flex items-center space-x-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={countForm.authoritative}
+                      onChange={(e) => setCountForm(prev => ({ ...prev, authoritative: e.target.checked }))}
+                    />
+                    <span>Use this count as the current occupancy</span>
+                  </label>
+                  {countError && <p className="text-sm text-red-600">{countError}</p>}
+                  <Button
+                    onClick={submitManualCount}
+                    disabled={!countForm.lot_id || countForm.occupancy_count === ''}
+                  >
+                    Submit Count
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Sensor Accuracy</CardTitle>
+                <CardDescription>Average difference between headcounts and sensors</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-4">
+                  {accuracy.map(({ lot, counts, meanAbsolute }) => (
+                    <div key={lot.id} className="flex items-center justify-between">
+                      <div>
+                        <p className="font-medium">{lot.name}</p>
+                        <p className="text-sm text-gray-600">{counts} counts</p>
+                      </div>
+                      <span className="text-sm">±{meanAbsolute.toFixed(1)} cars</span>
+                    </div>
+                  ))}
+                  {accuracy.length === 0 && (
+                    <p className="text-sm text-gray-600">No headcounts recorded yet.</p>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card className="lg:col-span-2">
+              <CardHeader>
+                <CardTitle>Recent Headcounts</CardTitle>
+                <CardDescription>Manual counts next to the sensor value at the time</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-4">
+                  {manualCounts.slice(0, 30).map(count => (
+                    <div key={count.id} className="flex items-center justify-between p-3 border rounded-lg">
+                      <div className="flex-1">
+                        <p className="font-medium">{nameOf(count)}</p>
+                        <p className="text-sm text-gray-600">
+                          Counted {count.occupancy_count} • Sensor {count.sensor_occupancy} • {count.discrepancy > 0 ? '+' : ''}{count.discrepancy}
+                        </p>
+                        {count.notes && <p className="text-xs text-gray-500">{count.notes}</p>}
+                        <p className="text-xs text-gray-500">{formatDate(count.counted_at)}</p>
+                      </div>
+                      {count.authoritative && (
+                        <span className="px-2 py-1 rounded-full text-xs bg-blue-100 text-blue-800">
+                          {count.applied ? 'Applied' : 'Superseded'}
+                        </span>
+                      )}
+                    </div>
+                  ))}
+                  {manualCounts.length === 0 && (
+                    <p className="text-sm text-gray-600">No headcounts recorded yet.</p>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
+        {activeTab === 'calendar' && (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+            <Card>
+              <CardHeader>
+                <CardTitle>{periodForm.id ? 'Edit Period' : 'Add Period'}</CardTitle>
+                <CardDescription>
+                  Terms, breaks, holidays and exam weeks. Forecasts compare each day with past days of the same type.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-4">
+                  <Input
+                    placeholder="Name, e.g. Fall Finals"
+                    value={periodForm.name}
+                    onChange={(e) => setPeriodForm(prev => ({ ...prev, name: e.target.value }))}
+                  />
+                  <Input
+                    list="day-types"
+                    placeholder="Day type, e.g. exams"
+                    value={periodForm.day_type}
+                    onChange={(e) => setPeriodForm(prev => ({ ...prev, day_type: e.target.value }))}
+                  />
+                  <datalist id="day-types">
+                    {STANDARD_DAY_TYPES.map(dayType => (
+                      <option key={dayType} value={dayType} />
+                    ))}
+                  </datalist>
+                  <div className="flex items-center space-x-4">
+                    <Input
+                      type="date"
+                      value={periodForm.start_date}
+                      onChange={(e) => setPeriodForm(prev => ({ ...prev, start_date: e.target.value }))}
+                    />
+                    <span className="text-sm text-gray-600">to</span>
+                    <Input
+                      type="date"
+                      value={periodForm.end_date}
+                      onChange={(e) => setPeriodForm(prev => ({ ...prev, end_date: e.target.value }))}
+                    />
+                  </div>
+                  <div className="flex space-x-2">
+                    <Button
+                      onClick={savePeriod}
+                      disabled={!periodForm.name || !periodForm.day_type || !periodForm.start_date || !periodForm.end_date}
+                    >
+                      {periodForm.id ? 'Save Period' : 'Add Period'}
+                    </Button>
+                    {periodForm.id && (
+                      <Button
+                        variant="outline"
+                        onClick={() => setPeriodForm({ id: '', name: '', day_type: 'term', start_date: '', end_date: '' })}
+                      >
+                        Cancel
+                      </Button>
+                    )}
+                  </div>
+
+                  <div className="pt-4 border-t space-y-2">
+                    <p className="text-sm font-medium">Import CSV</p>
+                    <textarea
+                      rows={5}
+                      placeholder={'name,day_type,start_date,end_date\nSpring Break,break,2025-03-10,2025-03-14'}
+                      value={calendarImport}
+                      onChange={(e) => setCalendarImport(e.target.value)}
+                      className="flex w-full rounded-md border border-input bg-background px-3 py-2 text-sm font-mono"
+                    />
+                    <label className="flex items-center space-x-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={replaceCalendar}
+                        onChange={(e) => setReplaceCalendar(e.target.checked)}
+                      />
+                      <span>Replace the existing calendar</span>
+                    </label>
+                    <Button variant="outline" onClick={importCalendar} disabled={!calendarImport.trim()}>
+                      Import
+                    </Button>
+                  </div>
+                  {calendarError && <p className="text-sm text-red-600">{calendarError}</p>}
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Academic Calendar</CardTitle>
+                <CardDescription>Where periods overlap, the shorter one sets the day type</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-3">
+                  {calendarPeriods.map(period => (
+                    <div key={period.id} className="flex items-center justify-between p-3 border rounded-lg">
+                      <div>
+                        <p className="font-medium">{period.name}</p>
+                        <p className="text-sm text-gray-600">
+                          {period.day_type} · {period.start_date} – {period.end_date}
+                        </p>
+                      </div>
+                      <div className="flex space-x-2">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setPeriodForm({
+                            id: period.id,
+                            name: period.name,
+                            day_type: period.day_type,
+                            start_date: period.start_date,
+                            end_date: period.end_date
+                          })}
+                        >
+                          Edit
+                        </Button>
+                        <Button size="sm" variant="outline" onClick={() => deletePeriod(period.id)}>
+                          Delete
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                  {calendarPeriods.length === 0 && (
+                    <p className="text-sm text-gray-600">No calendar periods yet; every day is treated as a regular day.</p>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
         {activeTab === 'analytics' && (
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
             <Card>
@@ -562,6 +1325,158 @@ export default function AdminDashboard() {
                 </div>
               </CardContent>
             </Card>
+
+            <Card className="lg:col-span-2">
+              <CardHeader>
+                <CardTitle>Weekly Utilization</CardTitle>
+                <CardDescription>Average occupancy and busiest day per lot over the last 7 days</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-3">
+                  {weeklyUtilization.map(({ lot, averageRate, busiest }) => (
+                    <div key={lot.id} className="flex items-center justify-between p-3 border rounded-lg">
+                      <div>
+                        <p className="font-medium">{lot.name}</p>
+                        {busiest && (
+                          <p className="text-sm text-gray-600">
+                            Peak {busiest.max_occupancy}/{lot.capacity} at {formatDate(busiest.peak_at)}
+                          </p>
+                        )}
+                      </div>
+                      <span className="text-lg font-bold text-blue-600">{averageRate.toFixed(1)}% avg</span>
+                    </div>
+                  ))}
+                  {weeklyUtilization.length === 0 && (
+                    <p className="text-sm text-gray-600">No occupancy rollups yet.</p>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card className="lg:col-span-2">
+              <CardHeader>
+                <CardTitle>Forecast Accuracy</CardTitle>
+                <CardDescription>Live forecasts compared with actual hourly occupancy over the last 14 days</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {forecastAccuracy && forecastAccuracy.overall.count > 0 ? (
+                  <div className="space-y-6">
+                    <div className="grid grid-cols-3 gap-4 text-center">
+                      <div className="p-3 bg-blue-50 rounded-lg">
+                        <div className="text-2xl font-bold text-blue-600">{forecastAccuracy.overall.mae}</div>
+                        <p className="text-sm text-gray-600">Mean error (cars)</p>
+                      </div>
+                      <div className="p-3 bg-blue-50 rounded-lg">
+                        <div className="text-2xl font-bold text-blue-600">
+                          {forecastAccuracy.overall.mape !== null ? `${forecastAccuracy.overall.mape}%` : '-'}
+                        </div>
+                        <p className="text-sm text-gray-600">Mean % error</p>
+                      </div>
+                      <div className="p-3 bg-blue-50 rounded-lg">
+                        <div className="text-2xl font-bold text-blue-600">{forecastAccuracy.overall.count}</div>
+                        <p className="text-sm text-gray-600">Forecasts scored</p>
+                      </div>
+                    </div>
+
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                      <div>
+                        <h4 className="font-medium mb-2">By horizon</h4>
+                        <div className="space-y-1">
+                          {forecastAccuracy.by_horizon.map(row => (
+                            <div key={row.key} className="flex justify-between text-sm">
+                              <span>{row.key}h ahead</span>
+                              <span className="text-gray-600">MAE {row.mae} · bias {row.bias > 0 ? '+' : ''}{row.bias}</span>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                      <div>
+                        <h4 className="font-medium mb-2">By lot</h4>
+                        <div className="space-y-1">
+                          {forecastAccuracy.by_lot.map(row => (
+                            <div key={row.key} className="flex justify-between text-sm">
+                              <span>{parkingLots.find(lot => lot.id === row.key)?.name || 'Unknown'}</span>
+                              <span className="text-gray-600">MAE {row.mae} · {row.mape !== null ? `${row.mape}%` : '-'}</span>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    </div>
+
+                    <div>
+                      <h4 className="font-medium mb-2">Calibration</h4>
+                      <div className="space-y-1">
+                        {forecastAccuracy.calibration.map(bucket => (
+                          <div key={bucket.confidence_range} className="flex justify-between text-sm">
+                            <span>Confidence {bucket.confidence_range}</span>
+                            <span className="text-gray-600">
+                              {Math.round(bucket.hit_rate * 100)}% within 10% of capacity ({bucket.count})
+                            </span>
+                          </div>
+                        ))}
+                        {forecastAccuracy.interval_coverage && (
+                          <div className="flex justify-between text-sm pt-1 border-t">
+                            <span>p10–p90 interval</span>
+                            <span className="text-gray-600">
+                              {Math.round(forecastAccuracy.interval_coverage.within * 100)}% within (target 80%) ·{' '}
+                              {Math.round(forecastAccuracy.interval_coverage.below * 100)}% below ·{' '}
+                              {Math.round(forecastAccuracy.interval_coverage.above * 100)}% above
+                            </span>
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-600">No scored forecasts yet.</p>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Recommendation Weights</CardTitle>
+                <CardDescription>
+                  Points each factor adds to a lot&apos;s recommendation score. Drivers see the breakdown under &quot;Why this lot&quot;.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-3">
+                  {Object.entries(recommendationWeights).map(([key, value]) => (
+                    <div key={key} className="flex items-center justify-between space-x-4">
+                      <label htmlFor={`weight-${key}`} className="text-sm">
+                        {key.replace(/_/g, ' ')}
+                        {defaultWeights && (
+                          <span className="text-gray-500"> (default {defaultWeights[key as keyof RecommendationWeights]})</span>
+                        )}
+                      </label>
+                      <Input
+                        id={`weight-${key}`}
+                        type="number"
+                        min={0}
+                        className="w-28"
+                        value={value}
+                        onChange={(e) => setRecommendationWeights(prev => ({ ...prev, [key]: e.target.value }))}
+                      />
+                    </div>
+                  ))}
+                  <div className="flex space-x-2 pt-2">
+                    <Button onClick={() => saveWeights(recommendationWeights)}>Save Weights</Button>
+                    {defaultWeights && (
+                      <Button
+                        variant="outline"
+                        onClick={() => saveWeights(Object.fromEntries(
+                          Object.entries(defaultWeights).map(([key, weight]) => [key, String(weight)])
+                        ))}
+                      >
+                        Reset to Defaults
+                      </Button>
+                    )}
+                  </div>
+                  {weightsError && <p className="text-sm text-red-600">{weightsError}</p>}
+                </div>
+              </CardContent>
+            </Card>
           </div>
         )}
       </div>
@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseAdminClient, checkSupabaseConfig } from '@/lib/supabase'
+import { getUserProfile } from '@/lib/clerk-auth-server'
+import { validateCalendarPeriod } from '@/lib/academic-calendar'
+
+// PUT /api/calendar/:id
+// Replace an academic calendar period (admin only). Body:
+// {name, day_type, start_date, end_date}
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const config = checkSupabaseConfig()
+    if (!config.isConfigured) {
+      return NextResponse.json(
+        { error: 'Supabase not configured' },
+        { status: 503 }
+      )
+    }
+
+    const profile = await getUserProfile()
+    if (!profile || profile.role !== 'admin') {
+      return NextResponse.json(
+        { error: 'Admin role required' },
+        { status: 403 }
+      )
+    }
+
+    const validation = validateCalendarPeriod(await request.json())
+    if (!validation.ok) {
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 }
+      )
+    }
+
+    const supabaseAdmin = getSupabaseAdminClient()
+    const { data: period, error } = await supabaseAdmin
+      .from('academic_calendar')
+      .update(validation.period)
+      .eq('id', params.id)
+      .select('*')
+      .maybeSingle()
+
+    if (error) {
+      throw error
+    }
+
+    if (!period) {
+      return NextResponse.json(
+        { error: 'Calendar period not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: period
+    })
+
+  } catch (error) {
+    console.error('Error updating calendar period:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/calendar/:id
+// Remove an academic calendar period (admin only)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const config = checkSupabaseConfig()
+    if (!config.isConfigured) {
+      return NextResponse.json(
+        { error: 'Supabase not configured' },
+        { status: 503 }
+      )
+    }
+
+    const profile = await getUserProfile()
+    if (!profile || profile.role !== 'admin') {
+      return NextResponse.json(
+        { error: 'Admin role required' },
+        { status: 403 }
+      )
+    }
+
+    const supabaseAdmin = getSupabaseAdminClient()
+    const { data: deleted, error } = await supabaseAdmin
+      .from('academic_calendar')
+      .delete()
+      .eq('id', params.id)
+      .select('id')
+
+    if (error) {
+      throw error
+    }
+
+    if (!deleted || deleted.length === 0) {
+      return NextResponse.json(
+        { error: 'Calendar period not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Calendar period deleted'
+    })
+
+  } catch (error) {
+    console.error('Error deleting calendar period:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
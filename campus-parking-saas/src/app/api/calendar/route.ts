@@ -0,0 +1,151 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseAdminClient, checkSupabaseConfig } from '@/lib/supabase'
+import { getUserProfile } from '@/lib/clerk-auth-server'
+import {
+  MAX_IMPORT_PERIODS,
+  parseCalendarImport,
+  validateCalendarPeriod,
+  type CalendarPeriodInput
+} from '@/lib/academic-calendar'
+
+// GET /api/calendar?from=2024-01-01&to=2024-12-31
+// Academic calendar periods overlapping the range (all periods by default)
+export async function GET(request: NextRequest) {
+  try {
+    const config = checkSupabaseConfig()
+    if (!config.isConfigured) {
+      return NextResponse.json(
+        { error: 'Supabase not configured' },
+        { status: 503 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const from = searchParams.get('from')
+    const to = searchParams.get('to')
+
+    const supabaseAdmin = getSupabaseAdminClient()
+    let query = supabaseAdmin
+      .from('academic_calendar')
+      .select('*')
+      .order('start_date')
+
+    if (from) {
+      query = query.gte('end_date', from)
+    }
+    if (to) {
+      query = query.lte('start_date', to)
+    }
+
+    const { data: periods, error } = await query
+
+    if (error) {
+      throw error
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: periods || []
+    })
+
+  } catch (error) {
+    console.error('Error fetching academic calendar:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/calendar?replace=true
+// Import academic calendar periods (admin only): a JSON array, {"periods": [...]}
+// or CSV with a name,day_type,start_date,end_date header (Content-Type:
+// text/csv). Nothing is imported if any period is invalid. With replace=true
+// the existing calendar is replaced.
+export async function POST(request: NextRequest) {
+  try {
+    const config = checkSupabaseConfig()
+    if (!config.isConfigured) {
+      return NextResponse.json(
+        { error: 'Supabase not configured' },
+        { status: 503 }
+      )
+    }
+
+    const profile = await getUserProfile()
+    if (!profile || profile.role !== 'admin') {
+      return NextResponse.json(
+        { error: 'Admin role required' },
+        { status: 403 }
+      )
+    }
+
+    let items: unknown[]
+    try {
+      items = parseCalendarImport(await request.text(), request.headers.get('content-type'))
+    } catch {
+      return NextResponse.json(
+        { error: 'Body must be a JSON array of periods or CSV' },
+        { status: 400 }
+      )
+    }
+
+    if (items.length === 0) {
+      return NextResponse.json(
+        { error: 'No periods provided' },
+        { status: 400 }
+      )
+    }
+
+    if (items.length > MAX_IMPORT_PERIODS) {
+      return NextResponse.json(
+        { error: `Too many periods: maximum is ${MAX_IMPORT_PERIODS} per import` },
+        { status: 413 }
+      )
+    }
+
+    const periods: CalendarPeriodInput[] = []
+    const errors: Array<{ index: number; error: string }> = []
+    items.forEach((item, index) => {
+      const validation = validateCalendarPeriod(item)
+      if (validation.ok) {
+        periods.push(validation.period)
+      } else {
+        errors.push({ index, error: validation.error })
+      }
+    })
+
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid periods', errors },
+        { status: 400 }
+      )
+    }
+
+    const supabaseAdmin = getSupabaseAdminClient()
+    const { searchParams } = new URL(request.url)
+
+    // Replacing goes through one SQL function so a failed insert can't leave
+    // the campus without a calendar
+    const { data: saved, error } = searchParams.get('replace') === 'true'
+      ? await supabaseAdmin.rpc('replace_academic_calendar', { periods })
+      : await supabaseAdmin.from('academic_calendar').insert(periods).select('*')
+
+    if (error) {
+      throw error
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `Imported ${saved?.length || 0} calendar periods`,
+      data: saved || []
+    })
+
+  } catch (error) {
+    console.error('Error importing academic calendar:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
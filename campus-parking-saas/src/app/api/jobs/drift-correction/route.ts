@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseAdminClient, checkSupabaseConfig } from '@/lib/supabase'
+import { isAuthorizedCronRequest } from '@/lib/cron-auth'
+import { runOvernightDriftCheck, isOvernightWindow } from '@/lib/drift-correction'
+
+// GET /api/jobs/drift-correction
+// Scheduled job (hourly, acts only in the campus overnight window): learn
+// sensor drift from lots that should be empty overnight
+export async function GET(request: NextRequest) {
+  try {
+    if (!isAuthorizedCronRequest(request)) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const config = checkSupabaseConfig()
+    if (!config.isConfigured) {
+      return NextResponse.json(
+        { error: 'Supabase not configured' },
+        { status: 503 }
+      )
+    }
+
+    const supabaseAdmin = getSupabaseAdminClient()
+    const now = new Date()
+    const estimates = await runOvernightDriftCheck(supabaseAdmin, now)
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        in_overnight_window: isOvernightWindow(now),
+        checked_lots: estimates.length,
+        estimates
+      }
+    })
+
+  } catch (error) {
+    console.error('Error checking sensor drift:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseAdminClient, checkSupabaseConfig } from '@/lib/supabase'
+import { isAuthorizedCronRequest } from '@/lib/cron-auth'
+import { recordLiveForecasts, resolveLiveForecasts } from '@/lib/forecast-accuracy'
+
+// GET /api/jobs/forecast-accuracy
+// Scheduled job (hourly, after the rollups): score recorded forecasts whose
+// hour has passed, then record new forecasts to be scored later
+export async function GET(request: NextRequest) {
+  try {
+    if (!isAuthorizedCronRequest(request)) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const config = checkSupabaseConfig()
+    if (!config.isConfigured) {
+      return NextResponse.json(
+        { error: 'Supabase not configured' },
+        { status: 503 }
+      )
+    }
+
+    const supabaseAdmin = getSupabaseAdminClient()
+    const resolved = await resolveLiveForecasts(supabaseAdmin)
+    const recorded = await recordLiveForecasts(supabaseAdmin)
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        resolved_forecasts: resolved,
+        recorded_forecasts: recorded
+      }
+    })
+
+  } catch (error) {
+    console.error('Error tracking forecast accuracy:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseAdminClient, checkSupabaseConfig } from '@/lib/supabase'
+import { isAuthorizedCronRequest } from '@/lib/cron-auth'
+import { runOccupancyRollups } from '@/lib/occupancy-rollups'
+
+// GET /api/jobs/occupancy-rollups
+// Scheduled job (hourly): rebuild recent hourly/daily occupancy rollups and
+// delete raw readings older than the retention window
+export async function GET(request: NextRequest) {
+  try {
+    if (!isAuthorizedCronRequest(request)) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const config = checkSupabaseConfig()
+    if (!config.isConfigured) {
+      return NextResponse.json(
+        { error: 'Supabase not configured' },
+        { status: 503 }
+      )
+    }
+
+    const supabaseAdmin = getSupabaseAdminClient()
+    const run = await runOccupancyRollups(supabaseAdmin)
+
+    return NextResponse.json({
+      success: true,
+      data: run
+    })
+
+  } catch (error) {
+    console.error('Error rolling up occupancy history:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
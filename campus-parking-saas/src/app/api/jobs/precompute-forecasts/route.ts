@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseAdminClient, checkSupabaseConfig } from '@/lib/supabase'
+import { isAuthorizedCronRequest } from '@/lib/cron-auth'
+import { storeForecasts } from '@/lib/forecast-store'
+
+// GET /api/jobs/precompute-forecasts
+// Scheduled job (every 30 minutes): forecast every lot and store the run for
+// the prediction endpoints to serve
+export async function GET(request: NextRequest) {
+  try {
+    if (!isAuthorizedCronRequest(request)) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const config = checkSupabaseConfig()
+    if (!config.isConfigured) {
+      return NextResponse.json(
+        { error: 'Supabase not configured' },
+        { status: 503 }
+      )
+    }
+
+    const supabaseAdmin = getSupabaseAdminClient()
+    const run = await storeForecasts(supabaseAdmin)
+
+    return NextResponse.json({
+      success: true,
+      data: run
+    })
+
+  } catch (error) {
+    console.error('Error precomputing forecasts:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
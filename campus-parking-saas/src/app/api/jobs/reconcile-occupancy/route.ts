@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseAdminClient, checkSupabaseConfig } from '@/lib/supabase'
+import { isAuthorizedCronRequest } from '@/lib/cron-auth'
+import { reconcileGateCounts } from '@/lib/gate-events'
+
+// GET /api/jobs/reconcile-occupancy
+// Scheduled job: re-anchor event-driven lot occupancy on the latest absolute count
+export async function GET(request: NextRequest) {
+  try {
+    if (!isAuthorizedCronRequest(request)) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const config = checkSupabaseConfig()
+    if (!config.isConfigured) {
+      return NextResponse.json(
+        { error: 'Supabase not configured' },
+        { status: 503 }
+      )
+    }
+
+    const supabaseAdmin = getSupabaseAdminClient()
+    const reconciliations = await reconcileGateCounts(supabaseAdmin)
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        reconciled_lots: reconciliations.length,
+        reconciliations
+      }
+    })
+
+  } catch (error) {
+    console.error('Error reconciling occupancy:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,154 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseAdminClient, checkSupabaseConfig } from '@/lib/supabase'
+import { getUserProfile } from '@/lib/clerk-auth-server'
+import { validateManualCount, recordManualCount, MAX_MANUAL_COUNT_HISTORY_DAYS } from '@/lib/manual-counts'
+
+// POST /api/occupancy/manual
+// Submit a headcount from an officer walk-through (admin only). Body:
+// {lot_id, zone_id?, occupancy_count, counted_at?, authoritative?, notes?}.
+// The count is stored next to the sensor value it differs from; authoritative
+// counts also replace the current occupancy.
+export async function POST(request: NextRequest) {
+  try {
+    const config = checkSupabaseConfig()
+    if (!config.isConfigured) {
+      return NextResponse.json(
+        { error: 'Supabase not configured' },
+        { status: 503 }
+      )
+    }
+
+    const profile = await getUserProfile()
+    if (!profile || profile.role !== 'admin') {
+      return NextResponse.json(
+        { error: 'Admin role required' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const validation = validateManualCount(body)
+    if (!validation.ok) {
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 }
+      )
+    }
+
+    const supabaseAdmin = getSupabaseAdminClient()
+    const result = await recordManualCount(supabaseAdmin, profile.id, validation.count)
+
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: result.count.applied
+        ? 'Manual count applied as current occupancy'
+        : 'Manual count recorded',
+      data: result.count
+    })
+
+  } catch (error) {
+    console.error('Error recording manual count:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// GET /api/occupancy/manual?lot_id=xxx&days=30
+// Recent manual counts with the sensor discrepancy, and per-lot accuracy
+// (admin only)
+export async function GET(request: NextRequest) {
+  try {
+    const config = checkSupabaseConfig()
+    if (!config.isConfigured) {
+      return NextResponse.json(
+        { error: 'Supabase not configured' },
+        { status: 503 }
+      )
+    }
+
+    const profile = await getUserProfile()
+    if (!profile || profile.role !== 'admin') {
+      return NextResponse.json(
+        { error: 'Admin role required' },
+        { status: 403 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const lot_id = searchParams.get('lot_id')
+    const days = parseInt(searchParams.get('days') || '30')
+
+    if (isNaN(days) || days < 1 || days > MAX_MANUAL_COUNT_HISTORY_DAYS) {
+      return NextResponse.json(
+        { error: `days must be between 1 and ${MAX_MANUAL_COUNT_HISTORY_DAYS}` },
+        { status: 400 }
+      )
+    }
+
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString()
+
+    const supabaseAdmin = getSupabaseAdminClient()
+    let query = supabaseAdmin
+      .from('manual_counts')
+      .select('*')
+      .gte('counted_at', since)
+      .order('counted_at', { ascending: false })
+      .limit(500)
+
+    if (lot_id) {
+      query = query.eq('lot_id', lot_id)
+    }
+
+    const { data: counts, error } = await query
+
+    if (error) {
+      throw error
+    }
+
+    // Mean absolute and mean signed discrepancy per lot: the signed mean shows
+    // whether a lot's sensors tend to over- or under-count
+    const byLot = new Map<string, number[]>()
+    counts?.forEach(count => {
+      const lotDiscrepancies = byLot.get(count.lot_id)
+      if (lotDiscrepancies) {
+        lotDiscrepancies.push(count.discrepancy)
+      } else {
+        byLot.set(count.lot_id, [count.discrepancy])
+      }
+    })
+    const accuracy = Array.from(byLot.entries()).map(([lot_id, discrepancies]) => ({
+      lot_id,
+      counts: discrepancies.length,
+      mean_absolute_discrepancy: Math.round(
+        discrepancies.reduce((sum, d) => sum + Math.abs(d), 0) / discrepancies.length * 10
+      ) / 10,
+      mean_discrepancy: Math.round(
+        discrepancies.reduce((sum, d) => sum + d, 0) / discrepancies.length * 10
+      ) / 10
+    }))
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        counts: counts || [],
+        accuracy
+      }
+    })
+
+  } catch (error) {
+    console.error('Error fetching manual counts:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
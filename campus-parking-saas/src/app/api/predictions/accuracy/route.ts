@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseAdminClient, checkSupabaseConfig } from '@/lib/supabase'
+import { getUserProfile } from '@/lib/clerk-auth-server'
+import { loadResolvedForecasts, summarizeForecastErrors } from '@/lib/forecast-accuracy'
+import { campusTimeZone } from '@/lib/campus-time'
+
+// GET /api/predictions/accuracy?days=14&lot_id=xxx
+// Accuracy of live forecasts against what actually happened: MAE, MAPE and
+// bias overall and by lot, hour and horizon, plus calibration and p10-p90
+// interval coverage (admin only)
+export async function GET(request: NextRequest) {
+  try {
+    const config = checkSupabaseConfig()
+    if (!config.isConfigured) {
+      return NextResponse.json(
+        { error: 'Supabase not configured' },
+        { status: 503 }
+      )
+    }
+
+    const profile = await getUserProfile()
+    if (!profile || profile.role !== 'admin') {
+      return NextResponse.json(
+        { error: 'Admin role required' },
+        { status: 403 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const lot_id = searchParams.get('lot_id')
+    const days = parseInt(searchParams.get('days') || '14')
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000)
+
+    const supabaseAdmin = getSupabaseAdminClient()
+    const records = await loadResolvedForecasts(supabaseAdmin, since, lot_id)
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        since: since.toISOString(),
+        timezone: campusTimeZone(), // of the by_hour keys
+        ...summarizeForecastErrors(records)
+      }
+    })
+
+  } catch (error) {
+    console.error('Error fetching forecast accuracy:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseAdminClient, checkSupabaseConfig } from '@/lib/supabase'
+import { forecastArrivals, MAX_ARRIVAL_HOURS, type ArrivalRequest } from '@/lib/arrival-forecast'
+
+// GET /api/predictions/arrival?at=ISO | ?lat=..&lng=..[&depart=ISO]
+//   [&min_free=1&lot_ids=a,b]
+// Each lot (or the listed ones) forecast for when the driver gets there: at
+// the given time, or at their ETA from lat/lng when leaving at `depart`
+// (default now). Includes the expected free spaces and the chance of at
+// least min_free free spaces on arrival.
+export async function GET(request: NextRequest) {
+  try {
+    const config = checkSupabaseConfig()
+    if (!config.isConfigured) {
+      return NextResponse.json(
+        { error: 'Supabase not configured' },
+        { status: 503 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const at = searchParams.get('at')
+    const lat = searchParams.get('lat')
+    const lng = searchParams.get('lng')
+    const depart = searchParams.get('depart')
+    const minFree = parseInt(searchParams.get('min_free') || '1')
+    const lotIdsParam = searchParams.get('lot_ids')
+    const lotIds = lotIdsParam ? lotIdsParam.split(',').map(id => id.trim()).filter(Boolean) : null
+
+    if (isNaN(minFree) || minFree < 1) {
+      return NextResponse.json(
+        { error: 'min_free must be a positive integer' },
+        { status: 400 }
+      )
+    }
+
+    const now = new Date()
+    let arrival: ArrivalRequest
+    if (lat !== null || lng !== null) {
+      const origin = { lat: parseFloat(lat || ''), lng: parseFloat(lng || '') }
+      if (isNaN(origin.lat) || isNaN(origin.lng) || Math.abs(origin.lat) > 90 || Math.abs(origin.lng) > 180) {
+        return NextResponse.json(
+          { error: 'lat and lng must both be valid coordinates' },
+          { status: 400 }
+        )
+      }
+      arrival = { origin, departing: depart ? new Date(depart) : now }
+    } else {
+      arrival = { at: at ? new Date(at) : now }
+    }
+
+    const start = 'at' in arrival ? arrival.at : arrival.departing
+    if (isNaN(start.getTime())) {
+      return NextResponse.json(
+        { error: 'Invalid at or depart time' },
+        { status: 400 }
+      )
+    }
+
+    // A few minutes' slack for client clocks
+    if (start.getTime() < now.getTime() - 5 * 60 * 1000 || start.getTime() > now.getTime() + MAX_ARRIVAL_HOURS * 60 * 60 * 1000) {
+      return NextResponse.json(
+        { error: `Arrival must be within the next ${MAX_ARRIVAL_HOURS} hours` },
+        { status: 400 }
+      )
+    }
+
+    const supabaseAdmin = getSupabaseAdminClient()
+    const lots = await forecastArrivals(supabaseAdmin, lotIds, arrival, minFree, now)
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        generated_at: now.toISOString(),
+        min_free_spaces: minFree,
+        lots
+      }
+    }, {
+      headers: {
+        'Cache-Control': 'public, s-maxage=60, stale-while-revalidate=300'
+      }
+    })
+
+  } catch (error) {
+    console.error('Error forecasting arrivals:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseAdminClient, checkSupabaseConfig } from '@/lib/supabase'
+import {
+  forecastTimes,
+  FORECAST_RESOLUTIONS,
+  MAX_FORECAST_HORIZON_HOURS,
+  type ForecastPoint
+} from '@/lib/forecasting'
+import { probabilityFree } from '@/lib/prediction-intervals'
+import { forecastCacheHeaders, servedForecasts } from '@/lib/forecast-store'
+import { campusTimeZone } from '@/lib/campus-time'
+import type { EventContribution } from '@/lib/campus-events'
+
+// Each event adding cars to a lot over the horizon, with the most it adds
+function peakEventContributions(points: ForecastPoint[]): EventContribution[] {
+  const peaks = new Map<string, EventContribution>()
+  points.forEach(point => point.events.forEach(contribution => {
+    const peak = peaks.get(contribution.event_id)
+    if (!peak || contribution.cars > peak.cars) {
+      peaks.set(contribution.event_id, contribution)
+    }
+  }))
+  return Array.from(peaks.values())
+}
+
+// GET /api/predictions/campus?horizon=24&resolution=15&lot_ids=a,b&min_free=1
+// Forecast every lot (or the listed ones) over the next `horizon` hours in
+// `resolution`-minute steps, as lots × time-slot matrices: predicted (p50),
+// p10 and p90 occupancy, and the chance that at least `min_free` spaces are
+// free. Served from the latest precomputed run when it covers the request,
+// otherwise all lots are forecast live from one load of their history. Slots
+// start on resolution boundaries, so responses can be cached briefly and
+// shared.
+export async function GET(request: NextRequest) {
+  try {
+    const config = checkSupabaseConfig()
+    if (!config.isConfigured) {
+      return NextResponse.json(
+        { error: 'Supabase not configured' },
+        { status: 503 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const horizon = parseFloat(searchParams.get('horizon') || '24')
+    const resolution = parseInt(searchParams.get('resolution') || '60')
+    const minFree = parseInt(searchParams.get('min_free') || '1')
+    const lotIdsParam = searchParams.get('lot_ids')
+    const lotIds = lotIdsParam ? lotIdsParam.split(',').map(id => id.trim()).filter(Boolean) : null
+
+    if (isNaN(horizon) || horizon <= 0 || horizon > MAX_FORECAST_HORIZON_HOURS) {
+      return NextResponse.json(
+        { error: `horizon must be between 0 and ${MAX_FORECAST_HORIZON_HOURS} hours` },
+        { status: 400 }
+      )
+    }
+
+    if (!FORECAST_RESOLUTIONS.includes(resolution)) {
+      return NextResponse.json(
+        { error: `resolution must be one of ${FORECAST_RESOLUTIONS.join(', ')} minutes` },
+        { status: 400 }
+      )
+    }
+
+    if (isNaN(minFree) || minFree < 1) {
+      return NextResponse.json(
+        { error: 'min_free must be a positive integer' },
+        { status: 400 }
+      )
+    }
+
+    const now = new Date()
+    const times = forecastTimes(now, horizon, resolution)
+
+    const supabaseAdmin = getSupabaseAdminClient()
+    const run = await servedForecasts(supabaseAdmin, lotIds, times, now)
+    const forecasts = run.forecasts
+
+    // Rows follow `lots`, columns follow `times`; a fallback forecast that
+    // skipped a slot leaves null there
+    const column = (forecast: typeof forecasts[number]) => {
+      const byTime = new Map(forecast.points.map(point => [point.time, point]))
+      return times.map(time => byTime.get(time.toISOString()) || null)
+    }
+    const columns = forecasts.map(column)
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        generated_at: run.generated_at,
+        model_version: run.model_version,
+        stored: run.stored,
+        horizon_hours: horizon,
+        resolution_minutes: resolution,
+        timezone: campusTimeZone(), // Slots start on resolution boundaries of this clock
+        min_free_spaces: minFree,
+        times: times.map(time => time.toISOString()),
+        lots: forecasts.map(forecast => ({
+          lot_id: forecast.lot_id,
+          lot_name: forecast.lot_name,
+          capacity: forecast.capacity,
+          model: forecast.model,
+          events: peakEventContributions(forecast.points)
+        })),
+        predicted_occupancy: columns.map(points => points.map(point => point?.predicted_occupancy ?? null)),
+        p10_occupancy: columns.map(points => points.map(point => point?.interval.p10 ?? null)),
+        p90_occupancy: columns.map(points => points.map(point => point?.interval.p90 ?? null)),
+        probability_free: columns.map((points, i) => points.map(point =>
+          point ? probabilityFree(point, forecasts[i].capacity, minFree) : null
+        )),
+        confidence: columns.map(points => points.map(point => point?.confidence ?? null))
+      }
+    }, {
+      headers: forecastCacheHeaders(run)
+    })
+
+  } catch (error) {
+    console.error('Error generating campus forecast:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
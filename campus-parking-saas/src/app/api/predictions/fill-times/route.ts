@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseAdminClient, checkSupabaseConfig } from '@/lib/supabase'
+import { forecastTimes } from '@/lib/forecasting'
+import { forecastCacheHeaders, servedForecasts } from '@/lib/forecast-store'
+import {
+  estimateFillTimes,
+  DEFAULT_FILL_HORIZON_HOURS,
+  FILL_RESOLUTION_MINUTES,
+  MAX_FILL_HORIZON_HOURS
+} from '@/lib/fill-times'
+
+// GET /api/predictions/fill-times?horizon=12&lot_ids=a,b
+// For every lot (or the listed ones): when it is expected to fill up over the
+// next `horizon` hours, and when a full lot is expected to have space again,
+// each with an earliest/latest range. Served from the latest precomputed run
+// when it covers the request, otherwise forecast live.
+export async function GET(request: NextRequest) {
+  try {
+    const config = checkSupabaseConfig()
+    if (!config.isConfigured) {
+      return NextResponse.json(
+        { error: 'Supabase not configured' },
+        { status: 503 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const horizon = parseFloat(searchParams.get('horizon') || String(DEFAULT_FILL_HORIZON_HOURS))
+    const lotIdsParam = searchParams.get('lot_ids')
+    const lotIds = lotIdsParam ? lotIdsParam.split(',').map(id => id.trim()).filter(Boolean) : null
+
+    if (isNaN(horizon) || horizon <= 0 || horizon > MAX_FILL_HORIZON_HOURS) {
+      return NextResponse.json(
+        { error: `horizon must be between 0 and ${MAX_FILL_HORIZON_HOURS} hours` },
+        { status: 400 }
+      )
+    }
+
+    const now = new Date()
+    const supabaseAdmin = getSupabaseAdminClient()
+    const run = await servedForecasts(supabaseAdmin, lotIds, forecastTimes(now, horizon, FILL_RESOLUTION_MINUTES), now)
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        generated_at: run.generated_at,
+        model_version: run.model_version,
+        stored: run.stored,
+        horizon_hours: horizon,
+        lots: run.forecasts.map(forecast => estimateFillTimes(forecast, now))
+      }
+    }, {
+      headers: forecastCacheHeaders(run)
+    })
+
+  } catch (error) {
+    console.error('Error estimating fill times:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
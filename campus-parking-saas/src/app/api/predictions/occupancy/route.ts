@@ -1,8 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { supabaseAdmin, checkSupabaseConfig } from '@/lib/supabase'
+import { getSupabaseAdminClient, checkSupabaseConfig } from '@/lib/supabase'
+import { forecastLots, forecastTimes, MAX_FORECAST_HORIZON_HOURS } from '@/lib/forecasting'
+import { probabilityFree } from '@/lib/prediction-intervals'
+import { forecastCacheHeaders, servedForecasts } from '@/lib/forecast-store'
+import { campusTimeZone } from '@/lib/campus-time'
 
 // POST /api/predictions/occupancy
-// Generate occupancy predictions for parking lots
+// Generate occupancy predictions for parking lots. Body: {lot_id,
+// prediction_time?, min_free?}, prediction_time being within the forecast
+// horizon; probability_free is the chance that at least min_free (default 1)
+// spaces are free then
 export async function POST(request: NextRequest) {
   try {
     const config = checkSupabaseConfig()
@@ -14,7 +21,7 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json()
-    const { lot_id, prediction_time } = body
+    const { lot_id, prediction_time, min_free = 1 } = body
 
     if (!lot_id) {
       return NextResponse.json(
@@ -23,45 +30,70 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const targetTime = prediction_time ? new Date(prediction_time) : new Date(Date.now() + 30 * 60 * 1000) // Default: 30 minutes from now
+    if (!Number.isInteger(min_free) || min_free < 1) {
+      return NextResponse.json(
+        { error: 'min_free must be a positive integer' },
+        { status: 400 }
+      )
+    }
 
-    // Call the Supabase function for prediction
-    const { data, error } = await supabaseAdmin.rpc('predict_occupancy', {
-      lot_id,
-      prediction_time: targetTime.toISOString()
-    })
+    const now = Date.now()
+    const targetTime = prediction_time ? new Date(prediction_time) : new Date(now + 30 * 60 * 1000) // Default: 30 minutes from now
 
-    if (error) {
-      throw error
+    if (isNaN(targetTime.getTime())) {
+      return NextResponse.json(
+        { error: 'Invalid prediction_time' },
+        { status: 400 }
+      )
     }
 
-    // Get lot information
-    const { data: lot, error: lotError } = await supabaseAdmin
-      .from('parking_lots')
-      .select('name, capacity')
-      .eq('id', lot_id)
-      .single()
+    // A minute's grace for client clocks running slightly behind
+    if (targetTime.getTime() < now - 60 * 1000) {
+      return NextResponse.json(
+        { error: 'prediction_time is in the past' },
+        { status: 400 }
+      )
+    }
 
-    if (lotError || !lot) {
+    if (targetTime.getTime() > now + MAX_FORECAST_HORIZON_HOURS * 60 * 60 * 1000) {
+      return NextResponse.json(
+        { error: `prediction_time must be within ${MAX_FORECAST_HORIZON_HOURS} hours` },
+        { status: 400 }
+      )
+    }
+
+    const supabaseAdmin = getSupabaseAdminClient()
+    const [forecast] = await forecastLots(supabaseAdmin, [lot_id], [targetTime])
+
+    if (!forecast) {
       return NextResponse.json(
         { error: 'Lot not found' },
         { status: 404 }
       )
     }
 
-    const prediction = data[0] || { predicted_occupancy: 0, confidence: 0.3 }
+    const point = forecast.points[0]
+    const prediction = point || { predicted_occupancy: 0, confidence: 0.3, interval: null, day_type: null, weather: null, components: null, events: [] }
 
     return NextResponse.json({
       success: true,
       data: {
         lot_id,
-        lot_name: lot.name,
-        capacity: lot.capacity,
+        lot_name: forecast.lot_name,
+        capacity: forecast.capacity,
         predicted_occupancy: prediction.predicted_occupancy,
-        predicted_availability: lot.capacity - prediction.predicted_occupancy,
+        predicted_availability: forecast.capacity - prediction.predicted_occupancy,
         confidence: prediction.confidence,
+        interval: prediction.interval,
+        min_free_spaces: min_free,
+        probability_free: point ? probabilityFree(point, forecast.capacity, min_free) : null,
         prediction_time: targetTime.toISOString(),
-        occupancy_rate: (prediction.predicted_occupancy / lot.capacity) * 100
+        day_type: prediction.day_type,
+        weather: prediction.weather,
+        occupancy_rate: (prediction.predicted_occupancy / forecast.capacity) * 100,
+        components: prediction.components,
+        events: prediction.events,
+        model: forecast.model
       }
     })
 
@@ -74,8 +106,10 @@ export async function POST(request: NextRequest) {
   }
 }
 
-// GET /api/predictions/occupancy?lot_id=xxx&hours=24
-// Get occupancy predictions for the next N hours
+// GET /api/predictions/occupancy?lot_id=xxx&hours=24&min_free=1
+// Get occupancy predictions for the next N hour boundaries, each with the
+// chance that at least min_free spaces are free. Served from the latest
+// precomputed run when it covers them.
 export async function GET(request: NextRequest) {
   try {
     const config = checkSupabaseConfig()
@@ -89,6 +123,7 @@ export async function GET(request: NextRequest) {
     const { searchParams } = new URL(request.url)
     const lot_id = searchParams.get('lot_id')
     const hours = parseInt(searchParams.get('hours') || '6')
+    const minFree = parseInt(searchParams.get('min_free') || '1')
 
     if (!lot_id) {
       return NextResponse.json(
@@ -97,62 +132,66 @@ export async function GET(request: NextRequest) {
       )
     }
 
-    // Get lot information
-    const { data: lot, error: lotError } = await supabaseAdmin
-      .from('parking_lots')
-      .select('name, capacity')
-      .eq('id', lot_id)
-      .single()
+    if (isNaN(hours) || hours < 1 || hours > MAX_FORECAST_HORIZON_HOURS) {
+      return NextResponse.json(
+        { error: `hours must be between 1 and ${MAX_FORECAST_HORIZON_HOURS}` },
+        { status: 400 }
+      )
+    }
 
-    if (lotError || !lot) {
+    if (isNaN(minFree) || minFree < 1) {
       return NextResponse.json(
-        { error: 'Lot not found' },
-        { status: 404 }
+        { error: 'min_free must be a positive integer' },
+        { status: 400 }
       )
     }
 
     // Generate predictions for each hour
-    const predictions = []
     const now = new Date()
+    const times = forecastTimes(now, hours, 60)
 
-    for (let i = 1; i <= hours; i++) {
-      const predictionTime = new Date(now.getTime() + i * 60 * 60 * 1000)
-      
-      try {
-        const { data, error } = await supabaseAdmin.rpc('predict_occupancy', {
-          lot_id,
-          prediction_time: predictionTime.toISOString()
-        })
-
-        if (error) {
-          console.error(`Prediction error for hour ${i}:`, error)
-          continue
-        }
-
-        const prediction = data[0] || { predicted_occupancy: 0, confidence: 0.3 }
-
-        predictions.push({
-          time: predictionTime.toISOString(),
-          hour_offset: i,
-          predicted_occupancy: prediction.predicted_occupancy,
-          predicted_availability: lot.capacity - prediction.predicted_occupancy,
-          confidence: prediction.confidence,
-          occupancy_rate: (prediction.predicted_occupancy / lot.capacity) * 100
-        })
-      } catch (err) {
-        console.error(`Error predicting for hour ${i}:`, err)
-      }
+    const supabaseAdmin = getSupabaseAdminClient()
+    const run = await servedForecasts(supabaseAdmin, [lot_id], times, now)
+    const [forecast] = run.forecasts
+
+    if (!forecast) {
+      return NextResponse.json(
+        { error: 'Lot not found' },
+        { status: 404 }
+      )
     }
 
+    const predictions = forecast.points.map(point => ({
+      time: point.time,
+      hour_offset: Math.ceil((new Date(point.time).getTime() - now.getTime()) / (60 * 60 * 1000)),
+      day_type: point.day_type,
+      weather: point.weather,
+      predicted_occupancy: point.predicted_occupancy,
+      predicted_availability: forecast.capacity - point.predicted_occupancy,
+      confidence: point.confidence,
+      interval: point.interval,
+      probability_free: probabilityFree(point, forecast.capacity, minFree),
+      occupancy_rate: (point.predicted_occupancy / forecast.capacity) * 100,
+      components: point.components,
+      events: point.events
+    }))
+
     return NextResponse.json({
       success: true,
       data: {
         lot_id,
-        lot_name: lot.name,
-        capacity: lot.capacity,
+        lot_name: forecast.lot_name,
+        capacity: forecast.capacity,
+        min_free_spaces: minFree,
+        timezone: campusTimeZone(), // Predictions are on this clock's hour boundaries
         predictions,
-        generated_at: now.toISOString()
+        model: forecast.model,
+        model_version: run.model_version,
+        stored: run.stored,
+        generated_at: run.generated_at
       }
+    }, {
+      headers: forecastCacheHeaders(run)
     })
 
   } catch (error) {
@@ -163,34 +202,3 @@ export async function GET(request: NextRequest) {
     )
   }
 }
-
-// Simple fallback prediction algorithm when Supabase function isn't available
-function generateSimplePrediction(historicalData: any[], targetTime: Date, capacity: number) {
-  const hour = targetTime.getHours()
-  const dayOfWeek = targetTime.getDay()
-  
-  // Basic patterns based on typical campus schedules
-  let baseOccupancy = capacity * 0.3 // Default 30%
-  
-  // Peak hours (9 AM - 3 PM on weekdays)
-  if (dayOfWeek >= 1 && dayOfWeek <= 5 && hour >= 9 && hour <= 15) {
-    baseOccupancy = capacity * 0.8
-  }
-  // Evening hours (6 PM - 10 PM)
-  else if (hour >= 18 && hour <= 22) {
-    baseOccupancy = capacity * 0.6
-  }
-  // Weekend adjustments
-  else if (dayOfWeek === 0 || dayOfWeek === 6) {
-    baseOccupancy = capacity * 0.4
-  }
-  
-  // Add some randomness
-  const variation = (Math.random() - 0.5) * 0.2 * capacity
-  const predicted = Math.max(0, Math.min(capacity, Math.round(baseOccupancy + variation)))
-  
-  return {
-    predicted_occupancy: predicted,
-    confidence: 0.6
-  }
-}
\ No newline at end of file
@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseAdminClient, checkSupabaseConfig } from '@/lib/supabase'
+import { getUserProfile } from '@/lib/clerk-auth-server'
+import { forecastArrivals, MAX_ARRIVAL_HOURS, type ArrivalForecast } from '@/lib/arrival-forecast'
+import { loadRecommendationWeights, recommendLots } from '@/lib/recommendations'
+
+const DEFAULT_LIMIT = 3
+const MAX_LIMIT = 50
+
+// GET /api/recommendations?lat=..&lng=..[&at=ISO | &arrive=now]
+//   [&permit=student&lot_ids=a,b&limit=3&min_free=1]
+// The lots best suited to the driver, scored with the campus's weights, each
+// with the points every factor contributed. Lots are judged as forecast for
+// the driver's arrival: at their ETA from lat/lng by default, at `at`, or as
+// they are now with arrive=now. Permit and preferences come from the signed-in
+// driver's profile; `permit` overrides the permit.
+export async function GET(request: NextRequest) {
+  try {
+    const config = checkSupabaseConfig()
+    if (!config.isConfigured) {
+      return NextResponse.json(
+        { error: 'Supabase not configured' },
+        { status: 503 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const origin = {
+      lat: parseFloat(searchParams.get('lat') || ''),
+      lng: parseFloat(searchParams.get('lng') || '')
+    }
+    const at = searchParams.get('at')
+    const arriveNow = searchParams.get('arrive') === 'now'
+    const limit = parseInt(searchParams.get('limit') || String(DEFAULT_LIMIT))
+    const minFree = parseInt(searchParams.get('min_free') || '1')
+    const lotIdsParam = searchParams.get('lot_ids')
+    const lotIds = lotIdsParam ? lotIdsParam.split(',').map(id => id.trim()).filter(Boolean) : null
+
+    if (isNaN(origin.lat) || isNaN(origin.lng) || Math.abs(origin.lat) > 90 || Math.abs(origin.lng) > 180) {
+      return NextResponse.json(
+        { error: 'lat and lng must both be valid coordinates' },
+        { status: 400 }
+      )
+    }
+
+    if (isNaN(limit) || limit < 1 || limit > MAX_LIMIT) {
+      return NextResponse.json(
+        { error: `limit must be between 1 and ${MAX_LIMIT}` },
+        { status: 400 }
+      )
+    }
+
+    if (isNaN(minFree) || minFree < 1) {
+      return NextResponse.json(
+        { error: 'min_free must be a positive integer' },
+        { status: 400 }
+      )
+    }
+
+    const now = new Date()
+    const arriveAt = at ? new Date(at) : null
+    if (arriveAt && (
+      isNaN(arriveAt.getTime()) ||
+      arriveAt.getTime() < now.getTime() - 5 * 60 * 1000 ||
+      arriveAt.getTime() > now.getTime() + MAX_ARRIVAL_HOURS * 60 * 60 * 1000
+    )) {
+      return NextResponse.json(
+        { error: `at must be within the next ${MAX_ARRIVAL_HOURS} hours` },
+        { status: 400 }
+      )
+    }
+
+    const profile = await getUserProfile()
+    const permit = searchParams.get('permit') || profile?.permit_type || 'student'
+
+    const supabaseAdmin = getSupabaseAdminClient()
+    const { data: lots, error } = await supabaseAdmin
+      .from('parking_lots')
+      .select('id, name, capacity, current_occupancy, location, permit_restrictions, amenities')
+      .order('name')
+
+    if (error) {
+      throw error
+    }
+
+    const candidates = (lots || [])
+      .filter(lot => !lotIds || lotIds.includes(lot.id))
+      .map(lot => ({ ...lot, permit_restrictions: lot.permit_restrictions || [], amenities: lot.amenities || [] }))
+
+    const weights = await loadRecommendationWeights(supabaseAdmin)
+
+    let arrivals: Record<string, ArrivalForecast> = {}
+    if (!arriveNow && candidates.length > 0) {
+      const forecasts = await forecastArrivals(
+        supabaseAdmin,
+        candidates.map(lot => lot.id),
+        arriveAt ? { at: arriveAt } : { origin, departing: now },
+        minFree,
+        now
+      )
+      arrivals = Object.fromEntries(forecasts.map(arrival => [arrival.lot_id, arrival]))
+    }
+
+    const recommendations = recommendLots(
+      candidates,
+      origin,
+      permit,
+      profile?.preferences || {},
+      weights,
+      arrivals
+    ).slice(0, limit)
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        generated_at: now.toISOString(),
+        permit,
+        arrival: arriveNow ? 'now' : arriveAt ? 'at' : 'eta',
+        weights,
+        recommendations
+      }
+    })
+
+  } catch (error) {
+    console.error('Error generating recommendations:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseAdminClient, checkSupabaseConfig } from '@/lib/supabase'
+import { getUserProfile } from '@/lib/clerk-auth-server'
+import {
+  loadRecommendationWeights,
+  saveRecommendationWeights,
+  validateRecommendationWeights,
+  DEFAULT_RECOMMENDATION_WEIGHTS
+} from '@/lib/recommendations'
+
+// GET /api/recommendations/weights
+// The campus's recommendation weights, and the defaults
+export async function GET() {
+  try {
+    const config = checkSupabaseConfig()
+    if (!config.isConfigured) {
+      return NextResponse.json(
+        { error: 'Supabase not configured' },
+        { status: 503 }
+      )
+    }
+
+    const supabaseAdmin = getSupabaseAdminClient()
+    const weights = await loadRecommendationWeights(supabaseAdmin)
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        weights,
+        defaults: DEFAULT_RECOMMENDATION_WEIGHTS
+      }
+    })
+
+  } catch (error) {
+    console.error('Error fetching recommendation weights:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT /api/recommendations/weights
+// Change some or all of the weights (admin only). Body: {distance_points_per_100m?, ...};
+// weights left out keep their current value.
+export async function PUT(request: NextRequest) {
+  try {
+    const config = checkSupabaseConfig()
+    if (!config.isConfigured) {
+      return NextResponse.json(
+        { error: 'Supabase not configured' },
+        { status: 503 }
+      )
+    }
+
+    const profile = await getUserProfile()
+    if (!profile || profile.role !== 'admin') {
+      return NextResponse.json(
+        { error: 'Admin role required' },
+        { status: 403 }
+      )
+    }
+
+    const supabaseAdmin = getSupabaseAdminClient()
+    const current = await loadRecommendationWeights(supabaseAdmin)
+    const validation = validateRecommendationWeights(await request.json(), current)
+    if (!validation.ok) {
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 }
+      )
+    }
+
+    await saveRecommendationWeights(supabaseAdmin, validation.weights, profile.id)
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        weights: validation.weights,
+        defaults: DEFAULT_RECOMMENDATION_WEIGHTS
+      }
+    })
+
+  } catch (error) {
+    console.error('Error updating recommendation weights:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseAdminClient, checkSupabaseConfig } from '@/lib/supabase'
+import { verifySensorRequest, recordSensorAuthFailure, getRequestIp } from '@/lib/sensor-auth'
+import { isHeartbeatBody, recordHeartbeat } from '@/lib/sensor-health'
+
+// POST /api/sensors/heartbeat
+// Periodic liveness ping from sensor devices, sent even when occupancy hasn't
+// changed. Optional body: {battery_level, firmware_version}. Signed like
+// /api/sensors/occupancy.
+export async function POST(request: NextRequest) {
+  try {
+    const config = checkSupabaseConfig()
+    if (!config.isConfigured) {
+      return NextResponse.json(
+        { error: 'Supabase not configured' },
+        { status: 503 }
+      )
+    }
+
+    const supabaseAdmin = getSupabaseAdminClient()
+
+    const rawBody = await request.text()
+    const auth = await verifySensorRequest(supabaseAdmin, request.headers, rawBody)
+
+    if (!auth.ok) {
+      await recordSensorAuthFailure(supabaseAdmin, {
+        device_id: auth.deviceId,
+        lot_id: auth.lotId,
+        reason: auth.reason,
+        ip_address: getRequestIp(request.headers)
+      })
+      return NextResponse.json(
+        { error: 'Sensor authentication failed', reason: auth.reason },
+        { status: auth.status }
+      )
+    }
+
+    let body: unknown = {}
+    if (rawBody.trim()) {
+      try {
+        body = JSON.parse(rawBody)
+      } catch {
+        return NextResponse.json(
+          { error: 'Invalid JSON body' },
+          { status: 400 }
+        )
+      }
+    }
+
+    if (!isHeartbeatBody(body)) {
+      return NextResponse.json(
+        { error: 'Heartbeat body must be a JSON object' },
+        { status: 400 }
+      )
+    }
+
+    await recordHeartbeat(supabaseAdmin, auth.device.id, body, auth.device.last_seen_at!)
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        sensor_id: auth.device.id,
+        lot_id: auth.device.lot_id,
+        last_heartbeat_at: auth.device.last_seen_at
+      }
+    })
+
+  } catch (error) {
+    console.error('Error recording heartbeat:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,151 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseAdminClient, checkSupabaseConfig } from '@/lib/supabase'
+import { verifySensorRequest, recordSensorAuthFailure, getRequestIp } from '@/lib/sensor-auth'
+import {
+  MAX_BATCH_READINGS,
+  parseReadingsBody,
+  validateReading,
+  scopeReadingToDevice,
+  loadLotCapacities,
+  ingestReadings,
+  type OccupancyReading,
+  type ReadingResult
+} from '@/lib/occupancy-ingest'
+
+// POST /api/sensors/occupancy/batch
+// Endpoint for sensor gateways to flush buffered readings in one request.
+// Accepts a JSON array (or {"readings": [...]}) or NDJSON
+// (Content-Type: application/x-ndjson). Signed like /api/sensors/occupancy.
+export async function POST(request: NextRequest) {
+  try {
+    const config = checkSupabaseConfig()
+    if (!config.isConfigured) {
+      return NextResponse.json(
+        { error: 'Supabase not configured' },
+        { status: 503 }
+      )
+    }
+
+    const supabaseAdmin = getSupabaseAdminClient()
+    const ip_address = getRequestIp(request.headers)
+
+    const rawBody = await request.text()
+    const auth = await verifySensorRequest(supabaseAdmin, request.headers, rawBody)
+
+    if (!auth.ok) {
+      await recordSensorAuthFailure(supabaseAdmin, {
+        device_id: auth.deviceId,
+        lot_id: auth.lotId,
+        reason: auth.reason,
+        ip_address
+      })
+      return NextResponse.json(
+        { error: 'Sensor authentication failed', reason: auth.reason },
+        { status: auth.status }
+      )
+    }
+
+    let items: unknown[]
+    try {
+      items = parseReadingsBody(rawBody, request.headers.get('content-type'))
+    } catch {
+      return NextResponse.json(
+        { error: 'Body must be a JSON array of readings or NDJSON' },
+        { status: 400 }
+      )
+    }
+
+    if (items.length === 0) {
+      return NextResponse.json(
+        { error: 'No readings provided' },
+        { status: 400 }
+      )
+    }
+
+    if (items.length > MAX_BATCH_READINGS) {
+      return NextResponse.json(
+        { error: `Too many readings: maximum is ${MAX_BATCH_READINGS} per request` },
+        { status: 413 }
+      )
+    }
+
+    // Devices only report for their own lot, so that's the only capacity needed
+    const lots = await loadLotCapacities(supabaseAdmin, [auth.device.lot_id])
+
+    // Validate every reading independently so one bad item doesn't sink the batch
+    const results: ReadingResult[] = []
+    const accepted: OccupancyReading[] = []
+    let foreignLotReadings = 0
+
+    items.forEach((item, index) => {
+      const claimedLot = item && typeof item === 'object'
+        ? (item as Record<string, unknown>).lot_id
+        : undefined
+      const lot_id = typeof claimedLot === 'string' ? claimedLot : null
+
+      const scoped = scopeReadingToDevice(item, auth.device)
+      if (!scoped) {
+        foreignLotReadings++
+        results.push({ index, lot_id, status: 'rejected', action: 'rejected', error: 'Device is not registered for this lot or zone' })
+        return
+      }
+
+      const validation = validateReading(scoped, lots)
+      if (!validation.ok) {
+        results.push({ index, lot_id, status: 'rejected', action: 'rejected', error: validation.error })
+        return
+      }
+
+      accepted.push(validation.reading)
+      results.push({ index, lot_id, status: 'accepted', action: 'applied' })
+    })
+
+    if (foreignLotReadings > 0) {
+      await recordSensorAuthFailure(supabaseAdmin, {
+        device_id: auth.device.id,
+        lot_id: auth.device.lot_id,
+        reason: 'lot_mismatch',
+        ip_address
+      })
+    }
+
+    const outcomes = await ingestReadings(supabaseAdmin, accepted, lots)
+
+    // Outcomes come back in the order readings were accepted
+    const acceptedResults = results.filter(result => result.status === 'accepted')
+    outcomes.forEach((outcome, i) => {
+      acceptedResults[i].action = outcome.action
+      if (outcome.anomaly) {
+        acceptedResults[i].anomaly_reasons = outcome.anomaly.reasons
+      }
+    })
+
+    const applied = outcomes.filter(outcome => outcome.action === 'applied')
+
+    return NextResponse.json({
+      success: true,
+      message: `Accepted ${accepted.length} of ${items.length} readings`,
+      data: {
+        sensor_id: auth.device.id,
+        accepted: accepted.length,
+        rejected: items.length - accepted.length,
+        history_only: outcomes.filter(outcome => outcome.action === 'history_only').length,
+        quarantined: outcomes.filter(outcome => outcome.action === 'quarantined').length,
+        lots: applied.map(({ reading }) => ({
+          lot_id: reading.lot_id,
+          zone_id: reading.zone_id,
+          current_occupancy: reading.occupancy_count,
+          as_of: reading.timestamp
+        })),
+        results
+      }
+    })
+
+  } catch (error) {
+    console.error('Error ingesting occupancy batch:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
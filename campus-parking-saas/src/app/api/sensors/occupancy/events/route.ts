@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseAdminClient, checkSupabaseConfig } from '@/lib/supabase'
+import { verifySensorRequest, recordSensorAuthFailure, getRequestIp } from '@/lib/sensor-auth'
+import { MAX_BATCH_READINGS } from '@/lib/occupancy-ingest'
+import { validateGateEvent, applyGateEvents, type GateEvent } from '@/lib/gate-events'
+
+// POST /api/sensors/occupancy/events
+// Endpoint for gate counters that report "car in" / "car out" events instead
+// of absolute counts. Body is either a single event
+// {lot_id, direction, count?, timestamp?, event_id?} or {lot_id, events: [...]}.
+// Events with an event_id already received from the device are skipped.
+// Signed like /api/sensors/occupancy.
+export async function POST(request: NextRequest) {
+  try {
+    const config = checkSupabaseConfig()
+    if (!config.isConfigured) {
+      return NextResponse.json(
+        { error: 'Supabase not configured' },
+        { status: 503 }
+      )
+    }
+
+    const supabaseAdmin = getSupabaseAdminClient()
+    const ip_address = getRequestIp(request.headers)
+
+    const rawBody = await request.text()
+    const auth = await verifySensorRequest(supabaseAdmin, request.headers, rawBody)
+
+    if (!auth.ok) {
+      await recordSensorAuthFailure(supabaseAdmin, {
+        device_id: auth.deviceId,
+        lot_id: auth.lotId,
+        reason: auth.reason,
+        ip_address
+      })
+      return NextResponse.json(
+        { error: 'Sensor authentication failed', reason: auth.reason },
+        { status: auth.status }
+      )
+    }
+
+    let body
+    try {
+      body = JSON.parse(rawBody)
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON body' },
+        { status: 400 }
+      )
+    }
+
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return NextResponse.json(
+        { error: 'Body must be a JSON object' },
+        { status: 400 }
+      )
+    }
+
+    const { lot_id } = body
+    const items: unknown[] = Array.isArray(body.events) ? body.events : [body]
+
+    if (!lot_id) {
+      return NextResponse.json(
+        { error: 'Missing required field: lot_id' },
+        { status: 400 }
+      )
+    }
+
+    if (lot_id !== auth.device.lot_id) {
+      await recordSensorAuthFailure(supabaseAdmin, {
+        device_id: auth.device.id,
+        lot_id: auth.device.lot_id,
+        reason: 'lot_mismatch',
+        ip_address
+      })
+      return NextResponse.json(
+        { error: 'Device is not registered for this lot' },
+        { status: 403 }
+      )
+    }
+
+    if (items.length === 0 || items.length > MAX_BATCH_READINGS) {
+      return NextResponse.json(
+        { error: `Between 1 and ${MAX_BATCH_READINGS} events are required` },
+        { status: 400 }
+      )
+    }
+
+    // Reject the whole request on any invalid event: deltas are not idempotent,
+    // so a device retrying a partially applied request would double count
+    const events: GateEvent[] = []
+    for (let index = 0; index < items.length; index++) {
+      const validation = validateGateEvent(items[index], lot_id, auth.device.zone_id)
+      if (!validation.ok) {
+        return NextResponse.json(
+          { error: `Event ${index}: ${validation.error}` },
+          { status: 400 }
+        )
+      }
+      events.push(validation.event)
+    }
+
+    const applied = await applyGateEvents(supabaseAdmin, auth.device.id, events)
+    const latest = applied[applied.length - 1]
+
+    return NextResponse.json({
+      success: true,
+      message: `Applied ${applied.length} gate events`,
+      data: {
+        lot_id,
+        zone_id: auth.device.zone_id,
+        sensor_id: auth.device.id,
+        events_applied: applied.length,
+        events_skipped: events.length - applied.length,
+        current_occupancy: latest ? latest.resulting_occupancy : null
+      }
+    })
+
+  } catch (error) {
+    console.error('Error applying gate events:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,8 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getSupabaseAdminClient, checkSupabaseConfig } from '@/lib/supabase'
+import { verifySensorRequest, recordSensorAuthFailure, getRequestIp } from '@/lib/sensor-auth'
+import { loadLotCapacities, validateReading, ingestReadings, scopeReadingToDevice } from '@/lib/occupancy-ingest'
+import { getLastDataAt, getDataFreshness } from '@/lib/sensor-health'
 
 // POST /api/sensors/occupancy
-// Endpoint for IoT sensors to report parking lot occupancy changes
+// Endpoint for IoT sensors to report parking lot occupancy changes.
+// Requests must be signed with the device's secret (see lib/sensor-auth).
 export async function POST(request: NextRequest) {
   try {
     const config = checkSupabaseConfig()
@@ -13,8 +17,44 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const body = await request.json()
-    const { lot_id, occupancy_count, sensor_id, timestamp } = body
+    const supabaseAdmin = getSupabaseAdminClient()
+    const ip_address = getRequestIp(request.headers)
+
+    // Signature covers the raw body, so read it before parsing
+    const rawBody = await request.text()
+    const auth = await verifySensorRequest(supabaseAdmin, request.headers, rawBody)
+
+    if (!auth.ok) {
+      await recordSensorAuthFailure(supabaseAdmin, {
+        device_id: auth.deviceId,
+        lot_id: auth.lotId,
+        reason: auth.reason,
+        ip_address
+      })
+      return NextResponse.json(
+        { error: 'Sensor authentication failed', reason: auth.reason },
+        { status: auth.status }
+      )
+    }
+
+    let body
+    try {
+      body = JSON.parse(rawBody)
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON body' },
+        { status: 400 }
+      )
+    }
+
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return NextResponse.json(
+        { error: 'Body must be a JSON object' },
+        { status: 400 }
+      )
+    }
+
+    const { lot_id, zone_id, occupancy_count, sensor_id, timestamp } = body
 
     // Validate required fields
     if (!lot_id || occupancy_count === undefined) {
@@ -24,65 +64,64 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Verify the lot exists
-    const supabaseAdmin = getSupabaseAdminClient()
-    const { data: lot, error: lotError } = await supabaseAdmin
-      .from('parking_lots')
-      .select('id, capacity')
-      .eq('id', lot_id)
-      .single()
+    // A device may only report for the lot (or zone) it is registered to
+    const scoped = scopeReadingToDevice({ lot_id, zone_id, occupancy_count, timestamp }, auth.device)
+    if (!scoped || (sensor_id && sensor_id !== auth.device.id)) {
+      await recordSensorAuthFailure(supabaseAdmin, {
+        device_id: auth.device.id,
+        lot_id: auth.device.lot_id,
+        reason: 'lot_mismatch',
+        ip_address
+      })
+      return NextResponse.json(
+        { error: 'Device is not registered for this lot' },
+        { status: 403 }
+      )
+    }
+
+    // Verify the lot exists and the reading fits its capacity
+    const lots = await loadLotCapacities(supabaseAdmin, [lot_id])
+    const lot = lots.get(lot_id)
 
-    if (lotError || !lot) {
+    if (!lot) {
       return NextResponse.json(
         { error: 'Invalid lot_id' },
         { status: 404 }
       )
     }
 
-    // Validate occupancy count doesn't exceed capacity
-    if (occupancy_count > lot.capacity) {
+    const validation = validateReading(scoped, lots)
+    if (!validation.ok) {
       return NextResponse.json(
-        { error: 'Occupancy count exceeds lot capacity' },
+        { error: validation.error, action: 'rejected' },
         { status: 400 }
       )
     }
 
-    // Update the parking lot's current occupancy
-    const { error: updateError } = await supabaseAdmin
-      .from('parking_lots')
-      .update({ 
-        current_occupancy: occupancy_count,
-        updated_at: new Date().toISOString()
-      })
-      .eq('id', lot_id)
-
-    if (updateError) {
-      throw updateError
-    }
-
-    // Record the occupancy history
-    const { error: historyError } = await supabaseAdmin
-      .from('occupancy_history')
-      .insert({
-        lot_id,
-        occupancy_count,
-        timestamp: timestamp || new Date().toISOString(),
-        source: 'sensor'
-      })
-
-    if (historyError) {
-      console.error('Error recording occupancy history:', historyError)
-      // Don't fail the request if history recording fails
-    }
+    // Record the occupancy history and, unless the reading is late or looks
+    // anomalous, update the lot's current occupancy
+    const [outcome] = await ingestReadings(supabaseAdmin, [validation.reading], lots)
+    const zone = validation.reading.zone_id ? lot.zones.get(validation.reading.zone_id) : undefined
+    const capacity = zone ? zone.capacity : lot.capacity
 
     return NextResponse.json({
       success: true,
-      message: 'Occupancy updated successfully',
+      message: outcome.action === 'applied'
+        ? 'Occupancy updated successfully'
+        : outcome.action === 'quarantined'
+        ? 'Reading quarantined for review'
+        : 'Late reading recorded in history only',
       data: {
         lot_id,
-        occupancy_count,
-        capacity: lot.capacity,
-        availability: lot.capacity - occupancy_count
+        zone_id: validation.reading.zone_id,
+        sensor_id: auth.device.id,
+        occupancy_count: outcome.reading.occupancy_count,
+        raw_occupancy_count: occupancy_count,
+        timestamp: outcome.reading.timestamp,
+        action: outcome.action,
+        anomaly: outcome.anomaly,
+        capacity,
+        availability: capacity - outcome.reading.occupancy_count
       }
     })
 
@@ -96,7 +135,7 @@ export async function POST(request: NextRequest) {
 }
 
 // GET /api/sensors/occupancy?lot_id=xxx
-// Get current occupancy for a specific lot
+// Get current occupancy for a specific lot and its zones, with how fresh the data is
 export async function GET(request: NextRequest) {
   try {
     const config = checkSupabaseConfig()
@@ -120,7 +159,7 @@ export async function GET(request: NextRequest) {
     const supabaseAdmin = getSupabaseAdminClient()
     const { data: lot, error } = await supabaseAdmin
       .from('parking_lots')
-      .select('id, name, capacity, current_occupancy, updated_at')
+      .select('id, name, capacity, current_occupancy, last_reading_at, last_event_at, updated_at')
       .eq('id', lot_id)
       .single()
 
@@ -131,6 +170,21 @@ export async function GET(request: NextRequest) {
       )
     }
 
+    const { data: zones, error: zonesError } = await supabaseAdmin
+      .from('lot_zones')
+      .select('id, parent_zone_id, name, zone_type, level_number, capacity, current_occupancy, permit_restrictions, last_reading_at')
+      .eq('lot_id', lot_id)
+      .order('level_number', { ascending: true, nullsFirst: false })
+      .order('name')
+
+    if (zonesError) {
+      throw zonesError
+    }
+
+    // Flag numbers that no sensor has confirmed recently
+    const lastDataAt = getLastDataAt(lot)
+    const freshness = getDataFreshness(lastDataAt)
+
     return NextResponse.json({
       success: true,
       data: {
@@ -139,7 +193,15 @@ export async function GET(request: NextRequest) {
         capacity: lot.capacity,
         current_occupancy: lot.current_occupancy,
         availability: lot.capacity - lot.current_occupancy,
-        last_updated: lot.updated_at
+        last_updated: lot.updated_at,
+        last_data_at: lastDataAt,
+        freshness,
+        is_stale: freshness !== 'live',
+        zones: (zones || []).map(zone => ({
+          ...zone,
+          availability: zone.capacity - zone.current_occupancy,
+          freshness: getDataFreshness(zone.last_reading_at)
+        }))
       }
     })
 
@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseAdminClient, checkSupabaseConfig } from '@/lib/supabase'
+import { getUserProfile } from '@/lib/clerk-auth-server'
+import { applyReading, recordLotRollups } from '@/lib/occupancy-ingest'
+import { rollupLateReadings } from '@/lib/occupancy-rollups'
+
+// POST /api/sensors/quarantine/:id
+// Admin review of a quarantined reading. Body: {action: 'accept' | 'discard'}.
+// Accepting writes the reading to occupancy_history and, if it is still the
+// newest reading for the lot (or zone), applies it to current_occupancy.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const config = checkSupabaseConfig()
+    if (!config.isConfigured) {
+      return NextResponse.json(
+        { error: 'Supabase not configured' },
+        { status: 503 }
+      )
+    }
+
+    const profile = await getUserProfile()
+    if (!profile || profile.role !== 'admin') {
+      return NextResponse.json(
+        { error: 'Admin role required' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const { action } = body
+
+    if (action !== 'accept' && action !== 'discard') {
+      return NextResponse.json(
+        { error: "action must be 'accept' or 'discard'" },
+        { status: 400 }
+      )
+    }
+
+    const supabaseAdmin = getSupabaseAdminClient()
+
+    // Claim the reading before acting on it: only the review that moves it
+    // out of 'pending' applies it, so concurrent accepts can't both apply
+    const status = action === 'accept' ? 'accepted' : 'discarded'
+    const { data: claimed, error: claimError } = await supabaseAdmin
+      .from('quarantined_readings')
+      .update({
+        status,
+        reviewed_by: profile.id,
+        reviewed_at: new Date().toISOString()
+      })
+      .eq('id', params.id)
+      .eq('status', 'pending')
+      .select('id, lot_id, zone_id, occupancy_count, raw_occupancy_count, timestamp')
+
+    if (claimError) {
+      throw claimError
+    }
+
+    const reviewed = claimed?.[0]
+    if (!reviewed) {
+      const { data: quarantined } = await supabaseAdmin
+        .from('quarantined_readings')
+        .select('status')
+        .eq('id', params.id)
+        .maybeSingle()
+
+      if (!quarantined) {
+        return NextResponse.json(
+          { error: 'Quarantined reading not found' },
+          { status: 404 }
+        )
+      }
+
+      return NextResponse.json(
+        { error: `Reading was already ${quarantined.status}` },
+        { status: 409 }
+      )
+    }
+
+    let applied = false
+    if (action === 'accept') {
+      const reading = {
+        lot_id: reviewed.lot_id,
+        zone_id: reviewed.zone_id,
+        occupancy_count: reviewed.occupancy_count,
+        raw_occupancy_count: reviewed.raw_occupancy_count ?? undefined,
+        timestamp: new Date(reviewed.timestamp).toISOString()
+      }
+
+      const { error: historyError } = await supabaseAdmin
+        .from('occupancy_history')
+        .insert({ ...reading, source: 'sensor' })
+
+      if (historyError) {
+        // Nothing was applied; leave the reading for another review
+        await supabaseAdmin
+          .from('quarantined_readings')
+          .update({ status: 'pending', reviewed_by: null, reviewed_at: null })
+          .eq('id', reviewed.id)
+        throw historyError
+      }
+
+      applied = await applyReading(supabaseAdmin, reading)
+      if (applied && reading.zone_id) {
+        await recordLotRollups(supabaseAdmin, [reading.lot_id], 'sensor', reading.timestamp)
+      }
+      await rollupLateReadings(supabaseAdmin, [reading.timestamp])
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        id: reviewed.id,
+        lot_id: reviewed.lot_id,
+        status,
+        applied_to_lot: applied
+      }
+    })
+
+  } catch (error) {
+    console.error('Error reviewing quarantined reading:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
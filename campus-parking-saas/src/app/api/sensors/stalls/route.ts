@@ -0,0 +1,195 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseAdminClient, checkSupabaseConfig } from '@/lib/supabase'
+import { verifySensorRequest, recordSensorAuthFailure, getRequestIp } from '@/lib/sensor-auth'
+import { MAX_BATCH_READINGS } from '@/lib/occupancy-ingest'
+import {
+  STALL_TYPES,
+  validateStallEvent,
+  loadStalls,
+  stallBelongsToDevice,
+  applyStallEvents,
+  type StallEvent,
+  type StallType
+} from '@/lib/stall-events'
+
+// POST /api/sensors/stalls
+// Endpoint for per-stall ground sensors. Body is either a single event
+// {stall_id, occupied, timestamp?} or {events: [...]}.
+// Signed like /api/sensors/occupancy.
+export async function POST(request: NextRequest) {
+  try {
+    const config = checkSupabaseConfig()
+    if (!config.isConfigured) {
+      return NextResponse.json(
+        { error: 'Supabase not configured' },
+        { status: 503 }
+      )
+    }
+
+    const supabaseAdmin = getSupabaseAdminClient()
+    const ip_address = getRequestIp(request.headers)
+
+    const rawBody = await request.text()
+    const auth = await verifySensorRequest(supabaseAdmin, request.headers, rawBody)
+
+    if (!auth.ok) {
+      await recordSensorAuthFailure(supabaseAdmin, {
+        device_id: auth.deviceId,
+        lot_id: auth.lotId,
+        reason: auth.reason,
+        ip_address
+      })
+      return NextResponse.json(
+        { error: 'Sensor authentication failed', reason: auth.reason },
+        { status: auth.status }
+      )
+    }
+
+    let body
+    try {
+      body = JSON.parse(rawBody)
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid JSON body' },
+        { status: 400 }
+      )
+    }
+
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      return NextResponse.json(
+        { error: 'Body must be a JSON object' },
+        { status: 400 }
+      )
+    }
+
+    const items: unknown[] = Array.isArray(body.events) ? body.events : [body]
+
+    if (items.length === 0 || items.length > MAX_BATCH_READINGS) {
+      return NextResponse.json(
+        { error: `Between 1 and ${MAX_BATCH_READINGS} events are required` },
+        { status: 400 }
+      )
+    }
+
+    const events: StallEvent[] = []
+    for (let index = 0; index < items.length; index++) {
+      const validation = validateStallEvent(items[index])
+      if (!validation.ok) {
+        return NextResponse.json(
+          { error: `Event ${index}: ${validation.error}` },
+          { status: 400 }
+        )
+      }
+      events.push(validation.event)
+    }
+
+    const stalls = await loadStalls(supabaseAdmin, events.map(event => event.stall_id))
+    const unknown = events.find(event => !stalls.has(event.stall_id))
+    if (unknown) {
+      return NextResponse.json(
+        { error: `Unknown stall_id: ${unknown.stall_id}` },
+        { status: 404 }
+      )
+    }
+
+    if (events.some(event => !stallBelongsToDevice(stalls.get(event.stall_id)!, auth.device))) {
+      await recordSensorAuthFailure(supabaseAdmin, {
+        device_id: auth.device.id,
+        lot_id: auth.device.lot_id,
+        reason: 'lot_mismatch',
+        ip_address
+      })
+      return NextResponse.json(
+        { error: 'Device is not registered for this stall' },
+        { status: 403 }
+      )
+    }
+
+    const results = await applyStallEvents(supabaseAdmin, auth.device.id, events, stalls)
+
+    return NextResponse.json({
+      success: true,
+      message: `Applied ${results.filter(result => result.applied).length} of ${results.length} stall events`,
+      data: {
+        sensor_id: auth.device.id,
+        results
+      }
+    })
+
+  } catch (error) {
+    console.error('Error applying stall events:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// GET /api/sensors/stalls?lot_id=xxx&stall_type=ev&available=true
+// List a lot's stalls, optionally only free ones of a given type, with free
+// counts per stall type
+export async function GET(request: NextRequest) {
+  try {
+    const config = checkSupabaseConfig()
+    if (!config.isConfigured) {
+      return NextResponse.json(
+        { error: 'Supabase not configured' },
+        { status: 503 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const lot_id = searchParams.get('lot_id')
+    const stall_type = searchParams.get('stall_type')
+    const available = searchParams.get('available') === 'true'
+
+    if (!lot_id) {
+      return NextResponse.json(
+        { error: 'Missing lot_id parameter' },
+        { status: 400 }
+      )
+    }
+
+    if (stall_type && !STALL_TYPES.includes(stall_type as StallType)) {
+      return NextResponse.json(
+        { error: `stall_type must be one of: ${STALL_TYPES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const supabaseAdmin = getSupabaseAdminClient()
+    const { data: stalls, error } = await supabaseAdmin
+      .from('parking_stalls')
+      .select('id, zone_id, stall_type, occupied, last_changed_at')
+      .eq('lot_id', lot_id)
+      .order('id')
+
+    if (error) {
+      throw error
+    }
+
+    const free_by_type = Object.fromEntries(STALL_TYPES.map(type => [
+      type,
+      (stalls || []).filter(stall => stall.stall_type === type && !stall.occupied).length
+    ]))
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        lot_id,
+        total: stalls?.length || 0,
+        free_by_type,
+        stalls: (stalls || []).filter(stall =>
+          (!stall_type || stall.stall_type === stall_type) && (!available || !stall.occupied)
+        )
+      }
+    })
+
+  } catch (error) {
+    console.error('Error fetching stalls:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
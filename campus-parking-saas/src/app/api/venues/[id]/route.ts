@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseAdminClient, checkSupabaseConfig } from '@/lib/supabase'
+import { getUserProfile } from '@/lib/clerk-auth-server'
+import { validateVenue } from '@/lib/campus-events'
+
+// PUT /api/venues/:id
+// Replace a venue (admin only). Body: {name, code?, location: {lat, lng}}
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const config = checkSupabaseConfig()
+    if (!config.isConfigured) {
+      return NextResponse.json(
+        { error: 'Supabase not configured' },
+        { status: 503 }
+      )
+    }
+
+    const profile = await getUserProfile()
+    if (!profile || profile.role !== 'admin') {
+      return NextResponse.json(
+        { error: 'Admin role required' },
+        { status: 403 }
+      )
+    }
+
+    const validation = validateVenue(await request.json())
+    if (!validation.ok) {
+      return NextResponse.json(
+        { error: validation.error },
+        { status: 400 }
+      )
+    }
+
+    const supabaseAdmin = getSupabaseAdminClient()
+    const { data: venue, error } = await supabaseAdmin
+      .from('campus_venues')
+      .update(validation.venue)
+      .eq('id', params.id)
+      .select('*')
+      .maybeSingle()
+
+    if (error) {
+      // The new name or code belongs to another venue
+      if (error.code === '23505') {
+        return NextResponse.json(
+          { error: 'A venue with that name or code already exists' },
+          { status: 409 }
+        )
+      }
+      throw error
+    }
+
+    if (!venue) {
+      return NextResponse.json(
+        { error: 'Venue not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: venue
+    })
+
+  } catch (error) {
+    console.error('Error updating venue:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/venues/:id
+// Remove a venue (admin only). Its events keep their location text and are
+// matched by name or code again, or spread over the campus if nothing matches.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const config = checkSupabaseConfig()
+    if (!config.isConfigured) {
+      return NextResponse.json(
+        { error: 'Supabase not configured' },
+        { status: 503 }
+      )
+    }
+
+    const profile = await getUserProfile()
+    if (!profile || profile.role !== 'admin') {
+      return NextResponse.json(
+        { error: 'Admin role required' },
+        { status: 403 }
+      )
+    }
+
+    const supabaseAdmin = getSupabaseAdminClient()
+    const { data: deleted, error } = await supabaseAdmin
+      .from('campus_venues')
+      .delete()
+      .eq('id', params.id)
+      .select('id')
+
+    if (error) {
+      throw error
+    }
+
+    if (!deleted || deleted.length === 0) {
+      return NextResponse.json(
+        { error: 'Venue not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Venue deleted'
+    })
+
+  } catch (error) {
+    console.error('Error deleting venue:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,155 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseAdminClient, checkSupabaseConfig } from '@/lib/supabase'
+import { getUserProfile } from '@/lib/clerk-auth-server'
+import { validateVenue, type CampusVenue } from '@/lib/campus-events'
+
+const MAX_IMPORT_VENUES = 500
+
+// GET /api/venues
+// The building catalog: venues campus events can take place at
+export async function GET() {
+  try {
+    const config = checkSupabaseConfig()
+    if (!config.isConfigured) {
+      return NextResponse.json(
+        { error: 'Supabase not configured' },
+        { status: 503 }
+      )
+    }
+
+    const supabaseAdmin = getSupabaseAdminClient()
+    const { data: venues, error } = await supabaseAdmin
+      .from('campus_venues')
+      .select('*')
+      .order('name')
+
+    if (error) {
+      throw error
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: venues || []
+    })
+
+  } catch (error) {
+    console.error('Error fetching venues:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/venues
+// Add venues to the building catalog (admin only). Body: a venue or an array
+// of venues, each {name, code?, location: {lat, lng}}. A venue with the name
+// of an existing one (or of an earlier one in the same request) replaces it.
+// Nothing is saved if any venue is invalid or two venues share a code.
+export async function POST(request: NextRequest) {
+  try {
+    const config = checkSupabaseConfig()
+    if (!config.isConfigured) {
+      return NextResponse.json(
+        { error: 'Supabase not configured' },
+        { status: 503 }
+      )
+    }
+
+    const profile = await getUserProfile()
+    if (!profile || profile.role !== 'admin') {
+      return NextResponse.json(
+        { error: 'Admin role required' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const items: unknown[] = Array.isArray(body) ? body : [body]
+
+    if (items.length === 0) {
+      return NextResponse.json(
+        { error: 'No venues provided' },
+        { status: 400 }
+      )
+    }
+
+    if (items.length > MAX_IMPORT_VENUES) {
+      return NextResponse.json(
+        { error: `Too many venues: maximum is ${MAX_IMPORT_VENUES} per request` },
+        { status: 413 }
+      )
+    }
+
+    const venues: Array<Omit<CampusVenue, 'id'>> = []
+    const errors: Array<{ index: number; error: string }> = []
+    items.forEach((item, index) => {
+      const validation = validateVenue(item)
+      if (validation.ok) {
+        venues.push(validation.venue)
+      } else {
+        errors.push({ index, error: validation.error })
+      }
+    })
+
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid venues', errors },
+        { status: 400 }
+      )
+    }
+
+    // One row per name, the last one given winning, as if they were sent one
+    // by one: a single upsert can't touch the same row twice
+    const byName = new Map(venues.map((venue, index) => [venue.name, { venue, index }]))
+
+    // Codes are unique too, and there is no telling which venue should keep one
+    const byCode = new Map<string, number[]>()
+    byName.forEach(({ venue, index }) => {
+      if (venue.code) {
+        byCode.set(venue.code, [...(byCode.get(venue.code) || []), index])
+      }
+    })
+    const codeErrors = Array.from(byCode.entries())
+      .filter(([, indexes]) => indexes.length > 1)
+      .flatMap(([code, indexes]) => indexes.map(index => ({ index, error: `code ${code} is used by more than one venue` })))
+      .sort((a, b) => a.index - b.index)
+
+    if (codeErrors.length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid venues', errors: codeErrors },
+        { status: 400 }
+      )
+    }
+
+    const supabaseAdmin = getSupabaseAdminClient()
+    const { data: saved, error } = await supabaseAdmin
+      .from('campus_venues')
+      .upsert(Array.from(byName.values()).map(({ venue }) => venue), { onConflict: 'name' })
+      .select('*')
+
+    if (error) {
+      // An existing venue of another name already has one of the codes
+      if (error.code === '23505') {
+        return NextResponse.json(
+          { error: 'A venue with that code already exists' },
+          { status: 409 }
+        )
+      }
+      throw error
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `Saved ${saved?.length || 0} venues`,
+      data: saved || []
+    })
+
+  } catch (error) {
+    console.error('Error saving venues:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSupabaseAdminClient, checkSupabaseConfig } from '@/lib/supabase'
+import { getUserProfile } from '@/lib/clerk-auth-server'
+import {
+  MAX_IMPORT_HOURS,
+  loadWeather,
+  parseWeatherImport,
+  saveWeather,
+  validateWeatherHour,
+  type WeatherHour
+} from '@/lib/weather'
+
+// GET /api/weather?from=2024-01-15T00:00:00Z&to=2024-01-18T00:00:00Z
+// Hourly weather observations and forecasts (default: the last 24 hours and
+// the next 72)
+export async function GET(request: NextRequest) {
+  try {
+    const config = checkSupabaseConfig()
+    if (!config.isConfigured) {
+      return NextResponse.json(
+        { error: 'Supabase not configured' },
+        { status: 503 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const now = Date.now()
+    const from = new Date(searchParams.get('from') || now - 24 * 60 * 60 * 1000)
+    const to = new Date(searchParams.get('to') || now + 72 * 60 * 60 * 1000)
+
+    if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+      return NextResponse.json(
+        { error: 'Invalid from or to' },
+        { status: 400 }
+      )
+    }
+
+    const supabaseAdmin = getSupabaseAdminClient()
+    const hours = await loadWeather(supabaseAdmin, from, to)
+
+    return NextResponse.json({
+      success: true,
+      data: hours
+    })
+
+  } catch (error) {
+    console.error('Error fetching weather:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/weather?source=campus-station
+// Load hourly weather (admin only): a JSON array, {"hours": [...]} or CSV with
+// a hour_start,condition,temperature_c,precipitation_mm,is_forecast header
+// (Content-Type: text/csv). Nothing is loaded if any hour is invalid; stored
+// hours are replaced, but forecasts never replace observations.
+export async function POST(request: NextRequest) {
+  try {
+    const config = checkSupabaseConfig()
+    if (!config.isConfigured) {
+      return NextResponse.json(
+        { error: 'Supabase not configured' },
+        { status: 503 }
+      )
+    }
+
+    const profile = await getUserProfile()
+    if (!profile || profile.role !== 'admin') {
+      return NextResponse.json(
+        { error: 'Admin role required' },
+        { status: 403 }
+      )
+    }
+
+    let items: unknown[]
+    try {
+      items = parseWeatherImport(await request.text(), request.headers.get('content-type'))
+    } catch {
+      return NextResponse.json(
+        { error: 'Body must be a JSON array of weather hours or CSV' },
+        { status: 400 }
+      )
+    }
+
+    if (items.length === 0) {
+      return NextResponse.json(
+        { error: 'No weather hours provided' },
+        { status: 400 }
+      )
+    }
+
+    if (items.length > MAX_IMPORT_HOURS) {
+      return NextResponse.json(
+        { error: `Too many hours: maximum is ${MAX_IMPORT_HOURS} per import` },
+        { status: 413 }
+      )
+    }
+
+    const hours: WeatherHour[] = []
+    const errors: Array<{ index: number; error: string }> = []
+    items.forEach((item, index) => {
+      const validation = validateWeatherHour(item)
+      if (validation.ok) {
+        hours.push(validation.hour)
+      } else {
+        errors.push({ index, error: validation.error })
+      }
+    })
+
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid weather hours', errors },
+        { status: 400 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const supabaseAdmin = getSupabaseAdminClient()
+    const { saved, skipped } = await saveWeather(supabaseAdmin, hours, searchParams.get('source') || 'api')
+
+    return NextResponse.json({
+      success: true,
+      message: `Saved ${saved} weather hours`,
+      data: { saved, skipped }
+    })
+
+  } catch (error) {
+    console.error('Error loading weather:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
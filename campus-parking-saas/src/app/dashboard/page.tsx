@@ -8,25 +8,50 @@ import { useRouter } from 'next/navigation'
 import { useUser, SignOutButton } from '@clerk/nextjs'
 import { getUserProfile, syncUserProfile } from '@/lib/clerk-auth-client'
 import { supabase } from '@/lib/supabase'
-import { getParkingRecommendation, getOccupancyStatus } from '@/lib/utils'
+import { getOccupancyStatus, formatTime } from '@/lib/utils'
+import { getFreshnessStatus, getLastDataAt } from '@/lib/sensor-health'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Input } from '@/components/ui/input'
 import type { Database } from '@/lib/supabase'
+import { DEFAULT_FILL_HORIZON_HOURS, type FillEstimate, type TimeEstimate } from '@/lib/fill-times'
+import { nextCampusTime } from '@/lib/campus-time'
+import type { ArrivalForecast } from '@/lib/arrival-forecast'
+import type { Recommendation, RecommendationFactor, ScoreContribution } from '@/lib/recommendations'
 
 type ParkingLot = Database['public']['Tables']['parking_lots']['Row']
+type LotZone = Database['public']['Tables']['lot_zones']['Row']
+type ParkingStall = Database['public']['Tables']['parking_stalls']['Row']
 type UserProfile = Database['public']['Tables']['users']['Row']
 
+const FACTOR_LABELS: Record<RecommendationFactor, string> = {
+  distance: 'Distance',
+  free_spaces: 'Free spaces',
+  low_occupancy: 'How empty',
+  full_on_arrival: 'Risk of being full',
+  covered: 'Covered',
+  ev_charging: 'EV charging',
+  accessible: 'Accessible'
+}
+
 export default function DriverDashboard() {
   const { user: clerkUser, isLoaded } = useUser()
   const [profile, setProfile] = useState<UserProfile | null>(null)
   const [parkingLots, setParkingLots] = useState<ParkingLot[]>([])
   const [filteredLots, setFilteredLots] = useState<ParkingLot[]>([])
+  const [lotZones, setLotZones] = useState<LotZone[]>([])
+  const [freeStalls, setFreeStalls] = useState<ParkingStall[]>([])
+  const [fillEstimates, setFillEstimates] = useState<Record<string, FillEstimate>>({})
+  const [spaceChances, setSpaceChances] = useState<Record<string, { time: string; probability: number }>>({})
   const [searchTerm, setSearchTerm] = useState('')
   const [selectedPermit, setSelectedPermit] = useState<string>('all')
   const [userLocation, setUserLocation] = useState<{ lat: number; lng: number } | null>(null)
   const [loading, setLoading] = useState(true)
-  const [recommendations, setRecommendations] = useState<any[]>([])
+  const [recommendations, setRecommendations] = useState<Array<ParkingLot & Recommendation>>([])
+  // Recommendations rank lots as forecast for the driver's arrival: at their
+  // ETA from where they are, at a time they pick, or (now) as they are
+  const [arrivalMode, setArrivalMode] = useState<'eta' | 'time' | 'now'>('eta')
+  const [arrivalClock, setArrivalClock] = useState('09:00')
   const router = useRouter()
 
   useEffect(() => {
@@ -45,17 +70,47 @@ export default function DriverDashboard() {
     filterLots()
   }, [parkingLots, searchTerm, selectedPermit, profile])
 
+  // Top 3 of the listed lots, scored by the server for the driver's permit
+  // and preferences
   useEffect(() => {
-    if (userLocation && filteredLots.length > 0 && profile) {
-      const recs = getParkingRecommendation(
-        filteredLots,
-        userLocation,
-        profile.permit_type || 'student',
-        profile.preferences
-      )
-      setRecommendations(recs.slice(0, 3)) // Top 3 recommendations
+    if (!userLocation || filteredLots.length === 0 || !profile) return
+
+    const params = new URLSearchParams({
+      lat: String(userLocation.lat),
+      lng: String(userLocation.lng),
+      lot_ids: filteredLots.map(lot => lot.id).join(','),
+      limit: '3'
+    })
+    if (arrivalMode === 'now') {
+      params.set('arrive', 'now')
+    } else if (arrivalMode === 'time') {
+      const at = nextCampusTime(arrivalClock)
+      if (!at) return
+      params.set('at', at.toISOString())
+    }
+
+    // A response to superseded options is dropped
+    let current = true
+    const fetchRecommendations = async () => {
+      try {
+        const response = await fetch(`/api/recommendations?${params}`)
+        if (response.ok && current) {
+          const { data } = await response.json()
+          setRecommendations(data.recommendations.flatMap((recommendation: Recommendation) => {
+            const lot = filteredLots.find(candidate => candidate.id === recommendation.lot_id)
+            return lot ? [{ ...lot, ...recommendation }] : []
+          }))
+        }
+      } catch (error) {
+        console.error('Error fetching recommendations:', error)
+      }
+    }
+
+    fetchRecommendations()
+    return () => {
+      current = false
     }
-  }, [filteredLots, userLocation, profile])
+  }, [filteredLots, userLocation, profile, arrivalMode, arrivalClock])
 
   const checkUser = async () => {
     try {
@@ -83,11 +138,178 @@ export default function DriverDashboard() {
 
       if (error) throw error
       setParkingLots(data || [])
+
+      const { data: zones, error: zonesError } = await supabase
+        .from('lot_zones')
+        .select('*')
+        .order('level_number')
+        .order('name')
+
+      if (zonesError) throw zonesError
+      setLotZones(zones || [])
+
+      // Only accessible and EV stalls are listed individually
+      const { data: stalls, error: stallsError } = await supabase
+        .from('parking_stalls')
+        .select('*')
+        .eq('occupied', false)
+        .in('stall_type', ['ada', 'ev'])
+        .order('id')
+
+      if (stallsError) throw stallsError
+      setFreeStalls(stalls || [])
+
+      // When lots are expected to fill up or have space again
+      const fillResponse = await fetch('/api/predictions/fill-times')
+      if (fillResponse.ok) {
+        const { data } = await fillResponse.json()
+        setFillEstimates(Object.fromEntries(data.lots.map((estimate: FillEstimate) => [estimate.lot_id, estimate])))
+      }
+
+      // Chance of finding a space by the time a driver leaving now gets
+      // there: the first half-hour slot at least 15 minutes out
+      const chanceResponse = await fetch('/api/predictions/campus?horizon=1&resolution=30')
+      if (chanceResponse.ok) {
+        const { data } = await chanceResponse.json()
+        const slot = data.times.findIndex((time: string) => new Date(time).getTime() >= Date.now() + 15 * 60 * 1000)
+        if (slot >= 0) {
+          setSpaceChances(Object.fromEntries(data.lots.flatMap((lot: { lot_id: string }, i: number) => {
+            const probability = data.probability_free[i][slot]
+            return probability === null ? [] : [[lot.lot_id, { time: data.times[slot], probability }]]
+          })))
+        }
+      }
     } catch (error) {
       console.error('Error fetching parking lots:', error)
     }
   }
 
+  // Levels of a multi-level lot, plus any reserved areas within them
+  const renderZones = (lotId: string) => {
+    const zones = lotZones.filter(zone =>
+      zone.lot_id === lotId && (zone.parent_zone_id === null || zone.zone_type === 'reserved')
+    )
+    if (zones.length === 0) return null
+
+    return (
+      <div className="mb-4 space-y-1">
+        {zones.map(zone => {
+          const available = zone.capacity - zone.current_occupancy
+          const reservedForOthers = zone.permit_restrictions.length > 0 &&
+            !zone.permit_restrictions.includes(profile?.permit_type || 'student')
+          return (
+            <div
+              key={zone.id}
+              className={`flex justify-between text-sm ${zone.parent_zone_id ? 'pl-4 text-gray-500' : 'text-gray-700'}`}
+            >
+              <span>
+                {zone.name}
+                {zone.permit_restrictions.length > 0 && (
+                  <span className="ml-2 px-1 bg-blue-100 text-blue-700 text-xs rounded">
+                    {zone.permit_restrictions.join(', ')}
+                  </span>
+                )}
+              </span>
+              <span className={reservedForOthers ? 'text-gray-400' : available > 0 ? 'font-medium' : 'text-red-600'}>
+                {available > 0 ? `${available} spaces` : 'Full'}
+              </span>
+            </div>
+          )
+        })}
+      </div>
+    )
+  }
+
+  const renderFreeStalls = (lotId: string) => {
+    const groups = [
+      { label: 'Accessible', stalls: freeStalls.filter(stall => stall.lot_id === lotId && stall.stall_type === 'ada') },
+      { label: 'EV charging', stalls: freeStalls.filter(stall => stall.lot_id === lotId && stall.stall_type === 'ev') }
+    ].filter(group => group.stalls.length > 0)
+    if (groups.length === 0) return null
+
+    return (
+      <div className="mb-4 space-y-1">
+        {groups.map(group => (
+          <div key={group.label} className="text-sm text-gray-700">
+            <span className="text-gray-600">Free {group.label.toLowerCase()} stalls: </span>
+            {group.stalls.slice(0, 6).map(stall => stall.id).join(', ')}
+            {group.stalls.length > 6 && ` +${group.stalls.length - 6} more`}
+          </div>
+        ))}
+      </div>
+    )
+  }
+
+  const formatEstimate = (estimate: TimeEstimate, unlikely: string) =>
+    `around ${formatTime(estimate.expected)} (${formatTime(estimate.earliest)} – ${
+      estimate.latest ? formatTime(estimate.latest) : unlikely
+    })`
+
+  // When a lot heading for full is expected to fill, or a full one to have space
+  const renderFillBadge = (lotId: string) => {
+    const estimate = fillEstimates[lotId]
+    if (!estimate || (!estimate.full_now && !estimate.fills_at)) return null
+
+    return (
+      <div className={`mb-4 px-2 py-1 rounded text-xs ${
+        estimate.full_now ? 'bg-red-50 text-red-700' : 'bg-yellow-50 text-yellow-800'
+      }`}>
+        {estimate.full_now
+          ? estimate.opens_at
+            ? `Full · space expected ${formatEstimate(estimate.opens_at, 'may stay full')}`
+            : `Full · no space expected in the next ${DEFAULT_FILL_HORIZON_HOURS} hours`
+          : `Expected to fill ${formatEstimate(estimate.fills_at!, 'may not fill')}`}
+      </div>
+    )
+  }
+
+  // What a recommended lot is expected to look like when the driver gets there
+  const renderArrival = (arrival: ArrivalForecast | null) => {
+    if (!arrival) return null
+
+    return (
+      <div className={`mb-4 px-2 py-1 rounded text-xs ${
+        arrival.probability_free < 0.5 ? 'bg-red-50 text-red-700' : 'bg-blue-50 text-blue-800'
+      }`}>
+        Arriving {formatTime(arrival.arrival_time)}
+        {arrival.travel_minutes !== null && ` (${arrival.travel_minutes} min drive)`}:
+        {' '}~{arrival.expected_free_spaces} free, {Math.round(arrival.probability_free * 100)}% chance of a space
+      </div>
+    )
+  }
+
+  // The points each factor added to (or took off) a recommended lot's score
+  const renderWhyThisLot = (breakdown: ScoreContribution[], score: number) => (
+    <details className="mb-4 text-xs text-gray-700">
+      <summary className="cursor-pointer text-blue-700">Why this lot</summary>
+      <div className="mt-2 space-y-1">
+        {breakdown.map(contribution => (
+          <div key={contribution.factor} className="flex justify-between">
+            <span>{FACTOR_LABELS[contribution.factor]}: {contribution.detail}</span>
+            <span className={contribution.points < 0 ? 'text-red-600' : 'text-green-700'}>
+              {contribution.points > 0 ? '+' : ''}{contribution.points}
+            </span>
+          </div>
+        ))}
+        <div className="flex justify-between border-t pt-1 font-medium">
+          <span>Score</span>
+          <span>{score}</span>
+        </div>
+      </div>
+    </details>
+  )
+
+  const renderSpaceChance = (lotId: string) => {
+    const chance = spaceChances[lotId]
+    if (!chance) return null
+
+    return (
+      <div className="mb-4 text-xs text-gray-600">
+        {Math.round(chance.probability * 100)}% chance of a space at {formatTime(chance.time)}
+      </div>
+    )
+  }
+
   const getUserLocation = () => {
     if (navigator.geolocation) {
       navigator.geolocation.getCurrentPosition(
@@ -187,10 +409,33 @@ export default function DriverDashboard() {
         {/* Recommendations Section */}
         {recommendations.length > 0 && (
           <div className="mb-8">
-            <h2 className="text-2xl font-bold text-gray-900 mb-4">Recommended for You</h2>
+            <div className="flex flex-wrap justify-between items-center gap-4 mb-4">
+              <h2 className="text-2xl font-bold text-gray-900">Recommended for You</h2>
+              <div className="flex items-center gap-2 text-sm">
+                <span className="text-gray-600">Arriving</span>
+                <select
+                  value={arrivalMode}
+                  onChange={(e) => setArrivalMode(e.target.value as 'eta' | 'time' | 'now')}
+                  className="flex h-10 rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+                >
+                  <option value="eta">From my location</option>
+                  <option value="time">At a time</option>
+                  <option value="now">Now</option>
+                </select>
+                {arrivalMode === 'time' && (
+                  <Input
+                    type="time"
+                    value={arrivalClock}
+                    onChange={(e) => setArrivalClock(e.target.value)}
+                    className="w-32"
+                  />
+                )}
+              </div>
+            </div>
             <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
               {recommendations.map((lot, index) => {
                 const status = getOccupancyStatus(lot.current_occupancy, lot.capacity)
+                const freshness = getFreshnessStatus(getLastDataAt(lot))
                 return (
                   <Card key={lot.id} className="border-2 border-blue-200">
                     <CardHeader>
@@ -205,7 +450,9 @@ export default function DriverDashboard() {
                             )}
                           </CardTitle>
                           <CardDescription>
-                            {Math.round(lot.distance)}m away • {lot.availableSpots} spots available
+                            {lot.distance}m away • {lot.arrival
+                              ? `~${lot.available_spaces} spots free on arrival`
+                              : `${lot.available_spaces} spots available`}
                           </CardDescription>
                         </div>
                         <div className={`px-2 py-1 rounded-full text-xs ${status.bgColor} ${status.color}`}>
@@ -216,12 +463,21 @@ export default function DriverDashboard() {
                     <CardContent>
                       <div className="flex justify-between items-center mb-4">
                         <div className="text-2xl font-bold">
-                          {lot.availableSpots}/{lot.capacity}
+                          {lot.capacity - lot.current_occupancy}/{lot.capacity}
                         </div>
                         <div className="text-sm text-gray-600">
                           {Math.round((lot.current_occupancy / lot.capacity) * 100)}% full
                         </div>
                       </div>
+                      {freshness.freshness !== 'live' && (
+                        <div className={`mb-4 px-2 py-1 rounded text-xs ${freshness.bgColor} ${freshness.color}`}>
+                          {freshness.label}: availability may be out of date
+                        </div>
+                      )}
+                      {renderArrival(lot.arrival)}
+                      {renderFillBadge(lot.id)}
+                      {!lot.arrival && renderSpaceChance(lot.id)}
+                      {renderWhyThisLot(lot.breakdown, lot.score)}
                       <div className="w-full bg-gray-200 rounded-full h-2 mb-4">
                         <div
                           className={`h-2 rounded-full ${
@@ -234,6 +490,8 @@ export default function DriverDashboard() {
                           style={{ width: `${(lot.current_occupancy / lot.capacity) * 100}%` }}
                         ></div>
                       </div>
+                      {renderZones(lot.id)}
+                      {renderFreeStalls(lot.id)}
                       {lot.amenities.length > 0 && (
                         <div className="mb-4">
                           <p className="text-sm text-gray-600 mb-1">Amenities:</p>
@@ -293,6 +551,7 @@ export default function DriverDashboard() {
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
             {filteredLots.map((lot) => {
               const status = getOccupancyStatus(lot.current_occupancy, lot.capacity)
+              const freshness = getFreshnessStatus(getLastDataAt(lot))
               const availableSpots = lot.capacity - lot.current_occupancy
               
               return (
@@ -319,6 +578,13 @@ export default function DriverDashboard() {
                         {Math.round((lot.current_occupancy / lot.capacity) * 100)}% full
                       </div>
                     </div>
+                    {freshness.freshness !== 'live' && (
+                      <div className={`mb-4 px-2 py-1 rounded text-xs ${freshness.bgColor} ${freshness.color}`}>
+                        {freshness.label}: availability may be out of date
+                      </div>
+                    )}
+                    {renderFillBadge(lot.id)}
+                    {renderSpaceChance(lot.id)}
                     <div className="w-full bg-gray-200 rounded-full h-2 mb-4">
                       <div
                         className={`h-2 rounded-full ${
@@ -331,6 +597,9 @@ export default function DriverDashboard() {
                         style={{ width: `${(lot.current_occupancy / lot.capacity) * 100}%` }}
                       ></div>
                     </div>
+
+                    {renderZones(lot.id)}
+                    {renderFreeStalls(lot.id)}
                     
                     {lot.permit_restrictions.length > 0 && (
                       <div className="mb-4">
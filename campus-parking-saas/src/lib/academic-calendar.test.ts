@@ -0,0 +1,111 @@
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { createDayTypeLookup, parseCalendarImport, validateCalendarPeriod } from './academic-calendar'
+
+// Calendar dates follow the campus clock; pin it so the lookups below don't
+// depend on the environment
+process.env.NEXT_PUBLIC_CAMPUS_TIMEZONE = 'UTC'
+
+const period = {
+  name: 'Fall term',
+  day_type: 'term',
+  start_date: '2026-08-24',
+  end_date: '2026-12-11'
+}
+
+describe('validateCalendarPeriod', () => {
+  test('accepts a period and trims its name', () => {
+    const validation = validateCalendarPeriod({ ...period, name: '  Fall term ' })
+
+    assert.deepEqual(validation, { ok: true, period })
+  })
+
+  test('accepts a one-day period', () => {
+    const validation = validateCalendarPeriod({ ...period, end_date: period.start_date })
+
+    assert.equal(validation.ok, true)
+  })
+
+  test('rejects dates that do not exist', () => {
+    assert.equal(validateCalendarPeriod({ ...period, start_date: '2024-02-30' }).ok, false)
+    assert.equal(validateCalendarPeriod({ ...period, end_date: '2026-04-31' }).ok, false)
+    assert.equal(validateCalendarPeriod({ ...period, start_date: '2026-13-01' }).ok, false)
+  })
+
+  test('accepts leap days only in leap years', () => {
+    assert.equal(validateCalendarPeriod({ ...period, start_date: '2024-02-29', end_date: '2024-03-01' }).ok, true)
+    assert.equal(validateCalendarPeriod({ ...period, start_date: '2026-02-29', end_date: '2026-03-01' }).ok, false)
+  })
+
+  test('rejects dates in other formats', () => {
+    assert.equal(validateCalendarPeriod({ ...period, start_date: '2026-8-24' }).ok, false)
+    assert.equal(validateCalendarPeriod({ ...period, start_date: '08/24/2026' }).ok, false)
+  })
+
+  test('rejects a period that ends before it starts', () => {
+    const validation = validateCalendarPeriod({ ...period, end_date: '2026-08-23' })
+
+    assert.deepEqual(validation, { ok: false, error: 'end_date is before start_date' })
+  })
+
+  test('rejects day types that are not lowercase identifiers', () => {
+    assert.equal(validateCalendarPeriod({ ...period, day_type: 'Spring Break' }).ok, false)
+    assert.equal(validateCalendarPeriod({ ...period, day_type: '1st_week' }).ok, false)
+  })
+
+  test('requires a name', () => {
+    assert.equal(validateCalendarPeriod({ ...period, name: ' ' }).ok, false)
+    assert.equal(validateCalendarPeriod(null).ok, false)
+  })
+})
+
+describe('parseCalendarImport', () => {
+  test('reads CSV rows by their header', () => {
+    const rows = parseCalendarImport(
+      'Name,Day_Type,Start_Date,End_Date\nFall term,term,2026-08-24,2026-12-11\n',
+      'text/csv'
+    )
+
+    assert.deepEqual(rows, [period])
+  })
+
+  test('keeps commas and quotes inside quoted CSV fields', () => {
+    const rows = parseCalendarImport(
+      'name,day_type,start_date,end_date\n"Break, spring ""week""",break,2027-03-08,2027-03-12',
+      'text/csv'
+    )
+
+    assert.deepEqual(rows, [{
+      name: 'Break, spring "week"',
+      day_type: 'break',
+      start_date: '2027-03-08',
+      end_date: '2027-03-12'
+    }])
+  })
+
+  test('rejects an unterminated quoted CSV field', () => {
+    assert.throws(() => parseCalendarImport(
+      'name,day_type,start_date,end_date\n"Fall term,term,2026-08-24,2026-12-11',
+      'text/csv'
+    ))
+  })
+
+  test('reads JSON arrays and {"periods": [...]}', () => {
+    assert.deepEqual(parseCalendarImport(JSON.stringify([period]), 'application/json'), [period])
+    assert.deepEqual(parseCalendarImport(JSON.stringify({ periods: [period] }), null), [period])
+    assert.throws(() => parseCalendarImport('{}', 'application/json'))
+  })
+})
+
+describe('createDayTypeLookup', () => {
+  test('takes the shortest period covering a date', () => {
+    const dayType = createDayTypeLookup([
+      period,
+      { name: 'Thanksgiving', day_type: 'holiday', start_date: '2026-11-26', end_date: '2026-11-27' }
+    ])
+
+    assert.equal(dayType(new Date('2026-11-26T12:00:00Z')), 'holiday')
+    assert.equal(dayType(new Date('2026-11-25T12:00:00Z')), 'term')
+    assert.equal(dayType(new Date('2026-12-12T12:00:00Z')), 'regular')
+  })
+})
@@ -0,0 +1,182 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { campusTime } from './campus-time'
+
+// The academic calendar: named periods (terms, breaks, holidays, exam weeks,
+// or any custom day type) covering date ranges. Every date gets one day type,
+// from the shortest period that covers it, so a holiday inside a term counts
+// as a holiday; dates no period covers are 'regular'. Forecasting builds a
+// profile per day type so it compares, say, finals week with past finals weeks.
+
+export const DEFAULT_DAY_TYPE = 'regular'
+
+// Offered in the admin UI; any lowercase identifier is accepted
+export const STANDARD_DAY_TYPES = ['term', 'first_week', 'exams', 'break', 'holiday']
+
+export const MAX_IMPORT_PERIODS = 500
+
+const DAY_TYPE_PATTERN = /^[a-z][a-z0-9_]{0,39}$/
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+export interface CalendarPeriodInput {
+  name: string
+  day_type: string
+  start_date: string // YYYY-MM-DD, inclusive
+  end_date: string // YYYY-MM-DD, inclusive
+}
+
+export interface CalendarPeriod extends CalendarPeriodInput {
+  id: string
+}
+
+export type CalendarPeriodValidation =
+  | { ok: true; period: CalendarPeriodInput }
+  | { ok: false; error: string }
+
+// The date must exist: Date rolls 2024-02-30 over into March, so it has to
+// come back out unchanged
+function isValidDate(value: string): boolean {
+  if (!DATE_PATTERN.test(value)) {
+    return false
+  }
+  const date = new Date(`${value}T00:00:00Z`)
+  return !isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value
+}
+
+export function validateCalendarPeriod(item: unknown): CalendarPeriodValidation {
+  if (!item || typeof item !== 'object') {
+    return { ok: false, error: 'Invalid period' }
+  }
+
+  const { name, day_type, start_date, end_date } = item as Record<string, unknown>
+
+  if (typeof name !== 'string' || !name.trim()) {
+    return { ok: false, error: 'name is required' }
+  }
+
+  if (typeof day_type !== 'string' || !DAY_TYPE_PATTERN.test(day_type)) {
+    return { ok: false, error: 'day_type must be a lowercase identifier, e.g. exams or spring_break' }
+  }
+
+  if (typeof start_date !== 'string' || !isValidDate(start_date)) {
+    return { ok: false, error: 'start_date must be a YYYY-MM-DD date' }
+  }
+
+  if (typeof end_date !== 'string' || !isValidDate(end_date)) {
+    return { ok: false, error: 'end_date must be a YYYY-MM-DD date' }
+  }
+
+  if (end_date < start_date) {
+    return { ok: false, error: 'end_date is before start_date' }
+  }
+
+  return {
+    ok: true,
+    period: { name: name.trim(), day_type, start_date, end_date }
+  }
+}
+
+// Split one CSV line into cells. Cells may be quoted to hold commas, with ""
+// for a literal quote; a quote left open is an error.
+function parseCsvLine(line: string): string[] {
+  const cells: string[] = []
+  let cell = ''
+  let quoted = false
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      cells.push(cell.trim())
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+
+  if (quoted) {
+    throw new Error('Unterminated quoted CSV field')
+  }
+  cells.push(cell.trim())
+  return cells
+}
+
+// Parse an import body: a JSON array (or {"periods": [...]}) or CSV with a
+// name,day_type,start_date,end_date header (Content-Type: text/csv)
+export function parseCalendarImport(rawBody: string, contentType: string | null): unknown[] {
+  if (contentType?.includes('csv')) {
+    const [header, ...lines] = rawBody
+      .split('\n')
+      .map(line => line.trim())
+      .filter(line => line.length > 0)
+    const columns = parseCsvLine(header || '').map(column => column.toLowerCase())
+
+    return lines.map(line => {
+      const cells = parseCsvLine(line)
+      return Object.fromEntries(columns.map((column, i) => [column, cells[i]]))
+    })
+  }
+
+  const parsed = JSON.parse(rawBody)
+  if (Array.isArray(parsed)) {
+    return parsed
+  }
+  if (parsed && Array.isArray(parsed.periods)) {
+    return parsed.periods
+  }
+  throw new Error('Expected an array of periods')
+}
+
+// Campus calendar date of a time, as YYYY-MM-DD
+export function calendarDate(time: Date): string {
+  return campusTime(time).date
+}
+
+function periodDays(period: CalendarPeriodInput): number {
+  return new Date(`${period.end_date}T00:00:00Z`).getTime() - new Date(`${period.start_date}T00:00:00Z`).getTime()
+}
+
+// Day type lookup over a set of periods, memoised per date
+export function createDayTypeLookup(periods: CalendarPeriodInput[]): (time: Date) => string {
+  // Shortest first, so the first period covering a date is the most specific
+  const sorted = [...periods].sort((a, b) => periodDays(a) - periodDays(b))
+  const cache = new Map<string, string>()
+
+  return (time: Date) => {
+    const date = calendarDate(time)
+    let dayType = cache.get(date)
+    if (dayType === undefined) {
+      dayType = sorted.find(period => period.start_date <= date && period.end_date >= date)?.day_type || DEFAULT_DAY_TYPE
+      cache.set(date, dayType)
+    }
+    return dayType
+  }
+}
+
+// Periods overlapping the given range
+export async function loadCalendarPeriods(
+  supabaseAdmin: SupabaseClient,
+  from: Date,
+  to: Date
+): Promise<CalendarPeriod[]> {
+  const { data, error } = await supabaseAdmin
+    .from('academic_calendar')
+    .select('id, name, day_type, start_date, end_date')
+    .lte('start_date', calendarDate(to))
+    .gte('end_date', calendarDate(from))
+    .order('start_date')
+
+  if (error) {
+    throw error
+  }
+  return data || []
+}
@@ -0,0 +1,76 @@
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { ANOMALY_QUARANTINE_SCORE, scoreReading, type HistoryPoint } from './anomaly-detection'
+
+const START = Date.UTC(2026, 9, 5, 9)
+
+// A reading `minutes` after START
+function at(minutes: number, occupancy_count: number): HistoryPoint {
+  return { occupancy_count, timestamp: new Date(START + minutes * 60 * 1000).toISOString() }
+}
+
+describe('scoreReading', () => {
+  test('passes ordinary traffic', () => {
+    const score = scoreReading(at(10, 48), [at(0, 40), at(5, 44)], 100)
+
+    assert.deepEqual(score, { score: 0, reasons: [], suspicious: false })
+  })
+
+  test('passes the first reading of a lot', () => {
+    assert.equal(scoreReading(at(0, 90), [], 100).suspicious, false)
+  })
+
+  test('flags a lot filling faster than cars can drive in', () => {
+    // 30 cars in a minute against at most 10 per minute
+    const score = scoreReading(at(1, 70), [at(0, 40)], 100)
+
+    assert.deepEqual(score.reasons, ['rate_of_change'])
+    assert.equal(score.score, 1)
+    assert.equal(score.suspicious, true)
+  })
+
+  test('allows small lots at least 5 cars a minute', () => {
+    assert.equal(scoreReading(at(1, 15), [at(0, 10)], 20).suspicious, false)
+  })
+
+  test('quarantines half the lot moving within ten minutes', () => {
+    const score = scoreReading(at(10, 95), [at(0, 40)], 100)
+
+    assert.ok(score.reasons.includes('impossible_jump'))
+    assert.ok(score.score >= ANOMALY_QUARANTINE_SCORE)
+  })
+
+  test('compares with the latest earlier reading only', () => {
+    const score = scoreReading(at(10, 42), [at(9, 40), at(0, 90), at(20, 10)], 100)
+
+    assert.equal(score.suspicious, false)
+  })
+
+  test('flags a partly-full lot stuck on one count for hours', () => {
+    const history = [0, 40, 80, 120, 160].map(minutes => at(minutes, 37))
+    const score = scoreReading(at(180, 37), history, 100)
+
+    assert.deepEqual(score.reasons, ['flatline'])
+    assert.equal(score.suspicious, true)
+  })
+
+  test('lets a count repeat for less than the flatline window', () => {
+    const history = [0, 20, 40, 60, 80].map(minutes => at(minutes, 37))
+
+    assert.equal(scoreReading(at(100, 37), history, 100).suspicious, false)
+  })
+
+  test('never flags empty or full lots for sitting still', () => {
+    const empty = [0, 40, 80, 120, 160].map(minutes => at(minutes, 0))
+    const full = [0, 40, 80, 120, 160].map(minutes => at(minutes, 100))
+
+    assert.equal(scoreReading(at(180, 0), empty, 100).suspicious, false)
+    assert.equal(scoreReading(at(180, 100), full, 100).suspicious, false)
+  })
+
+  test('only counts the unbroken run of the same count', () => {
+    const history = [...[0, 40, 80].map(minutes => at(minutes, 37)), at(120, 38), at(160, 37)]
+
+    assert.equal(scoreReading(at(180, 37), history, 100).suspicious, false)
+  })
+})
@@ -0,0 +1,97 @@
+// Scores incoming occupancy readings against a lot's recent history so that
+// faulty counters don't poison occupancy_history (and with it the predictions).
+
+// Readings scoring at or above this are quarantined instead of applied
+export const ANOMALY_QUARANTINE_SCORE = 0.7
+
+// How much history to compare a reading against; long enough to see a flatline
+export const ANOMALY_LOOKBACK_MINUTES = 240
+
+// Plausible fill/empty rate: 10% of capacity per minute, but never less than
+// 5 cars per minute so small lots aren't flagged for ordinary traffic
+const MAX_RATE_CAPACITY_FRACTION = 0.1
+const MIN_MAX_RATE_PER_MINUTE = 5
+
+// Moving half the lot within this many minutes is treated as impossible
+const IMPOSSIBLE_JUMP_CAPACITY_FRACTION = 0.5
+const IMPOSSIBLE_JUMP_WINDOW_MINUTES = 10
+
+// A partly-full lot reporting the exact same count for this long is stuck.
+// Empty and full lots legitimately sit still, so they are exempt. Lots can
+// also sit still overnight, so flatline readings still count as the lot
+// reporting (see ingestReadings).
+const FLATLINE_MIN_READINGS = 6
+const FLATLINE_MIN_HOURS = 3
+
+export interface HistoryPoint {
+  occupancy_count: number
+  timestamp: string
+}
+
+export type AnomalyReason = 'rate_of_change' | 'impossible_jump' | 'flatline'
+
+export interface AnomalyScore {
+  score: number
+  reasons: AnomalyReason[]
+  suspicious: boolean
+}
+
+function minutesBetween(a: string, b: string): number {
+  return Math.abs(new Date(a).getTime() - new Date(b).getTime()) / (60 * 1000)
+}
+
+// Score a reading between 0 (normal) and 1 (certainly wrong). `history` holds
+// earlier accepted readings for the same lot, in any order.
+export function scoreReading(
+  reading: HistoryPoint,
+  history: HistoryPoint[],
+  capacity: number
+): AnomalyScore {
+  const previous = history
+    .filter(point => point.timestamp < reading.timestamp)
+    .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+
+  const components: Array<[AnomalyReason, number]> = []
+
+  if (previous.length > 0) {
+    const last = previous[0]
+    const change = Math.abs(reading.occupancy_count - last.occupancy_count)
+    // Readings seconds apart are judged as if a minute apart
+    const minutes = Math.max(1, minutesBetween(reading.timestamp, last.timestamp))
+
+    const maxRate = Math.max(MIN_MAX_RATE_PER_MINUTE, capacity * MAX_RATE_CAPACITY_FRACTION)
+    const ratio = change / minutes / maxRate
+    if (ratio > 1) {
+      components.push(['rate_of_change', Math.min(1, 0.4 + 0.3 * (ratio - 1))])
+    }
+
+    if (
+      minutes <= IMPOSSIBLE_JUMP_WINDOW_MINUTES &&
+      change >= capacity * IMPOSSIBLE_JUMP_CAPACITY_FRACTION
+    ) {
+      components.push(['impossible_jump', 1])
+    }
+  }
+
+  const run = [reading, ...previous]
+  let runLength = 0
+  while (runLength < run.length && run[runLength].occupancy_count === reading.occupancy_count) {
+    runLength++
+  }
+  if (
+    reading.occupancy_count > 0 &&
+    reading.occupancy_count < capacity &&
+    runLength >= FLATLINE_MIN_READINGS &&
+    minutesBetween(reading.timestamp, run[runLength - 1].timestamp) >= FLATLINE_MIN_HOURS * 60
+  ) {
+    components.push(['flatline', 0.8])
+  }
+
+  const score = components.reduce((max, [, value]) => Math.max(max, value), 0)
+
+  return {
+    score: Math.round(score * 100) / 100,
+    reasons: components.map(([reason]) => reason),
+    suspicious: score >= ANOMALY_QUARANTINE_SCORE
+  }
+}
@@ -0,0 +1,25 @@
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { roundArrival, travelMinutes } from './arrival-forecast'
+
+describe('travelMinutes', () => {
+  test('drives the straight line plus the detour at the average speed', () => {
+    // 0.01 degree of latitude is 1112 m; 1.3 times that at 30 km/h is 2.9 minutes
+    assert.equal(travelMinutes({ lat: 40, lng: -75 }, { lat: 40.01, lng: -75 }), 3)
+  })
+
+  test('is zero from the lot itself', () => {
+    assert.equal(travelMinutes({ lat: 40, lng: -75 }, { lat: 40, lng: -75 }), 0)
+  })
+})
+
+describe('roundArrival', () => {
+  test('rounds up to the stored forecast grid', () => {
+    assert.equal(roundArrival(new Date('2026-10-05T09:01:00Z')).toISOString(), '2026-10-05T09:15:00.000Z')
+    assert.equal(roundArrival(new Date('2026-10-05T09:44:59Z')).toISOString(), '2026-10-05T09:45:00.000Z')
+  })
+
+  test('keeps times already on the grid', () => {
+    assert.equal(roundArrival(new Date('2026-10-05T09:30:00Z')).toISOString(), '2026-10-05T09:30:00.000Z')
+  })
+})
@@ -0,0 +1,118 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { calculateDistance } from './utils'
+import { servedForecasts, STORED_FORECAST_RESOLUTION_MINUTES } from './forecast-store'
+import { utcOffsetMinutes } from './campus-time'
+import { probabilityFree, type PredictionInterval } from './prediction-intervals'
+import type { GeoPoint } from './campus-events'
+import type { ForecastModel } from './forecasting'
+
+// What a driver will find when they get there. Each lot is forecast at the
+// driver's arrival time: a time they give, or their ETA from where they are
+// now, estimated per lot from the straight-line distance.
+
+// Average speed over the trip, and how much longer roads are than the
+// straight line; rough, but arrivals are rounded to 15 minutes anyway
+export const AVERAGE_DRIVING_SPEED_KMH = 30
+export const ROUTE_DETOUR_FACTOR = 1.3
+
+// Arrival times are rounded up to the stored forecast grid, so they can be
+// served from the latest precomputed run and nearby lots and repeated
+// requests share forecast times
+export const ARRIVAL_ROUNDING_MINUTES = STORED_FORECAST_RESOLUTION_MINUTES
+
+export const MAX_ARRIVAL_HOURS = 24
+
+export interface ArrivalForecast {
+  lot_id: string
+  lot_name: string
+  capacity: number
+  arrival_time: string
+  travel_minutes: number | null // null when the arrival time was given
+  predicted_occupancy: number
+  expected_free_spaces: number
+  interval: PredictionInterval
+  probability_free: number // Chance of at least min_free free spaces on arrival
+  model: ForecastModel
+}
+
+export type ArrivalRequest =
+  | { at: Date }
+  | { origin: GeoPoint; departing: Date }
+
+export function travelMinutes(from: GeoPoint, to: GeoPoint): number {
+  const meters = calculateDistance(from.lat, from.lng, to.lat, to.lng) * ROUTE_DETOUR_FACTOR
+  return Math.round(meters / (AVERAGE_DRIVING_SPEED_KMH * 1000 / 60))
+}
+
+// Rounded on the campus clock, like the slots of stored runs (see forecastTimes)
+export function roundArrival(time: Date): Date {
+  const step = ARRIVAL_ROUNDING_MINUTES * 60 * 1000
+  const offset = utcOffsetMinutes(time) * 60 * 1000
+  return new Date(Math.ceil((time.getTime() + offset) / step) * step - offset)
+}
+
+// Forecast the given lots (all lots when null) at the driver's arrival
+export async function forecastArrivals(
+  supabaseAdmin: SupabaseClient,
+  lotIds: string[] | null,
+  request: ArrivalRequest,
+  minFree: number = 1,
+  now: Date = new Date()
+): Promise<ArrivalForecast[]> {
+  // Each lot's travel time, when arriving from somewhere
+  const travel = new Map<string, number>()
+  if ('origin' in request) {
+    const { data: lots, error } = await supabaseAdmin
+      .from('parking_lots')
+      .select('id, location')
+
+    if (error) {
+      throw error
+    }
+
+    lots?.filter(lot => !lotIds || lotIds.includes(lot.id)).forEach(lot => {
+      travel.set(lot.id, travelMinutes(request.origin, lot.location))
+    })
+  }
+
+  // Never before now, so a slightly early client clock doesn't forecast the past
+  const arrivalOf = (lotId: string) => roundArrival(new Date(Math.max(
+    now.getTime(),
+    'at' in request
+      ? request.at.getTime()
+      : request.departing.getTime() + (travel.get(lotId) ?? 0) * 60 * 1000
+  )))
+
+  const times = 'at' in request
+    ? [arrivalOf('')]
+    : Array.from(new Set(Array.from(travel.keys()).map(lotId => arrivalOf(lotId).getTime())))
+      .sort((a, b) => a - b)
+      .map(time => new Date(time))
+
+  if (times.length === 0) {
+    return []
+  }
+
+  const run = await servedForecasts(supabaseAdmin, lotIds, times, now)
+
+  return run.forecasts.flatMap(forecast => {
+    const arrival = arrivalOf(forecast.lot_id).toISOString()
+    const point = forecast.points.find(candidate => candidate.time === arrival)
+    if (!point) {
+      return []
+    }
+
+    return [{
+      lot_id: forecast.lot_id,
+      lot_name: forecast.lot_name,
+      capacity: forecast.capacity,
+      arrival_time: arrival,
+      travel_minutes: 'at' in request ? null : travel.get(forecast.lot_id) ?? null,
+      predicted_occupancy: point.predicted_occupancy,
+      expected_free_spaces: forecast.capacity - point.predicted_occupancy,
+      interval: point.interval,
+      probability_free: probabilityFree(point, forecast.capacity, minFree),
+      model: forecast.model
+    }]
+  })
+}
@@ -0,0 +1,142 @@
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import {
+  eventPresence,
+  lotShares,
+  resolveVenue,
+  validateVenue,
+  type CampusEvent,
+  type CampusVenue,
+  type EventLot,
+  type PlacedEvent
+} from './campus-events'
+
+const HOUR_MS = 60 * 60 * 1000
+
+// About 111 m per 0.001 degree of latitude
+const VENUE = { lat: 40, lng: -75 }
+const metersNorth = (meters: number) => ({ lat: VENUE.lat + meters / 111195, lng: VENUE.lng })
+
+const stadium: CampusVenue = { id: 'venue-1', name: 'Stadium', code: 'STD', location: VENUE }
+
+function event(overrides: Partial<CampusEvent> = {}): CampusEvent {
+  return {
+    id: 'event-1',
+    name: 'Homecoming',
+    location: '',
+    venue_id: null,
+    start_time: '2026-10-10T18:00:00Z',
+    end_time: '2026-10-10T21:00:00Z',
+    expected_attendance: 1000,
+    impact_radius: 500,
+    arrival_profile: 'standard',
+    ...overrides
+  }
+}
+
+const total = (shares: Map<string, number>) => Array.from(shares.values()).reduce((sum, share) => sum + share, 0)
+
+describe('validateVenue', () => {
+  test('accepts a venue and trims its name and code', () => {
+    const validation = validateVenue({ name: ' Stadium ', code: ' STD ', location: VENUE })
+
+    assert.deepEqual(validation, { ok: true, venue: { name: 'Stadium', code: 'STD', location: VENUE } })
+  })
+
+  test('makes the code optional', () => {
+    const validation = validateVenue({ name: 'Stadium', location: VENUE })
+
+    assert.deepEqual(validation, { ok: true, venue: { name: 'Stadium', code: null, location: VENUE } })
+  })
+
+  test('rejects locations off the globe', () => {
+    assert.equal(validateVenue({ name: 'Stadium', location: { lat: 91, lng: 0 } }).ok, false)
+    assert.equal(validateVenue({ name: 'Stadium', location: { lat: 0, lng: -181 } }).ok, false)
+    assert.equal(validateVenue({ name: 'Stadium', location: { lat: '40', lng: 0 } }).ok, false)
+  })
+
+  test('rejects a blank name or code', () => {
+    assert.equal(validateVenue({ name: ' ', location: VENUE }).ok, false)
+    assert.equal(validateVenue({ name: 'Stadium', code: '', location: VENUE }).ok, false)
+  })
+})
+
+describe('resolveVenue', () => {
+  test('prefers the venue_id', () => {
+    assert.equal(resolveVenue(event({ venue_id: 'venue-1', location: 'Library' }), [stadium]), stadium)
+    assert.equal(resolveVenue(event({ venue_id: 'venue-2', location: 'Stadium' }), [stadium]), null)
+  })
+
+  test('matches the location text to a name or code, ignoring case', () => {
+    assert.equal(resolveVenue(event({ location: ' stadium ' }), [stadium]), stadium)
+    assert.equal(resolveVenue(event({ location: 'std' }), [stadium]), stadium)
+    assert.equal(resolveVenue(event({ location: 'Library' }), [stadium]), null)
+  })
+})
+
+describe('lotShares', () => {
+  const near: EventLot = { id: 'near', capacity: 100, location: metersNorth(100) }
+  const edge: EventLot = { id: 'edge', capacity: 100, location: metersNorth(450) }
+  const far: EventLot = { id: 'far', capacity: 100, location: metersNorth(2000) }
+
+  test('gives nearer lots within the radius more of the cars', () => {
+    const shares = lotShares(VENUE, 500, [near, edge, far], 50)
+
+    assert.ok(shares.get('near')! > shares.get('edge')!)
+    assert.equal(shares.get('far'), undefined)
+    assert.ok(Math.abs(total(shares) - 1) < 1e-9)
+  })
+
+  test('passes cars a full lot cannot take to the others, then further out', () => {
+    const shares = lotShares(VENUE, 500, [near, edge, far], 250)
+
+    assert.ok(Math.abs(shares.get('near')! * 250 - 100) < 0.1)
+    assert.ok(Math.abs(shares.get('edge')! * 250 - 100) < 0.1)
+    assert.ok(Math.abs(shares.get('far')! * 250 - 50) < 0.1)
+  })
+
+  test('sends cars past the radius to the nearest lot outside it', () => {
+    const shares = lotShares(VENUE, 50, [far, near], 10)
+
+    assert.deepEqual(Array.from(shares.keys()), ['near'])
+  })
+
+  test('spreads events without a venue over the campus by capacity', () => {
+    const shares = lotShares(null, 500, [near, { ...far, capacity: 300 }], 10)
+
+    assert.equal(shares.get('near'), 0.25)
+    assert.equal(shares.get('far'), 0.75)
+  })
+
+  test('is empty without cars or lots', () => {
+    assert.equal(lotShares(VENUE, 500, [near], 0).size, 0)
+    assert.equal(lotShares(VENUE, 500, [], 10).size, 0)
+  })
+})
+
+describe('eventPresence', () => {
+  const placed: PlacedEvent = {
+    id: 'event-1',
+    name: 'Homecoming',
+    venue: 'Stadium',
+    start_time: '2026-10-10T18:00:00Z',
+    end_time: '2026-10-10T21:00:00Z',
+    expected_attendance: 1000,
+    arrival_profile: 'standard',
+    lot_shares: new Map()
+  }
+  const start = Date.parse(placed.start_time)
+  const end = Date.parse(placed.end_time)
+
+  test('ramps up in the hour before a standard event and down in the hour after', () => {
+    assert.equal(eventPresence(placed, new Date(start - 2 * HOUR_MS)), 0)
+    assert.equal(eventPresence(placed, new Date(start - HOUR_MS / 2)), 0.5)
+    assert.equal(eventPresence(placed, new Date(start + HOUR_MS)), 1)
+    assert.equal(eventPresence(placed, new Date(end + HOUR_MS / 2)), 0.5)
+    assert.equal(eventPresence(placed, new Date(end + 2 * HOUR_MS)), 0)
+  })
+
+  test('has early events arrive hours ahead', () => {
+    assert.ok(eventPresence({ ...placed, arrival_profile: 'early' }, new Date(start - 2 * HOUR_MS)) > 0)
+  })
+})
@@ -0,0 +1,305 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { calculateDistance } from './utils'
+
+// Campus events and the parking demand they add. Events take place at venues
+// from the building catalog (campus_venues), found by venue_id or, for events
+// that only name their location, by venue name or code. The attendees who
+// drive are split over the lots within the event's impact radius, nearer and
+// bigger lots taking more and full ones passing the rest on to the others,
+// then to lots further out; events whose venue is unknown are spread over the
+// whole campus by capacity. Over time, how many of them are parked follows
+// the event's arrival profile.
+
+// Share of an event's attendees that drive and park on campus
+export const EVENT_PARKING_SHARE = 0.3
+
+export const ARRIVAL_PROFILES = ['standard', 'early', 'all_day'] as const
+
+export type ArrivalProfile = typeof ARRIVAL_PROFILES[number]
+
+// Hours around the start over which attendees arrive, and around the end over
+// which they leave: 'standard' arrive in the hour before and leave in the hour
+// after (games, concerts), 'early' arrive hours ahead (tailgating,
+// graduations), 'all_day' come and go through the event (conferences, fairs)
+export const ARRIVAL_WINDOWS: Record<ArrivalProfile, {
+  arrive_before: number
+  arrive_after: number
+  leave_before: number
+  leave_after: number
+}> = {
+  standard: { arrive_before: 1, arrive_after: 0, leave_before: 0, leave_after: 1 },
+  early: { arrive_before: 3, arrive_after: 0, leave_before: 0, leave_after: 1.5 },
+  all_day: { arrive_before: 0.5, arrive_after: 1.5, leave_before: 1.5, leave_after: 0.5 }
+}
+
+// A lot at the edge of the impact radius gets e^-2 (~14%) of the weight of a
+// lot of the same size next to the venue
+const DISTANCE_DECAY = 2
+
+const HOUR_MS = 60 * 60 * 1000
+const MAX_ARRIVAL_HOURS = Math.max(...Object.values(ARRIVAL_WINDOWS).map(window => window.arrive_before))
+const MAX_DEPARTURE_HOURS = Math.max(...Object.values(ARRIVAL_WINDOWS).map(window => window.leave_after))
+
+export interface GeoPoint {
+  lat: number
+  lng: number
+}
+
+export interface CampusVenue {
+  id: string
+  name: string
+  code: string | null
+  location: GeoPoint
+}
+
+export interface CampusEvent {
+  id: string
+  name: string
+  location: string
+  venue_id: string | null
+  start_time: string
+  end_time: string
+  expected_attendance: number
+  impact_radius: number
+  arrival_profile: ArrivalProfile
+}
+
+export interface EventLot {
+  id: string
+  capacity: number
+  location: GeoPoint
+}
+
+// An event with its venue resolved and each affected lot's share of its cars
+export interface PlacedEvent {
+  id: string
+  name: string
+  venue: string | null
+  start_time: string
+  end_time: string
+  expected_attendance: number
+  arrival_profile: ArrivalProfile
+  lot_shares: Map<string, number>
+}
+
+export interface EventContribution {
+  event_id: string
+  name: string
+  venue: string | null
+  cars: number
+}
+
+export type CampusVenueValidation =
+  | { ok: true; venue: Omit<CampusVenue, 'id'> }
+  | { ok: false; error: string }
+
+export function validateVenue(item: unknown): CampusVenueValidation {
+  if (!item || typeof item !== 'object') {
+    return { ok: false, error: 'Invalid venue' }
+  }
+
+  const { name, code, location } = item as Record<string, unknown>
+
+  if (typeof name !== 'string' || !name.trim()) {
+    return { ok: false, error: 'name is required' }
+  }
+
+  if (code !== undefined && code !== null && (typeof code !== 'string' || !code.trim())) {
+    return { ok: false, error: 'code must be a non-empty string' }
+  }
+
+  const point = location as Record<string, unknown> | null
+  if (
+    !point || typeof point !== 'object' ||
+    typeof point.lat !== 'number' || point.lat < -90 || point.lat > 90 ||
+    typeof point.lng !== 'number' || point.lng < -180 || point.lng > 180
+  ) {
+    return { ok: false, error: 'location must be {lat, lng}' }
+  }
+
+  return {
+    ok: true,
+    venue: {
+      name: name.trim(),
+      code: typeof code === 'string' ? code.trim() : null,
+      location: { lat: point.lat, lng: point.lng }
+    }
+  }
+}
+
+// The event's venue: by venue_id, else the venue whose name or code matches
+// its location text
+export function resolveVenue(event: CampusEvent, venues: CampusVenue[]): CampusVenue | null {
+  if (event.venue_id) {
+    return venues.find(venue => venue.id === event.venue_id) || null
+  }
+
+  const location = event.location.trim().toLowerCase()
+  return venues.find(venue =>
+    venue.name.toLowerCase() === location || venue.code?.toLowerCase() === location
+  ) || null
+}
+
+// Split `cars` over the candidates by weight, without giving any more than its
+// capacity: what a full lot can't take is split again over the others.
+// Adds to `allocation` and returns the cars left over.
+function fillByWeight(
+  cars: number,
+  candidates: Array<{ id: string; capacity: number; weight: number }>,
+  allocation: Map<string, number>
+): number {
+  let remaining = cars
+  let open = candidates.filter(candidate => candidate.capacity > (allocation.get(candidate.id) || 0))
+
+  while (remaining > 0.01 && open.length > 0) {
+    const totalWeight = open.reduce((sum, candidate) => sum + candidate.weight, 0)
+    if (totalWeight <= 0) {
+      break
+    }
+
+    let given = 0
+    open.forEach(candidate => {
+      const current = allocation.get(candidate.id) || 0
+      const amount = Math.min(candidate.capacity - current, remaining * candidate.weight / totalWeight)
+      allocation.set(candidate.id, current + amount)
+      given += amount
+    })
+    remaining -= given
+    open = open.filter(candidate => candidate.capacity - (allocation.get(candidate.id) || 0) > 0.01)
+  }
+
+  return remaining
+}
+
+// Each lot's share of an event's `cars`. Lots within the impact radius share
+// them by capacity, decaying with distance; once those are full (or if none
+// is that close), the rest go to the other lots nearest first. Without a
+// venue, every lot shares by capacity.
+export function lotShares(venue: GeoPoint | null, impactRadius: number, lots: EventLot[], cars: number): Map<string, number> {
+  if (lots.length === 0 || cars <= 0) {
+    return new Map()
+  }
+
+  if (!venue) {
+    const campusCapacity = lots.reduce((sum, lot) => sum + lot.capacity, 0)
+    return new Map(lots.map(lot => [lot.id, campusCapacity > 0 ? lot.capacity / campusCapacity : 0]))
+  }
+
+  const radius = Math.max(1, impactRadius)
+  const byDistance = lots
+    .map(lot => ({
+      id: lot.id,
+      capacity: lot.capacity,
+      distance: calculateDistance(venue.lat, venue.lng, lot.location.lat, lot.location.lng)
+    }))
+    .sort((a, b) => a.distance - b.distance)
+
+  const allocation = new Map<string, number>()
+  let remaining = fillByWeight(
+    cars,
+    byDistance
+      .filter(lot => lot.distance <= radius)
+      .map(lot => ({ ...lot, weight: lot.capacity * Math.exp(-DISTANCE_DECAY * lot.distance / radius) })),
+    allocation
+  )
+
+  for (const lot of byDistance) {
+    if (remaining <= 0.01) {
+      break
+    }
+    remaining = fillByWeight(remaining, [{ ...lot, weight: 1 }], allocation)
+  }
+
+  // Cars that fit nowhere stay with the nearest lot; forecasts cap at capacity
+  if (remaining > 0.01) {
+    allocation.set(byDistance[0].id, (allocation.get(byDistance[0].id) || 0) + remaining)
+  }
+
+  return new Map(Array.from(allocation.entries())
+    .filter(([, allocated]) => allocated > 0)
+    .map(([id, allocated]) => [id, allocated / cars]))
+}
+
+export function placeEvents(events: CampusEvent[], venues: CampusVenue[], lots: EventLot[]): PlacedEvent[] {
+  return events.map(event => {
+    const venue = resolveVenue(event, venues)
+    return {
+      id: event.id,
+      name: event.name,
+      venue: venue?.name ?? null,
+      start_time: event.start_time,
+      end_time: event.end_time,
+      expected_attendance: event.expected_attendance,
+      arrival_profile: event.arrival_profile,
+      lot_shares: lotShares(
+        venue?.location ?? null,
+        event.impact_radius,
+        lots,
+        event.expected_attendance * EVENT_PARKING_SHARE
+      )
+    }
+  })
+}
+
+// Linear ramp from 0 at `from` to 1 at `to`
+function ramp(time: number, from: number, to: number): number {
+  if (to <= from) {
+    return time >= to ? 1 : 0
+  }
+  return Math.max(0, Math.min(1, (time - from) / (to - from)))
+}
+
+// Share of an event's drivers parked at `time`
+export function eventPresence(event: PlacedEvent, time: Date): number {
+  const window = ARRIVAL_WINDOWS[event.arrival_profile] || ARRIVAL_WINDOWS.standard
+  const start = new Date(event.start_time).getTime()
+  const end = new Date(event.end_time).getTime()
+  const at = time.getTime()
+
+  const arrived = ramp(at, start - window.arrive_before * HOUR_MS, start + window.arrive_after * HOUR_MS)
+  const left = ramp(at, end - window.leave_before * HOUR_MS, end + window.leave_after * HOUR_MS)
+  return Math.max(0, arrived - left)
+}
+
+// Cars each event adds to a lot at `time`, for events that add any
+export function eventContributions(time: Date, events: PlacedEvent[], lotId: string): EventContribution[] {
+  return events.flatMap(event => {
+    const share = event.lot_shares.get(lotId) || 0
+    const cars = event.expected_attendance * EVENT_PARKING_SHARE * share * (share > 0 ? eventPresence(event, time) : 0)
+    return cars > 0
+      ? [{ event_id: event.id, name: event.name, venue: event.venue, cars: Math.round(cars * 10) / 10 }]
+      : []
+  })
+}
+
+// Events affecting parking between `from` and `to`, placed over `lots`
+export async function loadPlacedEvents(
+  supabaseAdmin: SupabaseClient,
+  from: Date,
+  to: Date,
+  lots: EventLot[]
+): Promise<PlacedEvent[]> {
+  const { data: events, error: eventsError } = await supabaseAdmin
+    .from('campus_events')
+    .select('id, name, location, venue_id, start_time, end_time, expected_attendance, impact_radius, arrival_profile')
+    .lte('start_time', new Date(to.getTime() + MAX_ARRIVAL_HOURS * HOUR_MS).toISOString())
+    .gte('end_time', new Date(from.getTime() - MAX_DEPARTURE_HOURS * HOUR_MS).toISOString())
+
+  if (eventsError) {
+    throw eventsError
+  }
+
+  if (!events || events.length === 0) {
+    return []
+  }
+
+  const { data: venues, error: venuesError } = await supabaseAdmin
+    .from('campus_venues')
+    .select('id, name, code, location')
+
+  if (venuesError) {
+    throw venuesError
+  }
+
+  return placeEvents(events, venues || [], lots)
+}
@@ -0,0 +1,79 @@
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { campusTime, campusTimeZone, isValidTimeZone, nextCampusTime, utcOffsetMinutes } from './campus-time'
+
+const NEW_YORK = 'America/New_York'
+
+describe('campusTimeZone', () => {
+  test('falls back to UTC for an unknown zone', () => {
+    const configured = process.env.NEXT_PUBLIC_CAMPUS_TIMEZONE
+    try {
+      process.env.NEXT_PUBLIC_CAMPUS_TIMEZONE = 'Mars/Olympus_Mons'
+      assert.equal(campusTimeZone(), 'UTC')
+      process.env.NEXT_PUBLIC_CAMPUS_TIMEZONE = NEW_YORK
+      assert.equal(campusTimeZone(), NEW_YORK)
+    } finally {
+      if (configured === undefined) {
+        delete process.env.NEXT_PUBLIC_CAMPUS_TIMEZONE
+      } else {
+        process.env.NEXT_PUBLIC_CAMPUS_TIMEZONE = configured
+      }
+    }
+  })
+
+  test('knows valid IANA zones', () => {
+    assert.equal(isValidTimeZone(NEW_YORK), true)
+    assert.equal(isValidTimeZone('Eastern'), false)
+  })
+})
+
+describe('utcOffsetMinutes', () => {
+  test('follows daylight saving time', () => {
+    assert.equal(utcOffsetMinutes(new Date('2026-07-01T12:00:00Z'), NEW_YORK), -240)
+    assert.equal(utcOffsetMinutes(new Date('2026-12-01T12:00:00Z'), NEW_YORK), -300)
+  })
+
+  test('handles zones offset by a fraction of an hour', () => {
+    assert.equal(utcOffsetMinutes(new Date('2026-07-01T12:00:00Z'), 'Asia/Kolkata'), 330)
+  })
+})
+
+describe('campusTime', () => {
+  test('reads the wall clock on campus', () => {
+    assert.deepEqual(campusTime(new Date('2026-10-06T02:30:00Z'), NEW_YORK), {
+      date: '2026-10-05',
+      year: 2026,
+      month: 10,
+      day: 5,
+      hour: 22,
+      minute: 30,
+      day_of_week: 1
+    })
+  })
+})
+
+describe('nextCampusTime', () => {
+  test('is later today when the time is still to come', () => {
+    const next = nextCampusTime('09:30', new Date('2026-10-05T12:00:00Z'), NEW_YORK)
+
+    assert.equal(next?.toISOString(), '2026-10-05T13:30:00.000Z')
+  })
+
+  test('rolls over to tomorrow once the time has passed', () => {
+    const next = nextCampusTime('07:00', new Date('2026-10-05T12:00:00Z'), NEW_YORK)
+
+    assert.equal(next?.toISOString(), '2026-10-06T11:00:00.000Z')
+  })
+
+  test('uses the offset of the day it lands on', () => {
+    // Clocks go back on 2026-11-01
+    const next = nextCampusTime('09:00', new Date('2026-10-31T20:00:00Z'), NEW_YORK)
+
+    assert.equal(next?.toISOString(), '2026-11-01T14:00:00.000Z')
+  })
+
+  test('rejects invalid clock times', () => {
+    assert.equal(nextCampusTime('24:00', new Date(), NEW_YORK), null)
+    assert.equal(nextCampusTime('9am', new Date(), NEW_YORK), null)
+  })
+})
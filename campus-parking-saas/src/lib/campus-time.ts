@@ -0,0 +1,120 @@
+// The campus clock. Hours and days (forecast slots, calendar dates, daily
+// rollups, displayed times) follow the campus timezone, set with
+// NEXT_PUBLIC_CAMPUS_TIMEZONE, rather than the timezone of whichever server or
+// browser the code runs in: deployed functions run in UTC.
+
+export const DEFAULT_CAMPUS_TIMEZONE = 'UTC'
+
+const HOUR_MS = 60 * 60 * 1000
+
+// Offsets are looked up once per hour and zone; bounded so long backtests
+// don't grow it forever
+const MAX_CACHED_OFFSETS = 20000
+
+const formatters = new Map<string, Intl.DateTimeFormat>()
+const offsets = new Map<string, number>()
+
+export interface CampusTime {
+  date: string // YYYY-MM-DD
+  year: number
+  month: number // 1-12
+  day: number
+  hour: number
+  minute: number
+  day_of_week: number // 0 = Sunday
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+// The configured campus timezone; an unknown one falls back to UTC. Read
+// directly from process.env so Next.js inlines it into browser bundles too.
+export function campusTimeZone(): string {
+  const configured = process.env.NEXT_PUBLIC_CAMPUS_TIMEZONE
+  return configured && isValidTimeZone(configured) ? configured : DEFAULT_CAMPUS_TIMEZONE
+}
+
+function formatter(timeZone: string): Intl.DateTimeFormat {
+  let format = formatters.get(timeZone)
+  if (!format) {
+    format = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric'
+    })
+    formatters.set(timeZone, format)
+  }
+  return format
+}
+
+// Minutes the zone is ahead of UTC at `time`, looked up at the start of the
+// UTC hour: offsets change at most once on a given day, almost always on the
+// hour.
+export function utcOffsetMinutes(time: Date, timeZone: string = campusTimeZone()): number {
+  const hourStart = Math.floor(time.getTime() / HOUR_MS) * HOUR_MS
+  const key = `${timeZone}:${hourStart}`
+  const cached = offsets.get(key)
+  if (cached !== undefined) {
+    return cached
+  }
+
+  const parts = Object.fromEntries(formatter(timeZone).formatToParts(new Date(hourStart))
+    .filter(part => part.type !== 'literal')
+    .map(part => [part.type, parseInt(part.value)]))
+  const local = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute)
+  const offset = Math.round((local - hourStart) / 60000)
+
+  if (offsets.size >= MAX_CACHED_OFFSETS) {
+    offsets.clear()
+  }
+  offsets.set(key, offset)
+  return offset
+}
+
+// Wall-clock date and time on campus at `time`
+export function campusTime(time: Date, timeZone: string = campusTimeZone()): CampusTime {
+  const local = new Date(time.getTime() + utcOffsetMinutes(time, timeZone) * 60000)
+  const month = local.getUTCMonth() + 1
+  const day = local.getUTCDate()
+
+  return {
+    date: `${local.getUTCFullYear()}-${month.toString().padStart(2, '0')}-${day.toString().padStart(2, '0')}`,
+    year: local.getUTCFullYear(),
+    month,
+    day,
+    hour: local.getUTCHours(),
+    minute: local.getUTCMinutes(),
+    day_of_week: local.getUTCDay()
+  }
+}
+
+// The next time at or after `now` that the campus clock reads `clock`
+// (HH:MM), e.g. for "arriving at 9:30"; null for an invalid clock time
+export function nextCampusTime(clock: string, now: Date = new Date(), timeZone: string = campusTimeZone()): Date | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(clock)
+  if (!match || parseInt(match[1]) > 23 || parseInt(match[2]) > 59) {
+    return null
+  }
+
+  const today = campusTime(now, timeZone)
+  for (let days = 0; days <= 1; days++) {
+    const wall = Date.UTC(today.year, today.month - 1, today.day + days, parseInt(match[1]), parseInt(match[2]))
+    // The offset that applies at that wall time, not the one now
+    const guess = wall - utcOffsetMinutes(new Date(wall), timeZone) * 60000
+    const time = new Date(wall - utcOffsetMinutes(new Date(guess), timeZone) * 60000)
+    if (time.getTime() >= now.getTime()) {
+      return time
+    }
+  }
+  return null
+}
@@ -0,0 +1,13 @@
+import { NextRequest } from 'next/server'
+
+// Vercel Cron sends `Authorization: Bearer <CRON_SECRET>` with every
+// scheduled invocation; reject anything else so jobs can't be triggered
+// by arbitrary callers.
+export function isAuthorizedCronRequest(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET
+  if (!secret) {
+    return false
+  }
+
+  return request.headers.get('authorization') === `Bearer ${secret}`
+}
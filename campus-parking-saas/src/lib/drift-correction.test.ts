@@ -0,0 +1,50 @@
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { DRIFT_SMOOTHING, correctForDrift, isOvernightWindow, nextDriftOffset } from './drift-correction'
+
+describe('correctForDrift', () => {
+  test('adds the offset to the raw count', () => {
+    assert.equal(correctForDrift(40, { capacity: 100, drift_offset: 3.4 }), 43)
+    assert.equal(correctForDrift(40, { capacity: 100, drift_offset: -2.6 }), 37)
+  })
+
+  test('keeps the result within 0..capacity', () => {
+    assert.equal(correctForDrift(2, { capacity: 100, drift_offset: -5 }), 0)
+    assert.equal(correctForDrift(98, { capacity: 100, drift_offset: 5 }), 100)
+  })
+})
+
+describe('nextDriftOffset', () => {
+  test('moves part of the way towards the residual', () => {
+    assert.equal(nextDriftOffset(0, 10, 100), DRIFT_SMOOTHING * 10)
+    assert.equal(nextDriftOffset(3, -10, 100), 0)
+  })
+
+  test('settles once the offset explains the residual', () => {
+    assert.equal(nextDriftOffset(4, 0, 100), 4)
+  })
+
+  test('never exceeds a fifth of capacity', () => {
+    assert.equal(nextDriftOffset(19, 100, 100), 20)
+    assert.equal(nextDriftOffset(-19, -100, 100), -20)
+  })
+})
+
+describe('isOvernightWindow', () => {
+  test('follows the campus clock', () => {
+    const configured = process.env.NEXT_PUBLIC_CAMPUS_TIMEZONE
+    try {
+      process.env.NEXT_PUBLIC_CAMPUS_TIMEZONE = 'America/New_York'
+      // 04:00 UTC is midnight in New York (EDT); 08:00 UTC is 04:00
+      assert.equal(isOvernightWindow(new Date('2026-10-05T04:00:00Z')), false)
+      assert.equal(isOvernightWindow(new Date('2026-10-05T08:00:00Z')), true)
+      assert.equal(isOvernightWindow(new Date('2026-10-05T09:00:00Z')), false)
+    } finally {
+      if (configured === undefined) {
+        delete process.env.NEXT_PUBLIC_CAMPUS_TIMEZONE
+      } else {
+        process.env.NEXT_PUBLIC_CAMPUS_TIMEZONE = configured
+      }
+    }
+  })
+})
@@ -0,0 +1,186 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { campusTime } from './campus-time'
+
+// Counting sensors drift by a few cars a day. Each lot keeps a learned offset
+// (parking_lots.drift_offset) that is added to its raw lot-level readings.
+// The offset is nudged towards every trusted reference: an officer headcount,
+// or the assumption that a lot marked empty_overnight is empty in the small
+// hours. Zone readings, gate events and stall-derived counts are not corrected;
+// gate counters are re-anchored by the reconciliation job instead.
+
+// Share of each new residual folded into the offset. Low enough that one
+// miscounted walk-through doesn't swing the lot, high enough to track real drift.
+export const DRIFT_SMOOTHING = 0.3
+
+// The offset never exceeds this share of capacity; beyond that the sensor
+// needs fixing, not correcting
+export const DRIFT_MAX_OFFSET_FRACTION = 0.2
+
+// A reference is only compared with a lot reading taken at most this long
+// before it
+export const REFERENCE_READING_MAX_AGE_MINUTES = 60
+
+// Campus-local hours (start inclusive, end exclusive) in which lots marked
+// empty_overnight are assumed empty. The job runs hourly and does nothing
+// outside them.
+export const OVERNIGHT_WINDOW_START_HOUR = 3
+export const OVERNIGHT_WINDOW_END_HOUR = 5
+
+export type DriftReferenceType = 'manual_count' | 'overnight_empty'
+
+export interface DriftEstimate {
+  lot_id: string
+  reference_type: DriftReferenceType
+  reference_count: number
+  sensor_count: number
+  residual: number
+  previous_offset: number
+  new_offset: number
+}
+
+// Apply a lot's offset to a raw count, keeping it within 0..capacity
+export function correctForDrift(rawCount: number, lot: { capacity: number; drift_offset: number }): number {
+  return Math.max(0, Math.min(lot.capacity, Math.round(rawCount + lot.drift_offset)))
+}
+
+// Move an offset part of the way towards a residual, within the cap
+export function nextDriftOffset(previousOffset: number, residual: number, capacity: number): number {
+  const limit = capacity * DRIFT_MAX_OFFSET_FRACTION
+  return Math.round(
+    Math.max(-limit, Math.min(limit, previousOffset + DRIFT_SMOOTHING * residual)) * 100
+  ) / 100
+}
+
+// What the lot's sensors reported, before drift correction, in the newest
+// lot-level absolute reading taken up to `at`. Gate event rows are skipped
+// since they are never corrected. Null if there is no such reading within
+// `maxAgeMinutes`.
+export async function loadRawSensorCount(
+  supabaseAdmin: SupabaseClient,
+  lot_id: string,
+  at: Date,
+  maxAgeMinutes: number = REFERENCE_READING_MAX_AGE_MINUTES
+): Promise<number | null> {
+  const since = new Date(at.getTime() - maxAgeMinutes * 60 * 1000).toISOString()
+
+  const { data: reading, error } = await supabaseAdmin
+    .from('occupancy_history')
+    .select('occupancy_count, raw_occupancy_count')
+    .eq('lot_id', lot_id)
+    .is('zone_id', null)
+    .eq('source', 'sensor')
+    .eq('reading_type', 'count')
+    .gte('timestamp', since)
+    .lte('timestamp', at.toISOString())
+    .order('timestamp', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (error) {
+    throw error
+  }
+
+  return reading ? reading.raw_occupancy_count ?? reading.occupancy_count : null
+}
+
+// Fold one reference observation into a lot's offset. `raw_sensor_count` is
+// what the sensors reported before correction (see loadRawSensorCount); the
+// current offset is applied to it without clamping, so the residual is what
+// that offset still gets wrong even where the corrected count would be cut
+// off at 0 or capacity. Returns null for lots whose occupancy is not
+// corrected (zoned or stall-derived lots).
+export async function updateDriftEstimate(
+  supabaseAdmin: SupabaseClient,
+  lot_id: string,
+  reference_type: DriftReferenceType,
+  reference_count: number,
+  raw_sensor_count: number
+): Promise<DriftEstimate | null> {
+  const { data: lot, error: lotError } = await supabaseAdmin
+    .from('parking_lots')
+    .select('capacity, drift_offset, occupancy_from_stalls, lot_zones(id)')
+    .eq('id', lot_id)
+    .single()
+
+  if (lotError || !lot || lot.occupancy_from_stalls || (lot.lot_zones || []).length > 0) {
+    return null
+  }
+
+  const previous_offset = Number(lot.drift_offset) || 0
+  const sensor_count = Math.round(raw_sensor_count + previous_offset)
+  const residual = reference_count - sensor_count
+  const new_offset = nextDriftOffset(previous_offset, residual, lot.capacity)
+
+  const { error: updateError } = await supabaseAdmin
+    .from('parking_lots')
+    .update({ drift_offset: new_offset })
+    .eq('id', lot_id)
+
+  if (updateError) {
+    throw updateError
+  }
+
+  const estimate: DriftEstimate = {
+    lot_id,
+    reference_type,
+    reference_count,
+    sensor_count,
+    residual,
+    previous_offset,
+    new_offset
+  }
+
+  const { error: logError } = await supabaseAdmin
+    .from('sensor_drift_estimates')
+    .insert(estimate)
+
+  if (logError) {
+    console.error('Error recording drift estimate:', logError)
+  }
+
+  return estimate
+}
+
+export function isOvernightWindow(now: Date): boolean {
+  const { hour } = campusTime(now)
+  return hour >= OVERNIGHT_WINDOW_START_HOUR && hour < OVERNIGHT_WINDOW_END_HOUR
+}
+
+// During the campus overnight window, for every lot marked empty_overnight
+// with a recent absolute reading, treat the true occupancy as zero and learn
+// from what the sensors report instead
+export async function runOvernightDriftCheck(
+  supabaseAdmin: SupabaseClient,
+  now: Date = new Date()
+): Promise<DriftEstimate[]> {
+  if (!isOvernightWindow(now)) {
+    return []
+  }
+
+  const since = new Date(now.getTime() - REFERENCE_READING_MAX_AGE_MINUTES * 60 * 1000).toISOString()
+
+  const { data: lots, error } = await supabaseAdmin
+    .from('parking_lots')
+    .select('id')
+    .eq('empty_overnight', true)
+    .gte('last_reading_at', since)
+
+  if (error) {
+    throw error
+  }
+
+  const estimates: DriftEstimate[] = []
+  for (const lot of lots || []) {
+    const raw_sensor_count = await loadRawSensorCount(supabaseAdmin, lot.id, now)
+    if (raw_sensor_count === null) {
+      continue
+    }
+
+    const estimate = await updateDriftEstimate(supabaseAdmin, lot.id, 'overnight_empty', 0, raw_sensor_count)
+    if (estimate) {
+      estimates.push(estimate)
+    }
+  }
+
+  return estimates
+}
@@ -0,0 +1,94 @@
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { estimateFillTimes, firstTime, fullThreshold } from './fill-times'
+import type { ForecastPoint, LotForecast } from './forecasting'
+
+const HOUR_MS = 60 * 60 * 1000
+const NOW = new Date('2026-10-05T08:00:00Z')
+
+const iso = (hours: number) => new Date(NOW.getTime() + hours * HOUR_MS).toISOString()
+
+// A forecast point `hours` from now with a symmetric interval of `spread` cars
+function point(hours: number, occupancy: number, spread: number = 0): ForecastPoint {
+  return {
+    time: iso(hours),
+    day_type: 'regular',
+    weather: null,
+    predicted_occupancy: occupancy,
+    uncertainty: spread,
+    interval: { p10: occupancy - spread, p50: occupancy, p90: occupancy + spread },
+    confidence: 0.8,
+    components: { seasonal: occupancy, weather: 0, trend: 0, events: 0 },
+    events: []
+  }
+}
+
+function lot(current_occupancy: number, points: ForecastPoint[]): LotForecast {
+  return { lot_id: 'lot-1', lot_name: 'Lot A', capacity: 100, current_occupancy, model: 'seasonal', points }
+}
+
+describe('fullThreshold', () => {
+  test('leaves a margin of 2% of capacity, and at least one space', () => {
+    assert.equal(fullThreshold(100), 98)
+    assert.equal(fullThreshold(500), 490)
+    assert.equal(fullThreshold(20), 19)
+  })
+})
+
+describe('firstTime', () => {
+  const curve = [{ time: 0, value: 50 }, { time: 100, value: 100 }, { time: 200, value: 40 }]
+
+  test('interpolates the crossing inside a segment', () => {
+    assert.equal(firstTime(curve, 75, 'fills', 0), 50)
+    assert.equal(firstTime(curve, 70, 'opens', 100), 150)
+  })
+
+  test('is `from` when the curve is already there', () => {
+    assert.equal(firstTime(curve, 60, 'fills', 50), 50)
+  })
+
+  test('never answers before `from`', () => {
+    assert.equal(firstTime(curve, 75, 'fills', 80), 80)
+  })
+
+  test('is null when the curve never gets there', () => {
+    assert.equal(firstTime(curve, 101, 'fills', 0), null)
+    assert.equal(firstTime(curve, 30, 'opens', 0), null)
+  })
+})
+
+describe('estimateFillTimes', () => {
+  test('expects a filling lot to fill where the forecast crosses the threshold', () => {
+    const estimate = estimateFillTimes(lot(58, [point(1, 78, 10), point(2, 98, 10), point(3, 98, 10)]), NOW)
+
+    assert.equal(estimate.full_now, false)
+    assert.equal(estimate.fills_at?.expected, iso(2))
+    // The busy (p90) curve fills first, the quiet (p10) one later
+    assert.equal(estimate.fills_at?.earliest, iso(1.5))
+    assert.equal(estimate.fills_at?.latest, null)
+    assert.equal(estimate.opens_at, null)
+  })
+
+  test('expects a full lot to open once the forecast drops below full', () => {
+    const estimate = estimateFillTimes(lot(100, [point(1, 100), point(2, 90)]), NOW)
+
+    assert.equal(estimate.full_now, true)
+    assert.equal(estimate.fills_at, null)
+    assert.equal(estimate.opens_at?.expected, new Date(NOW.getTime() + 1.2 * HOUR_MS).toISOString())
+  })
+
+  test('looks for space after a lot is expected to fill', () => {
+    const estimate = estimateFillTimes(lot(50, [point(1, 100), point(2, 100), point(3, 50)]), NOW)
+
+    assert.ok(estimate.fills_at)
+    assert.ok(estimate.opens_at)
+    assert.ok(Date.parse(estimate.opens_at.expected) > Date.parse(estimate.fills_at.expected))
+  })
+
+  test('has nothing to report for a lot that stays open', () => {
+    const estimate = estimateFillTimes(lot(20, [point(1, 30), point(2, 40)]), NOW)
+
+    assert.equal(estimate.fills_at, null)
+    assert.equal(estimate.opens_at, null)
+  })
+})
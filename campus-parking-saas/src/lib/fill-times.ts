@@ -0,0 +1,128 @@
+import type { ForecastModel, ForecastPoint, LotForecast } from './forecasting'
+
+// When will a lot fill up, and when will a full lot have space again? Both
+// are read off the forecast curve, starting from the lot's current occupancy:
+// the expected time from the predictions themselves, and a range from the
+// points' 90th and 10th percentile curves.
+
+// A lot is full with fewer free spaces than this share of its capacity (and
+// always with none): counts drift, and drivers rarely find the last space
+export const FULL_MARGIN_FRACTION = 0.02
+
+export const DEFAULT_FILL_HORIZON_HOURS = 12
+export const MAX_FILL_HORIZON_HOURS = 24
+// On the stored forecast grid, so fill times are read off the latest run
+export const FILL_RESOLUTION_MINUTES = 15
+
+export interface TimeEstimate {
+  expected: string
+  earliest: string
+  latest: string | null // null: may not happen within the horizon
+}
+
+export interface FillEstimate {
+  lot_id: string
+  lot_name: string
+  capacity: number
+  current_occupancy: number
+  full_threshold: number // Occupancy at which the lot counts as full
+  full_now: boolean
+  fills_at: TimeEstimate | null // Not full now: when it is expected to fill
+  opens_at: TimeEstimate | null // Full now, or once it fills: when space is expected again
+  model: ForecastModel
+}
+
+export interface CurvePoint {
+  time: number
+  value: number
+}
+
+export function fullThreshold(capacity: number): number {
+  return capacity - Math.max(1, Math.round(capacity * FULL_MARGIN_FRACTION))
+}
+
+// First time at or after `from` that the curve is full (or, for 'opens',
+// below full), interpolating between points
+export function firstTime(curve: CurvePoint[], threshold: number, when: 'fills' | 'opens', from: number): number | null {
+  const reached = (value: number) => when === 'fills' ? value >= threshold : value < threshold
+
+  for (let i = 0; i < curve.length; i++) {
+    const point = curve[i]
+    const next = curve[i + 1]
+    if (point.time >= from && reached(point.value)) {
+      return point.time
+    }
+    if (!next || next.time <= from || !reached(next.value)) {
+      continue
+    }
+    if (reached(point.value)) {
+      // Already there when the segment reaches `from`
+      return from
+    }
+
+    // Crossing inside the segment; never earlier than `from`
+    const crossing = point.value === next.value
+      ? next.time
+      : point.time + (threshold - point.value) / (next.value - point.value) * (next.time - point.time)
+    return Math.max(from, Math.min(next.time, crossing))
+  }
+
+  return null
+}
+
+function estimate(
+  curves: { expected: CurvePoint[]; early: CurvePoint[]; late: CurvePoint[] },
+  threshold: number,
+  when: 'fills' | 'opens',
+  from: number
+): TimeEstimate | null {
+  const expected = firstTime(curves.expected, threshold, when, from)
+  if (expected === null) {
+    return null
+  }
+
+  const earliest = firstTime(curves.early, threshold, when, from) ?? expected
+  const latest = firstTime(curves.late, threshold, when, from)
+
+  return {
+    expected: new Date(expected).toISOString(),
+    earliest: new Date(Math.min(earliest, expected)).toISOString(),
+    latest: latest === null ? null : new Date(Math.max(latest, expected)).toISOString()
+  }
+}
+
+export function estimateFillTimes(forecast: LotForecast, now: Date): FillEstimate {
+  const threshold = fullThreshold(forecast.capacity)
+  const start = { time: now.getTime(), value: forecast.current_occupancy }
+  const curve = (value: (point: ForecastPoint) => number): CurvePoint[] => [
+    start,
+    ...forecast.points.map(point => ({ time: new Date(point.time).getTime(), value: value(point) }))
+  ]
+  const high = curve(point => point.interval.p90)
+  const low = curve(point => point.interval.p10)
+  const expected = curve(point => point.predicted_occupancy)
+
+  const full_now = forecast.current_occupancy >= threshold
+
+  // A busier than expected lot fills sooner and opens later
+  const fills_at = full_now
+    ? null
+    : estimate({ expected, early: high, late: low }, threshold, 'fills', start.time)
+
+  const opens_from = fills_at ? new Date(fills_at.expected).getTime() : start.time
+  const opens_at = full_now || fills_at
+    ? estimate({ expected, early: low, late: high }, threshold, 'opens', opens_from)
+    : null
+
+  return {
+    lot_id: forecast.lot_id,
+    lot_name: forecast.lot_name,
+    capacity: forecast.capacity,
+    current_occupancy: forecast.current_occupancy,
+    full_threshold: threshold,
+    full_now,
+    fills_at,
+    opens_at,
+    model: forecast.model
+  }
+}
@@ -0,0 +1,397 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import {
+  forecastLots,
+  forecastOccupancy,
+  loadHourlyHistory,
+  HISTORY_WEEKS,
+  type ForecastContext,
+  type HourlyObservation
+} from './forecasting'
+import { campusTime } from './campus-time'
+
+// How good are the forecasts? Two sources of forecast/actual pairs, scored
+// the same way:
+// - backtests replay the hourly rollups, forecasting from each past hour with
+//   only the data that existed then (scripts/backtest-forecasts.ts);
+// - the forecast-accuracy job records live forecasts every hour and fills in
+//   the actual hourly average once that hour has been rolled up.
+// A forecast targets a whole hour and is compared with that hour's average.
+
+// Horizons (hours ahead) recorded by the job and used by default in backtests
+export const EVALUATION_HORIZONS = [1, 2, 4, 8, 24]
+
+// A forecast "hits" when it is within this share of capacity of the actual;
+// calibration compares hit rates with the confidence the forecast claimed
+export const CALIBRATION_TOLERANCE_FRACTION = 0.1
+
+// Share of actuals a well-calibrated p10-p90 interval contains
+export const TARGET_INTERVAL_COVERAGE = 0.8
+
+// Unresolved live forecasts are given up on after this long (no data came in)
+const RESOLVE_MAX_AGE_HOURS = 48
+
+const HOUR_MS = 60 * 60 * 1000
+const PAGE_SIZE = 1000
+
+// A forecast_evaluations row still waiting for its actual
+interface PendingEvaluationRow {
+  id: string
+  lot_id: string
+  generated_at: string
+  target_hour: string
+  horizon_hours: number
+  model: string
+  predicted_occupancy: number
+  confidence: number
+  p10_occupancy: number | null
+  p90_occupancy: number | null
+}
+
+export interface ForecastErrorRecord {
+  lot_id: string
+  capacity: number
+  target_hour: string
+  horizon_hours: number
+  predicted_occupancy: number
+  actual_occupancy: number
+  confidence: number
+  p10_occupancy: number | null // null for live forecasts recorded before intervals
+  p90_occupancy: number | null
+}
+
+export interface ErrorSummary {
+  key: string
+  count: number
+  mae: number // Mean absolute error, in cars
+  mape: number | null // Mean absolute percentage error over hours with any cars
+  bias: number // Mean of predicted - actual; positive means over-forecasting
+}
+
+export interface CalibrationBucket {
+  confidence_range: string
+  count: number
+  mean_confidence: number
+  hit_rate: number
+}
+
+// How often actuals fell inside the p10-p90 interval (ideally
+// TARGET_INTERVAL_COVERAGE) and below or above it (ideally 0.1 each)
+export interface IntervalCoverage {
+  count: number
+  within: number
+  below: number
+  above: number
+}
+
+export interface AccuracyReport {
+  overall: ErrorSummary
+  by_lot: ErrorSummary[]
+  by_hour: ErrorSummary[]
+  by_horizon: ErrorSummary[]
+  calibration: CalibrationBucket[]
+  interval_coverage: IntervalCoverage | null // null without any recorded intervals
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+function summarize(key: string, records: ForecastErrorRecord[]): ErrorSummary {
+  const errors = records.map(record => record.predicted_occupancy - Number(record.actual_occupancy))
+  const occupied = records.filter(record => Number(record.actual_occupancy) > 0)
+
+  return {
+    key,
+    count: records.length,
+    mae: records.length > 0 ? round2(errors.reduce((sum, e) => sum + Math.abs(e), 0) / records.length) : 0,
+    mape: occupied.length > 0
+      ? round2(occupied.reduce((sum, record) => {
+        const actual = Number(record.actual_occupancy)
+        return sum + Math.abs(record.predicted_occupancy - actual) / actual
+      }, 0) / occupied.length * 100)
+      : null,
+    bias: records.length > 0 ? round2(errors.reduce((sum, e) => sum + e, 0) / records.length) : 0
+  }
+}
+
+function groupSummaries(records: ForecastErrorRecord[], keyOf: (record: ForecastErrorRecord) => string): ErrorSummary[] {
+  const groups = new Map<string, ForecastErrorRecord[]>()
+  records.forEach(record => {
+    const key = keyOf(record)
+    const group = groups.get(key)
+    if (group) {
+      group.push(record)
+    } else {
+      groups.set(key, [record])
+    }
+  })
+
+  return Array.from(groups.entries())
+    .map(([key, group]) => summarize(key, group))
+    .sort((a, b) => a.key.localeCompare(b.key, undefined, { numeric: true }))
+}
+
+function intervalCoverage(records: ForecastErrorRecord[]): IntervalCoverage | null {
+  const withInterval = records.filter(record => record.p10_occupancy !== null && record.p90_occupancy !== null)
+  if (withInterval.length === 0) {
+    return null
+  }
+
+  // Actuals are hourly averages; compare them rounded, like the percentiles
+  const below = withInterval.filter(record => Math.round(Number(record.actual_occupancy)) < record.p10_occupancy!).length
+  const above = withInterval.filter(record => Math.round(Number(record.actual_occupancy)) > record.p90_occupancy!).length
+
+  return {
+    count: withInterval.length,
+    within: round2((withInterval.length - below - above) / withInterval.length),
+    below: round2(below / withInterval.length),
+    above: round2(above / withInterval.length)
+  }
+}
+
+// MAE/MAPE/bias overall and by lot, campus hour of day and horizon, hit rate per
+// 0.1-wide confidence bucket, and p10-p90 interval coverage
+export function summarizeForecastErrors(records: ForecastErrorRecord[]): AccuracyReport {
+  const buckets = new Map<number, ForecastErrorRecord[]>()
+  records.forEach(record => {
+    const bucket = Math.min(9, Math.floor(Number(record.confidence) * 10))
+    const bucketRecords = buckets.get(bucket)
+    if (bucketRecords) {
+      bucketRecords.push(record)
+    } else {
+      buckets.set(bucket, [record])
+    }
+  })
+
+  const calibration = Array.from(buckets.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([bucket, group]) => ({
+      confidence_range: `${(bucket / 10).toFixed(1)}-${((bucket + 1) / 10).toFixed(1)}`,
+      count: group.length,
+      mean_confidence: round2(group.reduce((sum, record) => sum + Number(record.confidence), 0) / group.length),
+      hit_rate: round2(group.filter(record =>
+        Math.abs(record.predicted_occupancy - Number(record.actual_occupancy)) <= record.capacity * CALIBRATION_TOLERANCE_FRACTION
+      ).length / group.length)
+    }))
+
+  return {
+    overall: summarize('all', records),
+    by_lot: groupSummaries(records, record => record.lot_id),
+    by_hour: groupSummaries(records, record => campusTime(new Date(record.target_hour)).hour.toString().padStart(2, '0')),
+    by_horizon: groupSummaries(records, record => record.horizon_hours.toString()),
+    calibration,
+    interval_coverage: intervalCoverage(records)
+  }
+}
+
+// Replay one lot's hourly history: from each origin (an hour boundary),
+// forecast the hours `horizons` ahead using only the hours before the origin,
+// with the last of them standing in for the live reading. The weather
+// recorded for the target hours stands in for the forecast that was available
+// at the origin, so backtests flatter the weather adjustment somewhat.
+export function backtestLot(
+  lot: { id: string; capacity: number; covered: boolean },
+  history: HourlyObservation[],
+  context: ForecastContext,
+  origins: Date[],
+  horizons: number[] = EVALUATION_HORIZONS
+): ForecastErrorRecord[] {
+  const actualByHour = new Map(history.map(observation => [
+    new Date(observation.hour_start).getTime(),
+    Number(observation.avg_occupancy)
+  ]))
+  const records: ForecastErrorRecord[] = []
+
+  origins.forEach(origin => {
+    const windowStart = origin.getTime() - HISTORY_WEEKS * 7 * 24 * HOUR_MS
+    const known = history.filter(observation => {
+      const start = new Date(observation.hour_start).getTime()
+      return start >= windowStart && start < origin.getTime()
+    })
+    const lastHour = actualByHour.get(origin.getTime() - HOUR_MS)
+
+    // Forecast each target hour at its midpoint
+    const targets = horizons.map(horizon => origin.getTime() + (horizon - 1) * HOUR_MS)
+    const points = forecastOccupancy({
+      ...context,
+      lot_id: lot.id,
+      capacity: lot.capacity,
+      covered: lot.covered,
+      history: known,
+      current_occupancy: lastHour ?? null,
+      current_at: lastHour !== undefined ? origin.toISOString() : null
+    }, targets.map(target => new Date(target + HOUR_MS / 2)), origin)
+
+    targets.forEach((target, i) => {
+      const actual = actualByHour.get(target)
+      if (actual === undefined) {
+        return
+      }
+      records.push({
+        lot_id: lot.id,
+        capacity: lot.capacity,
+        target_hour: new Date(target).toISOString(),
+        horizon_hours: horizons[i],
+        predicted_occupancy: points[i].predicted_occupancy,
+        actual_occupancy: actual,
+        confidence: points[i].confidence,
+        p10_occupancy: points[i].interval.p10,
+        p90_occupancy: points[i].interval.p90
+      })
+    })
+  })
+
+  return records
+}
+
+// Record every lot's forecast for the hours EVALUATION_HORIZONS ahead of the
+// next hour boundary
+export async function recordLiveForecasts(
+  supabaseAdmin: SupabaseClient,
+  now: Date = new Date()
+): Promise<number> {
+  // Each target hour is forecast at its midpoint
+  const nextHour = Math.floor(now.getTime() / HOUR_MS) * HOUR_MS + HOUR_MS
+  const horizonAt = new Map(EVALUATION_HORIZONS.map(horizon => [
+    new Date(nextHour + (horizon - 1) * HOUR_MS + HOUR_MS / 2).toISOString(),
+    horizon
+  ]))
+  const forecasts = await forecastLots(supabaseAdmin, null, Array.from(horizonAt.keys()).map(time => new Date(time)), now)
+
+  const rows = forecasts.flatMap(forecast => forecast.points.map(point => ({
+    lot_id: forecast.lot_id,
+    generated_at: now.toISOString(),
+    target_hour: new Date(new Date(point.time).getTime() - HOUR_MS / 2).toISOString(),
+    horizon_hours: horizonAt.get(point.time)!,
+    model: forecast.model,
+    predicted_occupancy: point.predicted_occupancy,
+    confidence: point.confidence,
+    p10_occupancy: point.interval.p10,
+    p90_occupancy: point.interval.p90
+  })))
+
+  if (rows.length === 0) {
+    return 0
+  }
+
+  const { error } = await supabaseAdmin
+    .from('forecast_evaluations')
+    .insert(rows)
+
+  if (error) {
+    throw error
+  }
+  return rows.length
+}
+
+// Fill in the actual hourly average for recorded forecasts whose hour has
+// been rolled up. Every pending row in the window is considered, oldest first
+// and paged past the API's row limit, so rows for hours that never get data
+// can't crowd out newer ones. The actuals are written back with one upsert per
+// page, which is why the rows carry every required column.
+export async function resolveLiveForecasts(
+  supabaseAdmin: SupabaseClient,
+  now: Date = new Date()
+): Promise<number> {
+  const pending: PendingEvaluationRow[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabaseAdmin
+      .from('forecast_evaluations')
+      .select('id, lot_id, generated_at, target_hour, horizon_hours, model, predicted_occupancy, confidence, p10_occupancy, p90_occupancy')
+      .is('actual_occupancy', null)
+      .lt('target_hour', new Date(now.getTime() - HOUR_MS).toISOString())
+      .gte('target_hour', new Date(now.getTime() - RESOLVE_MAX_AGE_HOURS * HOUR_MS).toISOString())
+      .order('target_hour')
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1)
+
+    if (error) {
+      throw error
+    }
+
+    pending.push(...(data || []))
+    if (!data || data.length < PAGE_SIZE) {
+      break
+    }
+  }
+
+  if (pending.length === 0) {
+    return 0
+  }
+
+  const hours = await loadHourlyHistory(
+    supabaseAdmin,
+    Array.from(new Set(pending.map(row => row.lot_id))),
+    new Date(pending[0].target_hour)
+  )
+
+  const actualOf = new Map(Array.from(hours.entries()).flatMap(([lot_id, observations]) =>
+    observations.map(hour => [`${lot_id}:${new Date(hour.hour_start).getTime()}`, Number(hour.avg_occupancy)] as const)
+  ))
+
+  const resolved = pending.flatMap(row => {
+    const actual = actualOf.get(`${row.lot_id}:${new Date(row.target_hour).getTime()}`)
+    return actual === undefined
+      ? []
+      : [{ ...row, actual_occupancy: actual, resolved_at: now.toISOString() }]
+  })
+
+  for (let i = 0; i < resolved.length; i += PAGE_SIZE) {
+    const { error } = await supabaseAdmin
+      .from('forecast_evaluations')
+      .upsert(resolved.slice(i, i + PAGE_SIZE), { onConflict: 'id' })
+
+    if (error) {
+      throw error
+    }
+  }
+
+  return resolved.length
+}
+
+// Resolved live forecasts for hours since `since`, paged past the API's row
+// limit, with each lot's capacity for scoring
+export async function loadResolvedForecasts(
+  supabaseAdmin: SupabaseClient,
+  since: Date,
+  lot_id: string | null = null
+): Promise<ForecastErrorRecord[]> {
+  const { data: lots, error: lotsError } = await supabaseAdmin
+    .from('parking_lots')
+    .select('id, capacity')
+
+  if (lotsError) {
+    throw lotsError
+  }
+  const capacityOf = new Map(lots?.map(lot => [lot.id, lot.capacity]))
+
+  const records: ForecastErrorRecord[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    let query = supabaseAdmin
+      .from('forecast_evaluations')
+      .select('lot_id, target_hour, horizon_hours, predicted_occupancy, actual_occupancy, confidence, p10_occupancy, p90_occupancy')
+      .not('actual_occupancy', 'is', null)
+      .gte('target_hour', since.toISOString())
+      .order('target_hour')
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1)
+
+    if (lot_id) {
+      query = query.eq('lot_id', lot_id)
+    }
+
+    const { data, error } = await query
+
+    if (error) {
+      throw error
+    }
+
+    data?.forEach(row => {
+      records.push({ ...row, capacity: capacityOf.get(row.lot_id) || 0 })
+    })
+
+    if (!data || data.length < PAGE_SIZE) {
+      return records
+    }
+  }
+}
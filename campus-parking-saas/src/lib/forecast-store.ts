@@ -0,0 +1,243 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import {
+  forecastLots,
+  forecastTimes,
+  FORECAST_MODEL_VERSION,
+  type ForecastModel,
+  type ForecastPoint,
+  type LotForecast
+} from './forecasting'
+
+// Precomputed forecasts. The precompute-forecasts job forecasts every lot over
+// the next STORED_FORECAST_HORIZON_HOURS in STORED_FORECAST_RESOLUTION_MINUTES
+// steps and stores the run in occupancy_forecasts. The prediction endpoints
+// serve the latest run when it is recent enough and has every lot and time
+// they were asked for, and forecast live otherwise. Runs are never deleted,
+// so stored forecasts can be compared with what happened.
+
+// Serves campus requests at 15, 30 and 60 minutes
+export const STORED_FORECAST_RESOLUTION_MINUTES = 15
+
+// The job runs every 30 minutes; older runs miss the latest readings
+export const MAX_STORED_FORECAST_AGE_MINUTES = 40
+
+// The longest horizon served from a stored run
+export const MAX_SERVED_FORECAST_HOURS = 24
+
+// Runs reach past the longest served horizon by their maximum age (in whole
+// steps), so a request made just before a run expires is still covered
+export const STORED_FORECAST_HORIZON_HOURS = MAX_SERVED_FORECAST_HOURS +
+  Math.ceil(MAX_STORED_FORECAST_AGE_MINUTES / STORED_FORECAST_RESOLUTION_MINUTES) *
+  STORED_FORECAST_RESOLUTION_MINUTES / 60
+
+const INSERT_BATCH_SIZE = 1000
+const PAGE_SIZE = 1000
+
+// The occupancy_forecasts columns a stored run is read back from
+interface StoredForecastRow {
+  lot_id: string
+  target_time: string
+  model: string
+  current_occupancy: number
+  predicted_occupancy: number
+  p10_occupancy: number
+  p90_occupancy: number
+  uncertainty: number
+  confidence: number
+  day_type: string | null
+  weather: ForecastPoint['weather']
+  components: ForecastPoint['components']
+  events: ForecastPoint['events']
+}
+
+export interface ForecastRun {
+  generated_at: string
+  model_version: string
+  stored: boolean // Served from occupancy_forecasts rather than computed live
+  forecasts: LotForecast[]
+}
+
+// Forecast every lot and store the run; returns the number of rows stored
+export async function storeForecasts(
+  supabaseAdmin: SupabaseClient,
+  now: Date = new Date()
+): Promise<{ generated_at: string; lots: number; forecasts: number }> {
+  const times = forecastTimes(now, STORED_FORECAST_HORIZON_HOURS, STORED_FORECAST_RESOLUTION_MINUTES)
+  const forecasts = await forecastLots(supabaseAdmin, null, times, now)
+  const generated_at = now.toISOString()
+
+  const rows = forecasts.flatMap(forecast => forecast.points.map(point => ({
+    lot_id: forecast.lot_id,
+    generated_at,
+    target_time: point.time,
+    source: 'prediction' as const,
+    model: forecast.model,
+    model_version: FORECAST_MODEL_VERSION,
+    current_occupancy: forecast.current_occupancy,
+    predicted_occupancy: point.predicted_occupancy,
+    p10_occupancy: point.interval.p10,
+    p90_occupancy: point.interval.p90,
+    uncertainty: point.uncertainty,
+    confidence: point.confidence,
+    day_type: point.day_type,
+    weather: point.weather,
+    components: point.components,
+    events: point.events
+  })))
+
+  for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+    const { error } = await supabaseAdmin
+      .from('occupancy_forecasts')
+      .insert(rows.slice(i, i + INSERT_BATCH_SIZE))
+
+    if (error) {
+      throw error
+    }
+  }
+
+  return { generated_at, lots: forecasts.length, forecasts: rows.length }
+}
+
+// The latest stored run, if it is recent enough and covers every requested
+// lot (all lots when null) at every one of `times`
+export async function loadStoredForecasts(
+  supabaseAdmin: SupabaseClient,
+  lotIds: string[] | null,
+  times: Date[],
+  now: Date = new Date()
+): Promise<ForecastRun | null> {
+  if (times.length === 0) {
+    return null
+  }
+
+  const { data: run, error: runError } = await supabaseAdmin
+    .from('occupancy_forecasts')
+    .select('generated_at, model_version')
+    .gte('generated_at', new Date(now.getTime() - MAX_STORED_FORECAST_AGE_MINUTES * 60 * 1000).toISOString())
+    .order('generated_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (runError) {
+    throw runError
+  }
+  if (!run) {
+    return null
+  }
+
+  const { data: allLots, error: lotsError } = await supabaseAdmin
+    .from('parking_lots')
+    .select('id, name, capacity')
+    .order('name')
+
+  if (lotsError) {
+    throw lotsError
+  }
+
+  const lots = (allLots || []).filter(lot => !lotIds || lotIds.includes(lot.id))
+  if (lots.length === 0) {
+    return null
+  }
+
+  const targets = times.map(time => time.getTime())
+  const rowsByLot = new Map<string, Map<number, StoredForecastRow>>()
+  for (let from = 0; ; from += PAGE_SIZE) {
+    let query = supabaseAdmin
+      .from('occupancy_forecasts')
+      .select('lot_id, target_time, model, current_occupancy, predicted_occupancy, p10_occupancy, p90_occupancy, uncertainty, confidence, day_type, weather, components, events')
+      .eq('generated_at', run.generated_at)
+      .gte('target_time', new Date(Math.min(...targets)).toISOString())
+      .lte('target_time', new Date(Math.max(...targets)).toISOString())
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1)
+
+    if (lotIds) {
+      query = query.in('lot_id', lots.map(lot => lot.id))
+    }
+
+    const { data, error } = await query
+
+    if (error) {
+      throw error
+    }
+
+    data?.forEach((row: StoredForecastRow) => {
+      const byTime = rowsByLot.get(row.lot_id) || new Map<number, StoredForecastRow>()
+      byTime.set(new Date(row.target_time).getTime(), row)
+      rowsByLot.set(row.lot_id, byTime)
+    })
+
+    if (!data || data.length < PAGE_SIZE) {
+      break
+    }
+  }
+
+  const forecasts: LotForecast[] = []
+  for (const lot of lots) {
+    const byTime = rowsByLot.get(lot.id)
+    const rows = targets.flatMap(target => byTime?.get(target) ?? [])
+    if (rows.length < targets.length) {
+      // A lot added since the run, or times off the stored grid
+      return null
+    }
+
+    forecasts.push({
+      lot_id: lot.id,
+      lot_name: lot.name,
+      capacity: lot.capacity,
+      current_occupancy: rows[0].current_occupancy,
+      model: rows[0].model as ForecastModel,
+      points: rows.map(row => ({
+        time: new Date(row.target_time).toISOString(),
+        day_type: row.day_type,
+        weather: row.weather,
+        predicted_occupancy: row.predicted_occupancy,
+        uncertainty: Number(row.uncertainty),
+        interval: { p10: row.p10_occupancy, p50: row.predicted_occupancy, p90: row.p90_occupancy },
+        confidence: Number(row.confidence),
+        components: row.components,
+        events: row.events
+      }))
+    })
+  }
+
+  return {
+    generated_at: new Date(run.generated_at).toISOString(),
+    model_version: run.model_version,
+    stored: true,
+    forecasts
+  }
+}
+
+// Stored forecasts when they cover the request, live ones otherwise
+export async function servedForecasts(
+  supabaseAdmin: SupabaseClient,
+  lotIds: string[] | null,
+  times: Date[],
+  now: Date = new Date()
+): Promise<ForecastRun> {
+  try {
+    const stored = await loadStoredForecasts(supabaseAdmin, lotIds, times, now)
+    if (stored) {
+      return stored
+    }
+  } catch (error) {
+    console.error('Stored forecasts unavailable, forecasting live:', error)
+  }
+
+  return {
+    generated_at: now.toISOString(),
+    model_version: FORECAST_MODEL_VERSION,
+    stored: false,
+    forecasts: await forecastLots(supabaseAdmin, lotIds, times, now)
+  }
+}
+
+// Cache headers for a forecast response: shared caches may keep it briefly,
+// and Last-Modified tells clients when it was computed
+export function forecastCacheHeaders(run: ForecastRun): Record<string, string> {
+  return {
+    'Cache-Control': 'public, s-maxage=60, stale-while-revalidate=300',
+    'Last-Modified': new Date(run.generated_at).toUTCString()
+  }
+}
@@ -0,0 +1,191 @@
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import {
+  buildCalendarProfiles,
+  buildSeasonalProfile,
+  forecastOccupancy,
+  profileAt,
+  SEASONAL_SMOOTHING,
+  type ForecastInput,
+  type HourlyObservation
+} from './forecasting'
+
+// Slots and calendar dates follow the campus clock; pin it so the expected
+// slots below don't depend on the environment
+process.env.NEXT_PUBLIC_CAMPUS_TIMEZONE = 'UTC'
+
+const HOUR_MS = 60 * 60 * 1000
+
+// 2026-10-05 is a Monday
+const MONDAY = Date.UTC(2026, 9, 5)
+
+// Slot of Monday 09:00
+const MONDAY_9 = 24 + 9
+
+// One observation per hour from `start`
+function hourly(start: number, hours: number, occupancy: (time: Date) => number): HourlyObservation[] {
+  return Array.from({ length: hours }, (_, i) => {
+    const time = new Date(start + i * HOUR_MS)
+    return { hour_start: time.toISOString(), avg_occupancy: occupancy(time) }
+  })
+}
+
+function input(overrides: Partial<ForecastInput> = {}): ForecastInput {
+  return {
+    lot_id: 'lot-1',
+    capacity: 100,
+    covered: false,
+    history: [],
+    current_occupancy: null,
+    current_at: null,
+    events: [],
+    campus_capacity: 100,
+    covered_capacity: 0,
+    calendar: [],
+    weather: [],
+    ...overrides
+  }
+}
+
+const regular = () => 'regular'
+
+describe('buildSeasonalProfile', () => {
+  test('starts a slot at its first observation', () => {
+    const profile = buildSeasonalProfile(hourly(MONDAY + 9 * HOUR_MS, 1, () => 40))
+
+    assert.equal(profile.level[MONDAY_9], 40)
+    assert.equal(profile.deviation[MONDAY_9], 0)
+    assert.equal(profile.weeks[MONDAY_9], 1)
+    assert.equal(profile.level[MONDAY_9 + 1], null)
+  })
+
+  test('smooths later weeks into the level and tracks their error', () => {
+    const history = [
+      { hour_start: new Date(MONDAY + 9 * HOUR_MS).toISOString(), avg_occupancy: 40 },
+      { hour_start: new Date(MONDAY + 7 * 24 * HOUR_MS + 9 * HOUR_MS).toISOString(), avg_occupancy: 60 }
+    ]
+    const profile = buildSeasonalProfile(history)
+
+    assert.equal(profile.level[MONDAY_9], 40 + SEASONAL_SMOOTHING * 20)
+    assert.equal(profile.deviation[MONDAY_9], SEASONAL_SMOOTHING * 20)
+    assert.equal(profile.weeks[MONDAY_9], 2)
+  })
+
+  test('buckets hours on the campus clock', () => {
+    process.env.NEXT_PUBLIC_CAMPUS_TIMEZONE = 'America/New_York'
+    try {
+      // 13:00 UTC is 09:00 in New York (EDT) on this date
+      const profile = buildSeasonalProfile(hourly(MONDAY + 13 * HOUR_MS, 1, () => 40))
+      assert.equal(profile.level[MONDAY_9], 40)
+    } finally {
+      process.env.NEXT_PUBLIC_CAMPUS_TIMEZONE = 'UTC'
+    }
+  })
+})
+
+describe('profileAt', () => {
+  const profiles = buildCalendarProfiles(
+    hourly(MONDAY, 24, time => time.getUTCHours() * 2),
+    regular
+  )
+
+  test('is the hour level at the middle of the hour', () => {
+    const match = profileAt(profiles, new Date(MONDAY + 9.5 * HOUR_MS))
+
+    assert.equal(match?.level, 18)
+    assert.equal(match?.weeks, 1)
+  })
+
+  test('interpolates between neighbouring hours', () => {
+    const match = profileAt(profiles, new Date(MONDAY + 10 * HOUR_MS))
+
+    assert.equal(match?.level, 19)
+  })
+
+  test('borrows the same hour from other weekdays, as half the evidence', () => {
+    const tuesday = MONDAY + 24 * HOUR_MS
+    const match = profileAt(profiles, new Date(tuesday + 9.5 * HOUR_MS))
+
+    assert.equal(match?.level, 18)
+    assert.equal(match?.weeks, 0.5)
+  })
+
+  test('prefers days of the same type', () => {
+    const typed = buildCalendarProfiles(
+      [
+        ...hourly(MONDAY, 24, () => 10),
+        ...hourly(MONDAY + 7 * 24 * HOUR_MS, 24, () => 90)
+      ],
+      time => time.getTime() >= MONDAY + 7 * 24 * HOUR_MS ? 'exams' : 'regular'
+    )
+
+    assert.equal(profileAt(typed, new Date(MONDAY + 14 * 24 * HOUR_MS + 9.5 * HOUR_MS))?.level, 90)
+  })
+
+  test('is null without any history', () => {
+    assert.equal(profileAt(buildCalendarProfiles([], regular), new Date(MONDAY)), null)
+  })
+})
+
+describe('forecastOccupancy', () => {
+  const weeks = 4
+  const now = new Date(MONDAY + weeks * 7 * 24 * HOUR_MS + 8 * HOUR_MS)
+  const history = hourly(MONDAY, weeks * 7 * 24 + 8, () => 60)
+  const times = [1, 6, 12].map(hours => new Date(now.getTime() + hours * HOUR_MS))
+
+  test('follows the profile when the lot runs as usual', () => {
+    const points = forecastOccupancy(input({ history }), times, now)
+
+    assert.deepEqual(points.map(point => point.predicted_occupancy), [60, 60, 60])
+    points.forEach(point => {
+      assert.equal(point.components.seasonal, 60)
+      assert.equal(point.components.trend, 0)
+      assert.equal(point.day_type, 'regular')
+    })
+  })
+
+  test('adds a trend from a busier than usual live reading that fades with the horizon', () => {
+    const points = forecastOccupancy(
+      input({ history, current_occupancy: 80, current_at: now.toISOString() }),
+      times,
+      now
+    )
+
+    assert.ok(points[0].predicted_occupancy > 60)
+    assert.ok(points[1].predicted_occupancy < points[0].predicted_occupancy)
+    assert.equal(points[2].predicted_occupancy, 60)
+  })
+
+  test('never forecasts beyond capacity', () => {
+    const points = forecastOccupancy(
+      input({ capacity: 50, history, current_occupancy: 50, current_at: now.toISOString() }),
+      times,
+      now
+    )
+
+    points.forEach(point => assert.ok(point.predicted_occupancy <= 50))
+  })
+
+  test('without history, expects the lot to stay as it is', () => {
+    const [point] = forecastOccupancy(
+      input({ current_occupancy: 30, current_at: now.toISOString() }),
+      times.slice(0, 1),
+      now
+    )
+
+    assert.equal(point.predicted_occupancy, 30)
+    assert.equal(point.confidence, 0.3)
+    assert.equal(point.uncertainty, 15)
+  })
+
+  test('brackets each forecast with its interval', () => {
+    const points = forecastOccupancy(input({ history }), times, now)
+
+    points.forEach(point => {
+      assert.ok(point.interval.p10 <= point.predicted_occupancy)
+      assert.ok(point.interval.p90 >= point.predicted_occupancy)
+      assert.equal(point.interval.p50, point.predicted_occupancy)
+    })
+    assert.ok(points[2].uncertainty >= points[0].uncertainty)
+  })
+})
@@ -0,0 +1,548 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createDayTypeLookup, loadCalendarPeriods, type CalendarPeriodInput } from './academic-calendar'
+import { campusTime, campusTimeZone, utcOffsetMinutes } from './campus-time'
+import { predictionInterval, type PredictionInterval } from './prediction-intervals'
+import { eventContributions, loadPlacedEvents, type EventContribution, type PlacedEvent } from './campus-events'
+import {
+  COVERED_AMENITY,
+  createWeatherLookup,
+  loadWeather,
+  weatherFactor,
+  type WeatherCondition,
+  type WeatherHour
+} from './weather'
+
+// Occupancy forecasting. Each lot gets a seasonal profile, one level per
+// day-of-week/hour slot, learned by exponential smoothing over the hourly
+// rollups so recent weeks count more than old ones. Profiles are kept per
+// academic calendar day type, so exam weeks are forecast from past exam weeks
+// and breaks from past breaks. History is divided by each hour's weather
+// factor first, so the profile describes demand in neutral weather. A forecast
+// is the profile at the target time, scaled by the weather expected then,
+// plus how far the lot currently runs above or below its profile (fading out
+// over a few hours), plus the cars of campus events at nearby venues.
+// The model itself is pure and deterministic; forecastLots loads its inputs
+// and falls back to the SQL predict_occupancy if they can't be loaded.
+
+// Weight of each new week in a slot's level
+export const SEASONAL_SMOOTHING = 0.4
+
+// Weight of each newer residual when estimating the current trend
+export const TREND_SMOOTHING = 0.5
+
+// Recent hours used for the trend rather than the profile
+export const TREND_WINDOW_HOURS = 3
+
+// The trend's effect halves roughly every TREND_DECAY_HOURS * ln 2 hours
+export const TREND_DECAY_HOURS = 2
+
+// Weeks of hourly rollups the profile is built from
+export const HISTORY_WEEKS = 8
+
+// Weeks of data in a slot before it is fully trusted
+const FULL_COVERAGE_WEEKS = 4
+
+// Current occupancy older than this is ignored for the trend
+const CURRENT_READING_MAX_AGE_MINUTES = 30
+
+// Floor on a forecast's typical error, and its value without any history,
+// as shares of capacity
+const MIN_UNCERTAINTY_FRACTION = 0.02
+const NO_HISTORY_UNCERTAINTY_FRACTION = 0.15
+
+// Step sizes (minutes) and longest horizon the campus forecast accepts
+export const FORECAST_RESOLUTIONS = [5, 10, 15, 30, 60]
+export const MAX_FORECAST_HORIZON_HOURS = 72
+
+const SLOTS_PER_WEEK = 7 * 24
+const HOUR_MS = 60 * 60 * 1000
+const PAGE_SIZE = 1000
+
+export type ForecastModel = 'seasonal' | 'sql_fallback'
+
+// Stored with precomputed forecasts; bump whenever forecasts would come out
+// differently, so stored runs can be compared across model changes
+export const FORECAST_MODEL_VERSION = '2026.10-intervals'
+
+export interface HourlyObservation {
+  hour_start: string
+  avg_occupancy: number
+}
+
+// Inputs shared by every lot's forecast
+export interface ForecastContext {
+  events: PlacedEvent[]
+  campus_capacity: number
+  covered_capacity: number // Capacity of lots with the covered amenity
+  calendar: CalendarPeriodInput[]
+  weather: WeatherHour[]
+}
+
+export interface ForecastInput extends ForecastContext {
+  lot_id: string
+  capacity: number
+  covered: boolean
+  history: HourlyObservation[] // Oldest first
+  current_occupancy: number | null
+  current_at: string | null
+}
+
+export interface ForecastPoint {
+  time: string
+  day_type: string | null // Academic calendar day type of `time`; null from the SQL fallback
+  weather: WeatherCondition | null // Weather observed or forecast for `time`, if known
+  predicted_occupancy: number
+  uncertainty: number // Typical absolute error of predicted_occupancy, in cars
+  interval: PredictionInterval // 10th, 50th and 90th percentile occupancy
+  confidence: number
+  components: {
+    seasonal: number
+    weather: number
+    trend: number
+    events: number
+  }
+  events: EventContribution[] // Events adding cars to the lot at `time`
+}
+
+export interface SeasonalProfile {
+  level: Array<number | null>
+  deviation: number[]
+  weeks: number[]
+}
+
+export interface LotForecast {
+  lot_id: string
+  lot_name: string
+  capacity: number
+  current_occupancy: number
+  model: ForecastModel
+  points: ForecastPoint[]
+}
+
+// Day-of-week/hour slot on the campus clock
+function slotOf(time: Date): number {
+  const local = campusTime(time)
+  return local.day_of_week * 24 + local.hour
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10
+}
+
+// Smooth each day-of-week/hour slot's level and its typical absolute error
+// over the observations, oldest first
+export function buildSeasonalProfile(history: HourlyObservation[]): SeasonalProfile {
+  const profile: SeasonalProfile = {
+    level: new Array(SLOTS_PER_WEEK).fill(null),
+    deviation: new Array(SLOTS_PER_WEEK).fill(0),
+    weeks: new Array(SLOTS_PER_WEEK).fill(0)
+  }
+
+  history.forEach(observation => {
+    const slot = slotOf(new Date(observation.hour_start))
+    const value = Number(observation.avg_occupancy)
+    const level = profile.level[slot]
+
+    if (level === null) {
+      profile.level[slot] = value
+    } else {
+      const error = value - level
+      profile.level[slot] = level + SEASONAL_SMOOTHING * error
+      profile.deviation[slot] = (1 - SEASONAL_SMOOTHING) * profile.deviation[slot] + SEASONAL_SMOOTHING * Math.abs(error)
+    }
+    profile.weeks[slot]++
+  })
+
+  return profile
+}
+
+export interface ProfileMatch {
+  level: number
+  weeks: number // Weeks of data behind the level
+  deviation: number // Typical absolute error of the level
+}
+
+// Profiles for comparable days: one per academic calendar day type, plus one
+// over every day for types without enough history of their own
+export interface CalendarProfiles {
+  dayTypeOf: (time: Date) => string
+  byDayType: Map<string, SeasonalProfile>
+  all: SeasonalProfile
+}
+
+export function buildCalendarProfiles(
+  history: HourlyObservation[],
+  dayTypeOf: (time: Date) => string
+): CalendarProfiles {
+  const byType = new Map<string, HourlyObservation[]>()
+  history.forEach(observation => {
+    const dayType = dayTypeOf(new Date(observation.hour_start))
+    const observations = byType.get(dayType)
+    if (observations) {
+      observations.push(observation)
+    } else {
+      byType.set(dayType, [observation])
+    }
+  })
+
+  return {
+    dayTypeOf,
+    byDayType: new Map(Array.from(byType.entries()).map(([dayType, observations]) => [
+      dayType,
+      buildSeasonalProfile(observations)
+    ])),
+    all: buildSeasonalProfile(history)
+  }
+}
+
+// A slot from one profile; an empty slot borrows the same hour on other days
+// of the same kind (weekday/weekend), counted as half the evidence
+function matchSlot(profile: SeasonalProfile, slot: number): ProfileMatch | null {
+  const level = profile.level[slot]
+  if (level !== null) {
+    return { level, weeks: profile.weeks[slot], deviation: profile.deviation[slot] }
+  }
+
+  const hour = slot % 24
+  const weekend = (day: number) => day === 0 || day === 6
+  const dayKind = weekend(Math.floor(slot / 24))
+  const sameHour = [0, 1, 2, 3, 4, 5, 6]
+    .filter(day => weekend(day) === dayKind)
+    .map(day => day * 24 + hour)
+    .filter(candidate => profile.level[candidate] !== null)
+  if (sameHour.length === 0) {
+    return null
+  }
+
+  const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length
+  return {
+    level: mean(sameHour.map(candidate => profile.level[candidate]!)),
+    weeks: mean(sameHour.map(candidate => profile.weeks[candidate])) / 2,
+    deviation: mean(sameHour.map(candidate => profile.deviation[candidate]))
+  }
+}
+
+// The hour slot containing `time`, from days of the same type if there are
+// any, else from all days, else the mean of everything known
+function matchHour(profiles: CalendarProfiles, time: Date): ProfileMatch | null {
+  const slot = slotOf(time)
+  const typed = profiles.byDayType.get(profiles.dayTypeOf(time))
+  const match = (typed && matchSlot(typed, slot)) || matchSlot(profiles.all, slot)
+  if (match) {
+    return match
+  }
+
+  const known = profiles.all.level.filter((value): value is number => value !== null)
+  if (known.length > 0) {
+    return { level: known.reduce((sum, value) => sum + value, 0) / known.length, weeks: 0, deviation: 0 }
+  }
+
+  return null
+}
+
+// Profile value at any time, interpolated between the centres of the
+// neighbouring hours so sub-hour forecasts don't jump on the hour; the
+// evidence behind it is that of the nearer hour
+export function profileAt(profiles: CalendarProfiles, time: Date): ProfileMatch | null {
+  const position = time.getTime() - HOUR_MS / 2
+  const before = Math.floor(position / HOUR_MS) * HOUR_MS
+  const weight = (position - before) / HOUR_MS
+
+  const a = matchHour(profiles, new Date(before))
+  const b = matchHour(profiles, new Date(before + HOUR_MS))
+  if (!a || !b) {
+    return a || b
+  }
+  const nearer = weight < 0.5 ? a : b
+  return { ...nearer, level: a.level + (b.level - a.level) * weight }
+}
+
+// How far the lot currently runs above (+) or below (-) its profile, from the
+// most recent hours and the live reading, newest weighted most
+function currentTrend(
+  profiles: CalendarProfiles,
+  recent: HourlyObservation[],
+  current: { occupancy: number; at: Date } | null
+): number {
+  const residuals: number[] = []
+
+  recent.forEach(observation => {
+    const expected = profileAt(profiles, new Date(new Date(observation.hour_start).getTime() + HOUR_MS / 2))
+    if (expected) {
+      residuals.push(Number(observation.avg_occupancy) - expected.level)
+    }
+  })
+
+  if (current) {
+    const expected = profileAt(profiles, current.at)
+    if (expected) {
+      residuals.push(current.occupancy - expected.level)
+    }
+  }
+
+  if (residuals.length === 0) {
+    return 0
+  }
+  return residuals.slice(1).reduce((trend, residual) => trend + TREND_SMOOTHING * (residual - trend), residuals[0])
+}
+
+// Forecast a lot's occupancy at each of `times`, as seen at `now`
+export function forecastOccupancy(input: ForecastInput, times: Date[], now: Date): ForecastPoint[] {
+  const weatherAt = createWeatherLookup(input.weather)
+  const coveredShare = input.campus_capacity > 0 ? input.covered_capacity / input.campus_capacity : 0
+  const factorAt = (time: Date) => weatherFactor(weatherAt(time), input.covered, coveredShare)
+
+  const history = input.history.map(observation => ({
+    hour_start: observation.hour_start,
+    avg_occupancy: Number(observation.avg_occupancy) / factorAt(new Date(observation.hour_start))
+  }))
+
+  const trendStart = now.getTime() - TREND_WINDOW_HOURS * HOUR_MS
+  const past = history.filter(observation => new Date(observation.hour_start).getTime() < trendStart)
+  const recent = history.filter(observation => {
+    const start = new Date(observation.hour_start).getTime()
+    return start >= trendStart && start <= now.getTime()
+  })
+  const profiles = buildCalendarProfiles(past, createDayTypeLookup(input.calendar))
+  const hasProfile = past.length > 0
+
+  const currentAt = input.current_at ? new Date(input.current_at) : null
+  const current = input.current_occupancy !== null && currentAt &&
+    now.getTime() - currentAt.getTime() <= CURRENT_READING_MAX_AGE_MINUTES * 60 * 1000
+    ? { occupancy: input.current_occupancy / factorAt(currentAt), at: currentAt }
+    : null
+
+  const trend = hasProfile ? currentTrend(profiles, recent, current) : 0
+
+  return times.map(time => {
+    const hoursAhead = Math.max(0, (time.getTime() - now.getTime()) / HOUR_MS)
+    const contributions = eventContributions(time, input.events, input.lot_id)
+    const events = contributions.reduce((sum, contribution) => sum + contribution.cars, 0)
+    const match = hasProfile ? profileAt(profiles, time) : null
+
+    // Without any history, the best guess is that the lot stays as it is,
+    // weather and all
+    const seasonal = match
+      ? match.level
+      : input.current_occupancy ?? 0
+    const weather = weatherAt(time)
+    const weatherEffect = match ? seasonal * (factorAt(time) - 1) : 0
+    const trendEffect = trend * Math.exp(-hoursAhead / TREND_DECAY_HOURS)
+
+    const predicted = Math.max(0, Math.min(input.capacity, Math.round(seasonal + weatherEffect + trendEffect + events)))
+    const uncertainty = forecastUncertainty(match, input.capacity, hoursAhead, current !== null)
+    const components = {
+      seasonal: round1(seasonal),
+      weather: round1(weatherEffect),
+      trend: round1(trendEffect),
+      events: round1(events)
+    }
+
+    return {
+      time: time.toISOString(),
+      day_type: profiles.dayTypeOf(time),
+      weather: weather?.condition ?? null,
+      predicted_occupancy: predicted,
+      uncertainty,
+      interval: predictionInterval({ predicted_occupancy: predicted, uncertainty, components }, input.capacity),
+      confidence: forecastConfidence(match, input.capacity, hoursAhead),
+      components,
+      events: contributions
+    }
+  })
+}
+
+// Typical error in cars: how erratic comparable days have been, doubled while
+// they have little data. A live reading halves it at first (the trend has
+// caught what makes today different), fading like the trend; beyond that it
+// grows with the horizon.
+function forecastUncertainty(match: ProfileMatch | null, capacity: number, hoursAhead: number, live: boolean): number {
+  if (!match) {
+    return round1(capacity * NO_HISTORY_UNCERTAINTY_FRACTION)
+  }
+
+  const base = Math.max(match.deviation, capacity * MIN_UNCERTAINTY_FRACTION)
+  const coverage = Math.min(1, match.weeks / FULL_COVERAGE_WEEKS)
+  const anchored = live ? 0.5 * Math.exp(-hoursAhead / TREND_DECAY_HOURS) : 0
+
+  return round1(base * (2 - coverage) * (1 - anchored) * (1 + hoursAhead / 48))
+}
+
+// 0.3 with no history (as the SQL model), rising towards 0.9 as comparable
+// days gather weeks of data, lowered when they are erratic and for far-off times
+function forecastConfidence(match: ProfileMatch | null, capacity: number, hoursAhead: number): number {
+  if (!match) {
+    return 0.3
+  }
+
+  const coverage = Math.min(1, match.weeks / FULL_COVERAGE_WEEKS)
+  const spread = Math.min(1, match.deviation / Math.max(1, capacity * 0.25))
+  const horizonPenalty = Math.min(0.2, hoursAhead / 120)
+  const confidence = (0.3 + 0.6 * coverage * (1 - 0.5 * spread)) * (1 - horizonPenalty)
+
+  return Math.round(Math.max(0.1, Math.min(0.95, confidence)) * 100) / 100
+}
+
+// Time slots covering the next `horizonHours`, every `resolutionMinutes`,
+// starting at the first slot boundary after `now` so that every request within
+// a slot gets the same time axis. Boundaries are on the campus clock, so
+// hourly slots start on campus hours even in zones offset by a half hour.
+export function forecastTimes(now: Date, horizonHours: number, resolutionMinutes: number): Date[] {
+  const step = resolutionMinutes * 60 * 1000
+  const offset = utcOffsetMinutes(now) * 60 * 1000
+  const first = Math.floor((now.getTime() + offset) / step) * step + step - offset
+  const count = Math.floor((horizonHours * HOUR_MS) / step)
+  return Array.from({ length: count }, (_, i) => new Date(first + i * step))
+}
+
+// Hourly rollups since `since` for the given lots, oldest first, paged past
+// the API's row limit
+export async function loadHourlyHistory(
+  supabaseAdmin: SupabaseClient,
+  lotIds: string[],
+  since: Date
+): Promise<Map<string, HourlyObservation[]>> {
+  const byLot = new Map<string, HourlyObservation[]>()
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabaseAdmin
+      .from('occupancy_hourly')
+      .select('lot_id, hour_start, avg_occupancy')
+      .in('lot_id', lotIds)
+      .gte('hour_start', since.toISOString())
+      .order('hour_start')
+      .order('lot_id')
+      .range(from, from + PAGE_SIZE - 1)
+
+    if (error) {
+      throw error
+    }
+
+    data?.forEach(row => {
+      const rows = byLot.get(row.lot_id)
+      if (rows) {
+        rows.push(row)
+      } else {
+        byLot.set(row.lot_id, [row])
+      }
+    })
+
+    if (!data || data.length < PAGE_SIZE) {
+      return byLot
+    }
+  }
+}
+
+// One point per time from the SQL predict_occupancy, for when the rollups
+// can't be read
+async function sqlForecast(
+  supabaseAdmin: SupabaseClient,
+  lot_id: string,
+  capacity: number,
+  times: Date[]
+): Promise<ForecastPoint[]> {
+  const points: ForecastPoint[] = []
+
+  for (const time of times) {
+    const { data, error } = await supabaseAdmin.rpc('predict_occupancy', {
+      lot_id,
+      prediction_time: time.toISOString(),
+      campus_timezone: campusTimeZone()
+    })
+
+    if (error) {
+      console.error(`Fallback prediction error for ${time.toISOString()}:`, error)
+      continue
+    }
+
+    const prediction = data?.[0] || { predicted_occupancy: 0, confidence: 0.3 }
+    const forecast = {
+      predicted_occupancy: prediction.predicted_occupancy,
+      uncertainty: round1(capacity * NO_HISTORY_UNCERTAINTY_FRACTION),
+      components: { seasonal: prediction.predicted_occupancy, weather: 0, trend: 0, events: 0 }
+    }
+    points.push({
+      ...forecast,
+      time: time.toISOString(),
+      day_type: null,
+      weather: null,
+      interval: predictionInterval(forecast, capacity),
+      confidence: Number(prediction.confidence),
+      events: []
+    })
+  }
+
+  return points
+}
+
+// Forecast the given lots (all lots when null) at each of `times`. Lots that
+// don't exist are left out of the result.
+export async function forecastLots(
+  supabaseAdmin: SupabaseClient,
+  lotIds: string[] | null,
+  times: Date[],
+  now: Date = new Date()
+): Promise<LotForecast[]> {
+  const { data: allLots, error: lotsError } = await supabaseAdmin
+    .from('parking_lots')
+    .select('id, name, capacity, current_occupancy, last_reading_at, amenities, location')
+    .order('name')
+
+  if (lotsError) {
+    throw lotsError
+  }
+
+  const isCovered = (lot: { amenities: string[] | null }) => (lot.amenities || []).includes(COVERED_AMENITY)
+  const campus_capacity = (allLots || []).reduce((sum, lot) => sum + lot.capacity, 0)
+  const covered_capacity = (allLots || []).filter(isCovered).reduce((sum, lot) => sum + lot.capacity, 0)
+  const lots = (allLots || []).filter(lot => !lotIds || lotIds.includes(lot.id))
+  if (lots.length === 0) {
+    return []
+  }
+
+  const lastTime = times.reduce((latest, time) => Math.max(latest, time.getTime()), now.getTime())
+
+  const historyStart = new Date(now.getTime() - HISTORY_WEEKS * 7 * 24 * HOUR_MS)
+
+  let history: Map<string, HourlyObservation[]>
+  let events: PlacedEvent[]
+  let calendar: CalendarPeriodInput[]
+  let weather: WeatherHour[]
+  try {
+    history = await loadHourlyHistory(supabaseAdmin, lots.map(lot => lot.id), historyStart)
+    calendar = await loadCalendarPeriods(supabaseAdmin, historyStart, new Date(lastTime))
+    weather = await loadWeather(supabaseAdmin, historyStart, new Date(lastTime))
+    events = await loadPlacedEvents(supabaseAdmin, now, new Date(lastTime), allLots || [])
+  } catch (error) {
+    console.error('Forecast inputs unavailable, falling back to predict_occupancy:', error)
+    return Promise.all(lots.map(async lot => ({
+      lot_id: lot.id,
+      lot_name: lot.name,
+      capacity: lot.capacity,
+      current_occupancy: lot.current_occupancy,
+      model: 'sql_fallback' as const,
+      points: await sqlForecast(supabaseAdmin, lot.id, lot.capacity, times)
+    })))
+  }
+
+  return lots.map(lot => ({
+    lot_id: lot.id,
+    lot_name: lot.name,
+    capacity: lot.capacity,
+    current_occupancy: lot.current_occupancy,
+    model: 'seasonal' as const,
+    points: forecastOccupancy({
+      lot_id: lot.id,
+      capacity: lot.capacity,
+      covered: isCovered(lot),
+      history: history.get(lot.id) || [],
+      current_occupancy: lot.current_occupancy,
+      current_at: lot.last_reading_at,
+      events,
+      campus_capacity,
+      covered_capacity,
+      calendar,
+      weather
+    }, times, now)
+  }))
+}
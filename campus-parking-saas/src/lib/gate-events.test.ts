@@ -0,0 +1,58 @@
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { gateEventDelta, validateGateEvent } from './gate-events'
+
+const timestamp = '2026-10-05T09:00:00.000Z'
+
+describe('validateGateEvent', () => {
+  test("counts a single vehicle against the device's lot by default", () => {
+    assert.deepEqual(validateGateEvent({ direction: 'entry', timestamp }, 'lot-1'), {
+      ok: true,
+      event: { lot_id: 'lot-1', zone_id: null, direction: 'entry', vehicle_count: 1, timestamp, event_id: null }
+    })
+  })
+
+  test("keeps the count, the zone of zone counters and the device's event id", () => {
+    const validation = validateGateEvent({ direction: 'exit', count: 3, timestamp, event_id: 'gate-7:1042' }, 'lot-1', 'zone-1')
+
+    assert.deepEqual(validation, {
+      ok: true,
+      event: { lot_id: 'lot-1', zone_id: 'zone-1', direction: 'exit', vehicle_count: 3, timestamp, event_id: 'gate-7:1042' }
+    })
+  })
+
+  test('ignores a lot or zone named in the event', () => {
+    const validation = validateGateEvent({ direction: 'entry', lot_id: 'lot-2', zone_id: 'zone-2' }, 'lot-1')
+
+    assert.ok(validation.ok)
+    assert.equal(validation.event.lot_id, 'lot-1')
+    assert.equal(validation.event.zone_id, null)
+  })
+
+  test('rejects unknown directions and counts that are not positive integers', () => {
+    assert.equal(validateGateEvent({ direction: 'in' }, 'lot-1').ok, false)
+    assert.equal(validateGateEvent({ direction: 'entry', count: 0 }, 'lot-1').ok, false)
+    assert.equal(validateGateEvent({ direction: 'entry', count: 1.5 }, 'lot-1').ok, false)
+    assert.equal(validateGateEvent(null, 'lot-1').ok, false)
+  })
+
+  test('rejects blank event ids', () => {
+    assert.equal(validateGateEvent({ direction: 'entry', event_id: '' }, 'lot-1').ok, false)
+    assert.equal(validateGateEvent({ direction: 'entry', event_id: 42 }, 'lot-1').ok, false)
+  })
+
+  test('rejects bad and future timestamps', () => {
+    assert.deepEqual(validateGateEvent({ direction: 'entry', timestamp: 'now' }, 'lot-1'), { ok: false, error: 'Invalid timestamp' })
+    assert.deepEqual(
+      validateGateEvent({ direction: 'entry', timestamp: new Date(Date.now() + 5 * 60 * 1000).toISOString() }, 'lot-1'),
+      { ok: false, error: 'Timestamp is in the future' }
+    )
+  })
+})
+
+describe('gateEventDelta', () => {
+  test('adds entries and subtracts exits', () => {
+    assert.equal(gateEventDelta({ direction: 'entry', vehicle_count: 2 }), 2)
+    assert.equal(gateEventDelta({ direction: 'exit', vehicle_count: 3 }), -3)
+  })
+})
@@ -0,0 +1,241 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { FUTURE_READING_TOLERANCE_MS, recordLotRollups } from './occupancy-ingest'
+import { rollupLateReadings } from './occupancy-rollups'
+
+export type GateDirection = 'entry' | 'exit'
+
+export interface GateEvent {
+  lot_id: string
+  zone_id: string | null
+  direction: GateDirection
+  vehicle_count: number
+  timestamp: string
+  // Device-assigned id that lets a retried event be recognised and skipped
+  event_id: string | null
+}
+
+export type GateEventValidation =
+  | { ok: true; event: GateEvent }
+  | { ok: false; error: string }
+
+export interface AppliedGateEvent extends GateEvent {
+  resulting_occupancy: number
+}
+
+export interface ReconciliationResult {
+  lot_id: string
+  reference_count: number
+  reference_time: string
+  event_delta: number
+  previous_occupancy: number
+  reconciled_occupancy: number
+}
+
+// How far back the reconciliation job looks for absolute counts
+export const RECONCILE_WINDOW_HOURS = 6
+
+// Events always count against the sending device's lot, and its zone if the
+// device is a zone (e.g. level ramp) counter
+export function validateGateEvent(
+  item: unknown,
+  lot_id: string,
+  zone_id: string | null = null
+): GateEventValidation {
+  if (!item || typeof item !== 'object') {
+    return { ok: false, error: 'Invalid event' }
+  }
+
+  const { direction, count, timestamp, event_id } = item as Record<string, unknown>
+
+  if (direction !== 'entry' && direction !== 'exit') {
+    return { ok: false, error: "direction must be 'entry' or 'exit'" }
+  }
+
+  if (event_id !== undefined && event_id !== null && (typeof event_id !== 'string' || !event_id)) {
+    return { ok: false, error: 'event_id must be a non-empty string' }
+  }
+
+  const vehicle_count = count === undefined ? 1 : count
+  if (typeof vehicle_count !== 'number' || !Number.isInteger(vehicle_count) || vehicle_count < 1) {
+    return { ok: false, error: 'count must be a positive integer' }
+  }
+
+  let eventTime = new Date()
+  if (timestamp !== undefined && timestamp !== null) {
+    eventTime = new Date(timestamp as string)
+    if (typeof timestamp !== 'string' || isNaN(eventTime.getTime())) {
+      return { ok: false, error: 'Invalid timestamp' }
+    }
+    if (eventTime.getTime() > Date.now() + FUTURE_READING_TOLERANCE_MS) {
+      return { ok: false, error: 'Timestamp is in the future' }
+    }
+  }
+
+  return {
+    ok: true,
+    event: {
+      lot_id,
+      zone_id,
+      direction,
+      vehicle_count,
+      timestamp: eventTime.toISOString(),
+      event_id: (event_id as string | undefined) || null
+    }
+  }
+}
+
+export function gateEventDelta(event: Pick<GateEvent, 'direction' | 'vehicle_count'>): number {
+  return event.direction === 'entry' ? event.vehicle_count : -event.vehicle_count
+}
+
+// Apply one device's gate events to its lot's (or zone's) occupancy in
+// timestamp order. The whole batch goes through apply_gate_events in one
+// transaction: each delta is applied atomically and clamped to 0..capacity,
+// and the gate_events and occupancy_history rows are written with it, so a
+// failure leaves nothing half applied. Events carrying an event_id the device
+// already sent are skipped and left out of the result.
+export async function applyGateEvents(
+  supabaseAdmin: SupabaseClient,
+  device_id: string,
+  events: GateEvent[]
+): Promise<AppliedGateEvent[]> {
+  if (events.length === 0) {
+    return []
+  }
+
+  const { lot_id, zone_id } = events[0]
+  const { data, error } = await supabaseAdmin.rpc('apply_gate_events', {
+    target_device_id: device_id,
+    target_lot_id: lot_id,
+    target_zone_id: zone_id,
+    batch: events.map(({ event_id, direction, vehicle_count, timestamp }) => ({
+      event_id,
+      direction,
+      vehicle_count,
+      timestamp
+    }))
+  })
+
+  if (error) {
+    throw error
+  }
+
+  const applied: AppliedGateEvent[] = (data || []).map((row: AppliedGateEvent) => ({
+    lot_id: row.lot_id,
+    zone_id: row.zone_id,
+    direction: row.direction,
+    vehicle_count: row.vehicle_count,
+    timestamp: new Date(row.timestamp).toISOString(),
+    event_id: row.event_id,
+    resulting_occupancy: row.resulting_occupancy
+  }))
+
+  if (applied.length > 0 && zone_id) {
+    await recordLotRollups(supabaseAdmin, [lot_id], 'sensor', applied[applied.length - 1].timestamp)
+  }
+  await rollupLateReadings(supabaseAdmin, applied.map(event => event.timestamp))
+
+  return applied
+}
+
+// For every lot that received gate events recently and also has an absolute
+// count in the window, replay the events after the latest count on top of it
+// and correct current_occupancy by the difference. Events keep accumulating
+// drift (missed loops, tailgating); absolute counts anchor them. Zone gate
+// counters are not reconciled here: zoned lots take their totals from zones.
+export async function reconcileGateCounts(
+  supabaseAdmin: SupabaseClient,
+  now: Date = new Date()
+): Promise<ReconciliationResult[]> {
+  const since = new Date(now.getTime() - RECONCILE_WINDOW_HOURS * 60 * 60 * 1000).toISOString()
+
+  const { data: recentEvents, error: eventsError } = await supabaseAdmin
+    .from('gate_events')
+    .select('lot_id')
+    .is('zone_id', null)
+    .gte('timestamp', since)
+
+  if (eventsError) {
+    throw eventsError
+  }
+
+  const lotIds = Array.from(new Set((recentEvents || []).map(e => e.lot_id)))
+  const results: ReconciliationResult[] = []
+
+  for (const lot_id of lotIds) {
+    const { data: reference } = await supabaseAdmin
+      .from('occupancy_history')
+      .select('occupancy_count, timestamp')
+      .eq('lot_id', lot_id)
+      .is('zone_id', null)
+      .eq('reading_type', 'count')
+      .gte('timestamp', since)
+      .order('timestamp', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (!reference) {
+      continue
+    }
+
+    const { data: laterEvents, error: laterError } = await supabaseAdmin
+      .from('gate_events')
+      .select('direction, vehicle_count')
+      .eq('lot_id', lot_id)
+      .is('zone_id', null)
+      .gt('timestamp', reference.timestamp)
+
+    if (laterError) {
+      throw laterError
+    }
+
+    const { data: lot, error: lotError } = await supabaseAdmin
+      .from('parking_lots')
+      .select('capacity, current_occupancy')
+      .eq('id', lot_id)
+      .single()
+
+    if (lotError || !lot) {
+      continue
+    }
+
+    const event_delta = (laterEvents || []).reduce((sum, e) => sum + gateEventDelta(e), 0)
+    const expected = Math.max(0, Math.min(lot.capacity, reference.occupancy_count + event_delta))
+    const correction = expected - lot.current_occupancy
+
+    if (correction === 0) {
+      continue
+    }
+
+    // Apply as a delta so events arriving during reconciliation aren't lost
+    const { data: reconciled_occupancy, error: deltaError } = await supabaseAdmin.rpc('apply_occupancy_delta', {
+      target_lot_id: lot_id,
+      delta: correction
+    })
+
+    if (deltaError) {
+      throw deltaError
+    }
+
+    const result: ReconciliationResult = {
+      lot_id,
+      reference_count: reference.occupancy_count,
+      reference_time: reference.timestamp,
+      event_delta,
+      previous_occupancy: lot.current_occupancy,
+      reconciled_occupancy
+    }
+
+    const { error: logError } = await supabaseAdmin
+      .from('occupancy_reconciliations')
+      .insert(result)
+
+    if (logError) {
+      console.error('Error recording occupancy reconciliation:', logError)
+    }
+
+    results.push(result)
+  }
+
+  return results
+}
@@ -0,0 +1,193 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { FUTURE_READING_TOLERANCE_MS, applyReading, recordLotRollups, type OccupancyReading } from './occupancy-ingest'
+import { loadRawSensorCount, updateDriftEstimate } from './drift-correction'
+import { rollupLateReadings } from './occupancy-rollups'
+
+// Headcounts submitted by officers on walk-throughs. Every count is stored in
+// manual_counts alongside the sensor value it was compared with, so sensor
+// accuracy can be tracked; authoritative counts also replace the lot's (or
+// zone's) current occupancy and enter occupancy_history as 'manual'. Lot-wide
+// counts also feed the lot's sensor drift estimate.
+
+// Longest window of past counts the accuracy view can ask for
+export const MAX_MANUAL_COUNT_HISTORY_DAYS = 365
+
+export interface ManualCountInput {
+  lot_id: string
+  zone_id: string | null
+  occupancy_count: number
+  counted_at: string
+  authoritative: boolean
+  notes: string | null
+}
+
+export type ManualCountValidation =
+  | { ok: true; count: ManualCountInput }
+  | { ok: false; error: string }
+
+export interface ManualCount extends ManualCountInput {
+  id: string
+  sensor_occupancy: number
+  discrepancy: number
+  applied: boolean
+}
+
+export type ManualCountResult =
+  | { ok: true; count: ManualCount }
+  | { ok: false; status: number; error: string }
+
+export function validateManualCount(item: unknown): ManualCountValidation {
+  if (!item || typeof item !== 'object') {
+    return { ok: false, error: 'Invalid count' }
+  }
+
+  const { lot_id, zone_id, occupancy_count, counted_at, authoritative, notes } = item as Record<string, unknown>
+
+  if (typeof lot_id !== 'string' || !lot_id) {
+    return { ok: false, error: 'lot_id is required' }
+  }
+
+  if (zone_id !== undefined && zone_id !== null && typeof zone_id !== 'string') {
+    return { ok: false, error: 'Invalid zone_id' }
+  }
+
+  if (typeof occupancy_count !== 'number' || !Number.isInteger(occupancy_count) || occupancy_count < 0) {
+    return { ok: false, error: 'occupancy_count must be a non-negative integer' }
+  }
+
+  let countedAt = new Date()
+  if (counted_at !== undefined && counted_at !== null) {
+    countedAt = new Date(counted_at as string)
+    if (typeof counted_at !== 'string' || isNaN(countedAt.getTime())) {
+      return { ok: false, error: 'Invalid counted_at' }
+    }
+    if (countedAt.getTime() > Date.now() + FUTURE_READING_TOLERANCE_MS) {
+      return { ok: false, error: 'counted_at is in the future' }
+    }
+  }
+
+  return {
+    ok: true,
+    count: {
+      lot_id,
+      zone_id: (zone_id as string | undefined) || null,
+      occupancy_count,
+      counted_at: countedAt.toISOString(),
+      authoritative: authoritative === true,
+      notes: typeof notes === 'string' && notes.trim() ? notes.trim() : null
+    }
+  }
+}
+
+// What the sensors showed for the counted lot (or zone) when the count was
+// taken: the newest sensor reading at or before counted_at, so a count
+// entered after the fact is compared with the occupancy of its own time.
+// Null if there is no such reading.
+async function loadSensorOccupancyAt(
+  supabaseAdmin: SupabaseClient,
+  count: ManualCountInput
+): Promise<number | null> {
+  let query = supabaseAdmin
+    .from('occupancy_history')
+    .select('occupancy_count')
+    .eq('lot_id', count.lot_id)
+    .eq('source', 'sensor')
+
+  query = count.zone_id ? query.eq('zone_id', count.zone_id) : query.is('zone_id', null)
+
+  const { data: reading, error } = await query
+    .lte('timestamp', count.counted_at)
+    .order('timestamp', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (error) {
+    throw error
+  }
+
+  return reading ? reading.occupancy_count : null
+}
+
+// Compare a count with the sensor value at the time it was taken, store it,
+// and apply it if authoritative
+export async function recordManualCount(
+  supabaseAdmin: SupabaseClient,
+  officer_id: string,
+  count: ManualCountInput
+): Promise<ManualCountResult> {
+  let query = supabaseAdmin
+    .from(count.zone_id ? 'lot_zones' : 'parking_lots')
+    .select('capacity, current_occupancy')
+    .eq('id', count.zone_id || count.lot_id)
+
+  if (count.zone_id) {
+    query = query.eq('lot_id', count.lot_id)
+  }
+
+  const { data: target, error: targetError } = await query.maybeSingle()
+
+  if (targetError) {
+    throw targetError
+  }
+  if (!target) {
+    return { ok: false, status: 404, error: count.zone_id ? 'Zone not found in this lot' : 'Lot not found' }
+  }
+  if (count.occupancy_count > target.capacity) {
+    return { ok: false, status: 400, error: 'Count exceeds capacity' }
+  }
+
+  const sensor_occupancy = (await loadSensorOccupancyAt(supabaseAdmin, count)) ?? target.current_occupancy
+  const discrepancy = count.occupancy_count - sensor_occupancy
+
+  let applied = false
+  if (count.authoritative) {
+    const reading: OccupancyReading = {
+      lot_id: count.lot_id,
+      zone_id: count.zone_id,
+      occupancy_count: count.occupancy_count,
+      timestamp: count.counted_at
+    }
+
+    const { error: historyError } = await supabaseAdmin
+      .from('occupancy_history')
+      .insert({ ...reading, source: 'manual' })
+
+    if (historyError) {
+      throw historyError
+    }
+
+    applied = await applyReading(supabaseAdmin, reading)
+    if (applied && reading.zone_id) {
+      await recordLotRollups(supabaseAdmin, [reading.lot_id], 'manual', reading.timestamp)
+    }
+    await rollupLateReadings(supabaseAdmin, [reading.timestamp])
+  }
+
+  const { data: saved, error: saveError } = await supabaseAdmin
+    .from('manual_counts')
+    .insert({
+      ...count,
+      officer_id,
+      sensor_occupancy,
+      discrepancy,
+      applied
+    })
+    .select('id')
+    .single()
+
+  if (saveError) {
+    throw saveError
+  }
+
+  if (!count.zone_id) {
+    const raw_sensor_count = await loadRawSensorCount(supabaseAdmin, count.lot_id, new Date(count.counted_at))
+    if (raw_sensor_count !== null) {
+      await updateDriftEstimate(supabaseAdmin, count.lot_id, 'manual_count', count.occupancy_count, raw_sensor_count)
+    }
+  }
+
+  return {
+    ok: true,
+    count: { ...count, id: saved.id, sensor_occupancy, discrepancy, applied }
+  }
+}
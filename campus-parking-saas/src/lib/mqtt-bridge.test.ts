@@ -0,0 +1,88 @@
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { loadMqttBridgeConfig, parseMqttPayload, resolveTopic, type MqttBridgeConfig } from './mqtt-bridge'
+
+const CONFIG: MqttBridgeConfig = {
+  brokerUrl: 'mqtt://localhost:1883',
+  topicPrefix: 'parking',
+  topicMap: { 'legacy/lot-a/count': { device_id: 'counter-a', kind: 'occupancy' } }
+}
+
+describe('loadMqttBridgeConfig', () => {
+  test('falls back to a local broker under the parking prefix', () => {
+    assert.deepEqual(loadMqttBridgeConfig({}), {
+      brokerUrl: 'mqtt://localhost:1883',
+      username: undefined,
+      password: undefined,
+      topicPrefix: 'parking',
+      topicMap: {}
+    })
+  })
+
+  test('reads the broker and credentials from the environment', () => {
+    const config = loadMqttBridgeConfig({
+      MQTT_BROKER_URL: 'mqtts://broker.example.edu:8883',
+      MQTT_USERNAME: 'bridge',
+      MQTT_PASSWORD: 'secret',
+      MQTT_TOPIC_PREFIX: 'campus/parking//'
+    })
+
+    assert.equal(config.brokerUrl, 'mqtts://broker.example.edu:8883')
+    assert.equal(config.username, 'bridge')
+    assert.equal(config.password, 'secret')
+    assert.equal(config.topicPrefix, 'campus/parking')
+  })
+})
+
+describe('resolveTopic', () => {
+  test('reads the device and kind after the prefix', () => {
+    assert.deepEqual(resolveTopic('parking/gate-1/events', CONFIG), { device_id: 'gate-1', kind: 'events' })
+    assert.deepEqual(resolveTopic('parking/counter-2/occupancy', CONFIG), { device_id: 'counter-2', kind: 'occupancy' })
+  })
+
+  test('prefers the topic map', () => {
+    assert.deepEqual(resolveTopic('legacy/lot-a/count', CONFIG), { device_id: 'counter-a', kind: 'occupancy' })
+  })
+
+  test('ignores other prefixes, unknown kinds and extra segments', () => {
+    assert.equal(resolveTopic('other/gate-1/events', CONFIG), null)
+    assert.equal(resolveTopic('parkingx/gate-1/events', CONFIG), null)
+    assert.equal(resolveTopic('parking/gate-1/status', CONFIG), null)
+    assert.equal(resolveTopic('parking/gate-1/events/extra', CONFIG), null)
+    assert.equal(resolveTopic('parking//events', CONFIG), null)
+  })
+})
+
+describe('parseMqttPayload', () => {
+  test('takes occupancy readings singly or as an array', () => {
+    assert.deepEqual(parseMqttPayload('occupancy', '{"occupancy_count":12}'), {
+      ok: true,
+      body: { occupancy_count: 12 },
+      items: [{ occupancy_count: 12 }]
+    })
+
+    const batch = parseMqttPayload('occupancy', '[{"occupancy_count":12},{"occupancy_count":13}]')
+    assert.ok(batch.ok)
+    assert.equal(batch.items.length, 2)
+  })
+
+  test('takes gate and stall events singly or batched under events', () => {
+    const single = parseMqttPayload('events', '{"direction":"in"}')
+    const batched = parseMqttPayload('stalls', '{"events":[{"stall_id":"s1"},{"stall_id":"s2"}]}')
+
+    assert.ok(single.ok && batched.ok)
+    assert.deepEqual(single.items, [{ direction: 'in' }])
+    assert.deepEqual(batched.items, [{ stall_id: 's1' }, { stall_id: 's2' }])
+  })
+
+  test('treats an empty heartbeat as an empty object', () => {
+    assert.deepEqual(parseMqttPayload('heartbeat', '  '), { ok: true, body: {}, items: [{}] })
+  })
+
+  test('rejects bad JSON and bare values', () => {
+    assert.deepEqual(parseMqttPayload('occupancy', '{occupancy'), { ok: false, error: 'Invalid JSON payload' })
+    assert.deepEqual(parseMqttPayload('events', '42'), { ok: false, error: 'Payload must be a JSON object or array' })
+    assert.deepEqual(parseMqttPayload('events', 'null'), { ok: false, error: 'Payload must be a JSON object or array' })
+    assert.equal(parseMqttPayload('heartbeat', '[]').ok, false)
+  })
+})
@@ -0,0 +1,272 @@
+import { readFileSync } from 'fs'
+import mqtt, { type MqttClient } from 'mqtt'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { recordSensorAuthFailure, type SensorAuthFailureReason } from './sensor-auth'
+import { loadLotCapacities, validateReading, ingestReadings, scopeReadingToDevice, type ReadingAction } from './occupancy-ingest'
+import { validateGateEvent, applyGateEvents, type GateEvent } from './gate-events'
+import { isHeartbeatBody, recordHeartbeat } from './sensor-health'
+import { validateStallEvent, loadStalls, stallBelongsToDevice, applyStallEvents, type StallEvent } from './stall-events'
+
+// Subscribes to sensor topics on an MQTT broker and feeds messages through the
+// same validation and history-writing code as the /api/sensors/* routes.
+//
+// Devices publish to `<prefix>/<device_id>/<kind>` where kind is one of
+// `occupancy` ({occupancy_count, timestamp?} or an array of them),
+// `events` (a gate event or {events: [...]}), `stalls` (a stall event or
+// {events: [...]}) or `heartbeat`.
+// Hardware with fixed topics can be mapped explicitly via a topic map file.
+// Devices are authenticated by the broker (credentials + ACLs), so payloads
+// are not HMAC-signed; the device must still be registered and enabled.
+
+export type MqttMessageKind = 'occupancy' | 'events' | 'stalls' | 'heartbeat'
+
+export interface TopicRoute {
+  device_id: string
+  kind: MqttMessageKind
+}
+
+export interface MqttBridgeConfig {
+  brokerUrl: string
+  username?: string
+  password?: string
+  topicPrefix: string
+  topicMap: Record<string, TopicRoute>
+}
+
+export interface MqttMessageResult {
+  device_id: string
+  kind: MqttMessageKind
+  ok: boolean
+  error?: string
+  actions?: ReadingAction[]
+}
+
+const MESSAGE_KINDS: MqttMessageKind[] = ['occupancy', 'events', 'stalls', 'heartbeat']
+
+export function loadMqttBridgeConfig(env: Record<string, string | undefined> = process.env): MqttBridgeConfig {
+  const topicMap = env.MQTT_TOPIC_MAP_FILE
+    ? JSON.parse(readFileSync(env.MQTT_TOPIC_MAP_FILE, 'utf8'))
+    : {}
+
+  return {
+    brokerUrl: env.MQTT_BROKER_URL || 'mqtt://localhost:1883',
+    username: env.MQTT_USERNAME || undefined,
+    password: env.MQTT_PASSWORD || undefined,
+    topicPrefix: (env.MQTT_TOPIC_PREFIX || 'parking').replace(/\/+$/, ''),
+    topicMap
+  }
+}
+
+// Work out which device and message kind a topic belongs to
+export function resolveTopic(topic: string, config: MqttBridgeConfig): TopicRoute | null {
+  const mapped = config.topicMap[topic]
+  if (mapped) {
+    return mapped
+  }
+
+  const prefix = `${config.topicPrefix}/`
+  if (!topic.startsWith(prefix)) {
+    return null
+  }
+
+  const [device_id, kind, ...rest] = topic.slice(prefix.length).split('/')
+  if (!device_id || rest.length > 0 || !MESSAGE_KINDS.includes(kind as MqttMessageKind)) {
+    return null
+  }
+
+  return { device_id, kind: kind as MqttMessageKind }
+}
+
+export type MqttPayload =
+  | { ok: true; body: Record<string, unknown>; items: unknown[] }
+  | { ok: false; error: string }
+
+// Parse a message body and pick out the items it carries. An empty payload is
+// an empty object, so a bare heartbeat needs no body.
+export function parseMqttPayload(kind: MqttMessageKind, payload: string): MqttPayload {
+  let parsed: unknown = {}
+  if (payload.trim()) {
+    try {
+      parsed = JSON.parse(payload)
+    } catch {
+      return { ok: false, error: 'Invalid JSON payload' }
+    }
+  }
+
+  // Occupancy payloads may be arrays; every other kind is a single object
+  if (!parsed || typeof parsed !== 'object') {
+    return { ok: false, error: 'Payload must be a JSON object or array' }
+  }
+  const body = parsed as Record<string, unknown>
+
+  if (kind === 'heartbeat') {
+    if (!isHeartbeatBody(body)) {
+      return { ok: false, error: 'Heartbeat payload must be a JSON object' }
+    }
+    return { ok: true, body, items: [body] }
+  }
+
+  if (kind === 'occupancy') {
+    return { ok: true, body, items: Array.isArray(body) ? body : [body] }
+  }
+
+  // Gate and stall events come one at a time or batched as {events: [...]}
+  return { ok: true, body, items: Array.isArray(body.events) ? body.events : [body] }
+}
+
+async function rejectMessage(
+  supabaseAdmin: SupabaseClient,
+  route: TopicRoute,
+  reason: SensorAuthFailureReason,
+  lot_id: string | null
+): Promise<MqttMessageResult> {
+  await recordSensorAuthFailure(supabaseAdmin, {
+    device_id: route.device_id,
+    lot_id,
+    reason,
+    ip_address: null
+  })
+  return { ...route, ok: false, error: reason }
+}
+
+export async function handleMqttMessage(
+  supabaseAdmin: SupabaseClient,
+  route: TopicRoute,
+  payload: string
+): Promise<MqttMessageResult> {
+  const { data: device } = await supabaseAdmin
+    .from('sensor_devices')
+    .select('id, lot_id, zone_id, enabled')
+    .eq('id', route.device_id)
+    .single()
+
+  if (!device) {
+    return rejectMessage(supabaseAdmin, route, 'unknown_device', null)
+  }
+  if (!device.enabled) {
+    return rejectMessage(supabaseAdmin, route, 'device_disabled', device.lot_id)
+  }
+
+  const parsed = parseMqttPayload(route.kind, payload)
+  if (!parsed.ok) {
+    return { ...route, ok: false, error: parsed.error }
+  }
+  const { body, items } = parsed
+
+  const receivedAt = new Date().toISOString()
+
+  if (route.kind === 'heartbeat') {
+    await recordHeartbeat(supabaseAdmin, device.id, body, receivedAt)
+    return { ...route, ok: true }
+  }
+
+  await supabaseAdmin
+    .from('sensor_devices')
+    .update({ last_seen_at: receivedAt })
+    .eq('id', device.id)
+
+  if (route.kind === 'events') {
+    if ((body.lot_id ?? device.lot_id) !== device.lot_id) {
+      return rejectMessage(supabaseAdmin, route, 'lot_mismatch', device.lot_id)
+    }
+
+    const events: GateEvent[] = []
+    for (const item of items) {
+      const validation = validateGateEvent(item, device.lot_id, device.zone_id)
+      if (!validation.ok) {
+        return { ...route, ok: false, error: validation.error }
+      }
+      events.push(validation.event)
+    }
+
+    await applyGateEvents(supabaseAdmin, device.id, events)
+    return { ...route, ok: true }
+  }
+
+  if (route.kind === 'stalls') {
+    const events: StallEvent[] = []
+    for (const item of items) {
+      const validation = validateStallEvent(item)
+      if (!validation.ok) {
+        return { ...route, ok: false, error: validation.error }
+      }
+      events.push(validation.event)
+    }
+
+    const stalls = await loadStalls(supabaseAdmin, events.map(event => event.stall_id))
+    if (events.some(event => !stalls.has(event.stall_id))) {
+      return { ...route, ok: false, error: 'Unknown stall_id' }
+    }
+    if (events.some(event => !stallBelongsToDevice(stalls.get(event.stall_id)!, device))) {
+      return rejectMessage(supabaseAdmin, route, 'lot_mismatch', device.lot_id)
+    }
+
+    await applyStallEvents(supabaseAdmin, device.id, events, stalls)
+    return { ...route, ok: true }
+  }
+
+  // Readings default to the device's own lot and zone; naming another is rejected
+  const readings = items.map(item => scopeReadingToDevice(item, device))
+  if (readings.some(item => item === null)) {
+    return rejectMessage(supabaseAdmin, route, 'lot_mismatch', device.lot_id)
+  }
+
+  const lots = await loadLotCapacities(supabaseAdmin, [device.lot_id])
+  const accepted = []
+  for (const item of readings) {
+    const validation = validateReading(item, lots)
+    if (!validation.ok) {
+      return { ...route, ok: false, error: validation.error }
+    }
+    accepted.push(validation.reading)
+  }
+
+  const outcomes = await ingestReadings(supabaseAdmin, accepted, lots)
+  return { ...route, ok: true, actions: outcomes.map(outcome => outcome.action) }
+}
+
+export function startMqttBridge(supabaseAdmin: SupabaseClient, config: MqttBridgeConfig): MqttClient {
+  const client = mqtt.connect(config.brokerUrl, {
+    username: config.username,
+    password: config.password,
+    clientId: `parking-bridge-${Math.random().toString(16).slice(2, 10)}`
+  })
+
+  const topics = [
+    ...MESSAGE_KINDS.map(kind => `${config.topicPrefix}/+/${kind}`),
+    ...Object.keys(config.topicMap)
+  ]
+
+  client.on('connect', () => {
+    console.log(`MQTT bridge connected to ${config.brokerUrl}`)
+    client.subscribe(topics, { qos: 1 }, error => {
+      if (error) {
+        console.error('Error subscribing to sensor topics:', error)
+      } else {
+        console.log(`Subscribed to ${topics.join(', ')}`)
+      }
+    })
+  })
+
+  client.on('message', async (topic, message) => {
+    const route = resolveTopic(topic, config)
+    if (!route) {
+      return
+    }
+
+    try {
+      const result = await handleMqttMessage(supabaseAdmin, route, message.toString())
+      if (!result.ok) {
+        console.warn(`Rejected ${route.kind} message from ${route.device_id}: ${result.error}`)
+      }
+    } catch (error) {
+      console.error(`Error handling MQTT message on ${topic}:`, error)
+    }
+  })
+
+  client.on('error', error => {
+    console.error('MQTT bridge error:', error)
+  })
+
+  return client
+}
@@ -0,0 +1,110 @@
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { parseReadingsBody, scopeReadingToDevice, validateReading, type LotCapacity } from './occupancy-ingest'
+
+const lots = new Map<string, LotCapacity>([
+  ['lot-1', {
+    id: 'lot-1',
+    capacity: 100,
+    drift_offset: 0,
+    last_reading_at: null,
+    zones: new Map([['zone-1', { id: 'zone-1', lot_id: 'lot-1', capacity: 40, last_reading_at: null }]])
+  }]
+])
+
+const reading = { lot_id: 'lot-1', occupancy_count: 20, timestamp: '2026-10-05T09:00:00.000Z' }
+
+describe('parseReadingsBody', () => {
+  test('reads a JSON array or {"readings": [...]}', () => {
+    assert.deepEqual(parseReadingsBody(JSON.stringify([reading]), 'application/json'), [reading])
+    assert.deepEqual(parseReadingsBody(JSON.stringify({ readings: [reading] }), null), [reading])
+  })
+
+  test('rejects other JSON bodies', () => {
+    assert.throws(() => parseReadingsBody('{"lot_id": "lot-1"}', 'application/json'))
+    assert.throws(() => parseReadingsBody('null', 'application/json'))
+  })
+
+  test('reads NDJSON line by line, keeping bad lines as null', () => {
+    const body = `${JSON.stringify(reading)}\n\nnot json\n${JSON.stringify(reading)}\n`
+
+    assert.deepEqual(parseReadingsBody(body, 'application/x-ndjson'), [reading, null, reading])
+  })
+})
+
+describe('validateReading', () => {
+  test('accepts a lot reading', () => {
+    assert.deepEqual(validateReading(reading, lots), { ok: true, reading: { ...reading, zone_id: null } })
+  })
+
+  test('stamps readings without a timestamp with the current time', () => {
+    const before = Date.now()
+    const validation = validateReading({ lot_id: 'lot-1', occupancy_count: 20 }, lots)
+
+    assert.ok(validation.ok)
+    assert.ok(Date.parse(validation.reading.timestamp) >= before - 1000)
+  })
+
+  test('checks zone readings against the zone', () => {
+    assert.equal(validateReading({ ...reading, zone_id: 'zone-1', occupancy_count: 40 }, lots).ok, true)
+    assert.deepEqual(
+      validateReading({ ...reading, zone_id: 'zone-1', occupancy_count: 41 }, lots),
+      { ok: false, error: 'Occupancy count exceeds zone capacity' }
+    )
+    assert.deepEqual(
+      validateReading({ ...reading, zone_id: 'zone-2' }, lots),
+      { ok: false, error: 'Invalid zone_id for this lot' }
+    )
+  })
+
+  test('rejects counts that are not whole, negative or over capacity', () => {
+    assert.equal(validateReading({ ...reading, occupancy_count: 2.5 }, lots).ok, false)
+    assert.equal(validateReading({ ...reading, occupancy_count: -1 }, lots).ok, false)
+    assert.equal(validateReading({ ...reading, occupancy_count: '20' }, lots).ok, false)
+    assert.equal(validateReading({ ...reading, occupancy_count: 101 }, lots).ok, false)
+  })
+
+  test('rejects unknown lots and missing fields', () => {
+    assert.deepEqual(validateReading({ ...reading, lot_id: 'lot-2' }, lots), { ok: false, error: 'Invalid lot_id' })
+    assert.equal(validateReading({ lot_id: 'lot-1' }, lots).ok, false)
+    assert.equal(validateReading(null, lots).ok, false)
+  })
+
+  test('rejects bad and future timestamps', () => {
+    assert.deepEqual(validateReading({ ...reading, timestamp: 'yesterday' }, lots), { ok: false, error: 'Invalid timestamp' })
+    assert.deepEqual(
+      validateReading({ ...reading, timestamp: new Date(Date.now() + 5 * 60 * 1000).toISOString() }, lots),
+      { ok: false, error: 'Timestamp is in the future' }
+    )
+  })
+
+  test('tolerates a little clock skew', () => {
+    const validation = validateReading({ ...reading, timestamp: new Date(Date.now() + 10 * 1000).toISOString() }, lots)
+
+    assert.equal(validation.ok, true)
+  })
+})
+
+describe('scopeReadingToDevice', () => {
+  const lotDevice = { lot_id: 'lot-1', zone_id: null }
+  const zoneDevice = { lot_id: 'lot-1', zone_id: 'zone-1' }
+
+  test("fills in the device's lot and zone", () => {
+    assert.deepEqual(
+      scopeReadingToDevice({ occupancy_count: 5 }, zoneDevice),
+      { occupancy_count: 5, lot_id: 'lot-1', zone_id: 'zone-1' }
+    )
+  })
+
+  test('lets lot devices report for any zone of their lot', () => {
+    assert.deepEqual(
+      scopeReadingToDevice({ occupancy_count: 5, zone_id: 'zone-2' }, lotDevice),
+      { occupancy_count: 5, lot_id: 'lot-1', zone_id: 'zone-2' }
+    )
+  })
+
+  test('rejects readings for another lot or zone', () => {
+    assert.equal(scopeReadingToDevice({ lot_id: 'lot-2', occupancy_count: 5 }, lotDevice), null)
+    assert.equal(scopeReadingToDevice({ zone_id: 'zone-2', occupancy_count: 5 }, zoneDevice), null)
+  })
+})
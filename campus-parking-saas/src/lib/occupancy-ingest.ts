@@ -0,0 +1,464 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { scoreReading, ANOMALY_LOOKBACK_MINUTES, type AnomalyScore, type AnomalyReason, type HistoryPoint } from './anomaly-detection'
+import { correctForDrift } from './drift-correction'
+import { rollupLateReadings } from './occupancy-rollups'
+
+// Upper bound on readings accepted in one batch request
+export const MAX_BATCH_READINGS = 1000
+
+// Readings stamped further than this into the future are rejected; anything
+// closer is tolerated as ordinary device clock skew
+export const FUTURE_READING_TOLERANCE_MS = 60 * 1000
+
+export interface OccupancyReading {
+  lot_id: string
+  zone_id: string | null
+  occupancy_count: number
+  timestamp: string
+  // What the sensor actually reported, when occupancy_count was drift-corrected
+  raw_occupancy_count?: number
+}
+
+export interface ZoneCapacity {
+  id: string
+  lot_id: string
+  capacity: number
+  last_reading_at: string | null
+}
+
+export interface LotCapacity {
+  id: string
+  capacity: number
+  drift_offset: number
+  last_reading_at: string | null
+  zones: Map<string, ZoneCapacity>
+}
+
+// What happened to a reading: `applied` moved the lot's live count,
+// `history_only` was recorded but older than the lot's newest reading,
+// `quarantined` looked anomalous and is held for admin review,
+// `rejected` failed validation and was not stored at all
+export type ReadingAction = 'applied' | 'history_only' | 'quarantined' | 'rejected'
+
+export interface ReadingResult {
+  index: number
+  lot_id: string | null
+  status: 'accepted' | 'rejected'
+  action: ReadingAction
+  error?: string
+  anomaly_reasons?: AnomalyReason[]
+}
+
+export interface IngestOutcome {
+  reading: OccupancyReading
+  action: Exclude<ReadingAction, 'rejected'>
+  anomaly?: AnomalyScore
+}
+
+export type ReadingValidation =
+  | { ok: true; reading: OccupancyReading }
+  | { ok: false; error: string }
+
+// Parse a batch body: a JSON array, an object with a `readings` array, or
+// NDJSON (one reading per line). Unparseable NDJSON lines are kept as `null`
+// so they are reported as rejected items instead of failing the whole batch.
+export function parseReadingsBody(rawBody: string, contentType: string | null): unknown[] {
+  if (contentType?.includes('ndjson')) {
+    return rawBody
+      .split('\n')
+      .map(line => line.trim())
+      .filter(line => line.length > 0)
+      .map(line => {
+        try {
+          return JSON.parse(line)
+        } catch {
+          return null
+        }
+      })
+  }
+
+  const parsed = JSON.parse(rawBody)
+  if (Array.isArray(parsed)) {
+    return parsed
+  }
+  if (parsed && Array.isArray(parsed.readings)) {
+    return parsed.readings
+  }
+  throw new Error('Expected an array of readings')
+}
+
+// Fill in a raw reading's lot and zone from the device that sent it. Returns
+// null if the reading names a lot or zone the device isn't registered for;
+// devices bound to a lot (no zone) may report for any zone within it.
+export function scopeReadingToDevice(
+  item: unknown,
+  device: { lot_id: string; zone_id: string | null }
+): unknown | null {
+  if (!item || typeof item !== 'object') {
+    return item
+  }
+
+  const claimed = item as Record<string, unknown>
+  const lot_id = claimed.lot_id ?? device.lot_id
+  const zone_id = claimed.zone_id ?? device.zone_id
+  if (lot_id !== device.lot_id || (device.zone_id && zone_id !== device.zone_id)) {
+    return null
+  }
+
+  return { ...claimed, lot_id, zone_id }
+}
+
+// Validate one raw reading against the lot (or zone within it) it reports for
+export function validateReading(item: unknown, lots: Map<string, LotCapacity>): ReadingValidation {
+  if (!item || typeof item !== 'object') {
+    return { ok: false, error: 'Invalid reading' }
+  }
+
+  const { lot_id, zone_id, occupancy_count, timestamp } = item as Record<string, unknown>
+
+  if (typeof lot_id !== 'string' || occupancy_count === undefined) {
+    return { ok: false, error: 'Missing required fields: lot_id, occupancy_count' }
+  }
+
+  if (typeof occupancy_count !== 'number' || !Number.isInteger(occupancy_count) || occupancy_count < 0) {
+    return { ok: false, error: 'occupancy_count must be a non-negative integer' }
+  }
+
+  const lot = lots.get(lot_id)
+  if (!lot) {
+    return { ok: false, error: 'Invalid lot_id' }
+  }
+
+  let zone: ZoneCapacity | undefined
+  if (zone_id !== undefined && zone_id !== null) {
+    zone = typeof zone_id === 'string' ? lot.zones.get(zone_id) : undefined
+    if (!zone) {
+      return { ok: false, error: 'Invalid zone_id for this lot' }
+    }
+  }
+
+  if (zone && occupancy_count > zone.capacity) {
+    return { ok: false, error: 'Occupancy count exceeds zone capacity' }
+  }
+
+  if (!zone && occupancy_count > lot.capacity) {
+    return { ok: false, error: 'Occupancy count exceeds lot capacity' }
+  }
+
+  let readingTime = new Date()
+  if (timestamp !== undefined && timestamp !== null) {
+    readingTime = new Date(timestamp as string)
+    if (typeof timestamp !== 'string' || isNaN(readingTime.getTime())) {
+      return { ok: false, error: 'Invalid timestamp' }
+    }
+    if (readingTime.getTime() > Date.now() + FUTURE_READING_TOLERANCE_MS) {
+      return { ok: false, error: 'Timestamp is in the future' }
+    }
+  }
+
+  return {
+    ok: true,
+    reading: {
+      lot_id,
+      zone_id: zone ? zone.id : null,
+      occupancy_count,
+      timestamp: readingTime.toISOString()
+    }
+  }
+}
+
+// Fetch capacities for every lot referenced by a set of readings, and the
+// zones within them, in one query
+export async function loadLotCapacities(
+  supabaseAdmin: SupabaseClient,
+  lotIds: string[]
+): Promise<Map<string, LotCapacity>> {
+  const uniqueIds = Array.from(new Set(lotIds))
+  const lots = new Map<string, LotCapacity>()
+  if (uniqueIds.length === 0) {
+    return lots
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('parking_lots')
+    .select('id, capacity, drift_offset, last_reading_at, lot_zones(id, lot_id, capacity, last_reading_at)')
+    .in('id', uniqueIds)
+
+  if (error) {
+    throw error
+  }
+
+  data?.forEach(({ lot_zones, ...lot }) => lots.set(lot.id, {
+    ...lot,
+    drift_offset: Number(lot.drift_offset) || 0,
+    zones: new Map((lot_zones || []).map((zone: ZoneCapacity) => [zone.id, zone]))
+  }))
+  return lots
+}
+
+// Zone readings and lot readings are ordered and scored separately
+function readingTarget(reading: Pick<OccupancyReading, 'lot_id' | 'zone_id'>): string {
+  return reading.zone_id ? `zone:${reading.zone_id}` : `lot:${reading.lot_id}`
+}
+
+// Move a lot's (or zone's) current_occupancy to a reading if it is newer than
+// the reading it currently reflects. Returns whether it was updated. Zone
+// updates roll up into the lot through the lot_zones trigger.
+export async function applyReading(
+  supabaseAdmin: SupabaseClient,
+  reading: OccupancyReading
+): Promise<boolean> {
+  // The timestamp guard lives in the UPDATE itself so concurrent requests
+  // for the same lot can't interleave a stale write after a fresh one
+  const { data: updated, error: updateError } = await supabaseAdmin
+    .from(reading.zone_id ? 'lot_zones' : 'parking_lots')
+    .update({
+      current_occupancy: reading.occupancy_count,
+      last_reading_at: reading.timestamp,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', reading.zone_id || reading.lot_id)
+    .or(`last_reading_at.is.null,last_reading_at.lt."${reading.timestamp}"`)
+    .select('id')
+
+  if (updateError) {
+    throw updateError
+  }
+
+  return !!updated && updated.length > 0
+}
+
+// Move a lot's (or zone's) last_reading_at on to a reading without changing
+// its count, with the same guard as applyReading
+async function touchReading(supabaseAdmin: SupabaseClient, reading: OccupancyReading): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from(reading.zone_id ? 'lot_zones' : 'parking_lots')
+    .update({ last_reading_at: reading.timestamp })
+    .eq('id', reading.zone_id || reading.lot_id)
+    .or(`last_reading_at.is.null,last_reading_at.lt."${reading.timestamp}"`)
+
+  if (error) {
+    throw error
+  }
+}
+
+// History for a lot or zone covering the anomaly lookback before `from` up to `to`
+async function loadRecentHistory(
+  supabaseAdmin: SupabaseClient,
+  target: Pick<OccupancyReading, 'lot_id' | 'zone_id'>,
+  from: string,
+  to: string
+): Promise<HistoryPoint[]> {
+  const since = new Date(new Date(from).getTime() - ANOMALY_LOOKBACK_MINUTES * 60 * 1000).toISOString()
+
+  let query = supabaseAdmin
+    .from('occupancy_history')
+    .select('occupancy_count, timestamp')
+    .eq('lot_id', target.lot_id)
+
+  query = target.zone_id ? query.eq('zone_id', target.zone_id) : query.is('zone_id', null)
+
+  const { data, error } = await query
+    .gte('timestamp', since)
+    .lte('timestamp', to)
+    .order('timestamp', { ascending: false })
+    .limit(500)
+
+  if (error) {
+    throw error
+  }
+
+  return (data || []).map(point => ({
+    occupancy_count: point.occupancy_count,
+    timestamp: new Date(point.timestamp).toISOString()
+  }))
+}
+
+// Lot-level readings get the lot's learned drift offset (see drift-correction)
+function applyDriftOffset(reading: OccupancyReading, lots: Map<string, LotCapacity>): OccupancyReading {
+  const lot = lots.get(reading.lot_id)
+  if (reading.zone_id || !lot || !lot.drift_offset) {
+    return reading
+  }
+
+  return {
+    ...reading,
+    occupancy_count: correctForDrift(reading.occupancy_count, lot),
+    raw_occupancy_count: reading.occupancy_count
+  }
+}
+
+// Correct each reading for sensor drift, score it against its lot's recent
+// history (see anomaly-detection), quarantine the suspicious ones, write the
+// rest to occupancy_history in one insert, then move each lot's
+// current_occupancy to its newest clean reading.
+// Readings are ordered by their own timestamp, not arrival order: a lot is
+// only updated when the reading is newer than its last_reading_at, so a
+// delayed retry can't roll the live count backwards. (updated_at isn't usable
+// for this since admin edits and gate events also touch it.) Returns one
+// outcome per input reading, in order.
+export async function ingestReadings(
+  supabaseAdmin: SupabaseClient,
+  rawReadings: OccupancyReading[],
+  lots: Map<string, LotCapacity>
+): Promise<IngestOutcome[]> {
+  if (rawReadings.length === 0) {
+    return []
+  }
+
+  const readings = rawReadings.map(reading => applyDriftOffset(reading, lots))
+
+  const byTarget = new Map<string, OccupancyReading[]>()
+  readings.forEach(reading => {
+    const target = readingTarget(reading)
+    const targetReadings = byTarget.get(target)
+    if (targetReadings) {
+      targetReadings.push(reading)
+    } else {
+      byTarget.set(target, [reading])
+    }
+  })
+
+  // Judge each reading against the history plus the batch readings accepted
+  // before it, so one bad value in a batch doesn't taint its neighbours
+  const quarantined = new Map<OccupancyReading, AnomalyScore>()
+  for (const targetReadings of Array.from(byTarget.values())) {
+    const sorted = [...targetReadings].sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+    const history = await loadRecentHistory(
+      supabaseAdmin,
+      sorted[0],
+      sorted[0].timestamp,
+      sorted[sorted.length - 1].timestamp
+    )
+    const lot = lots.get(sorted[0].lot_id)
+    const capacity = (sorted[0].zone_id ? lot?.zones.get(sorted[0].zone_id)?.capacity : lot?.capacity) ?? 0
+
+    sorted.forEach(reading => {
+      const anomaly = scoreReading(reading, history, capacity)
+      if (anomaly.suspicious) {
+        quarantined.set(reading, anomaly)
+      } else {
+        history.push(reading)
+      }
+    })
+  }
+
+  if (quarantined.size > 0) {
+    const { error: quarantineError } = await supabaseAdmin
+      .from('quarantined_readings')
+      .insert(Array.from(quarantined.entries()).map(([reading, anomaly]) => ({
+        lot_id: reading.lot_id,
+        zone_id: reading.zone_id,
+        occupancy_count: reading.occupancy_count,
+        raw_occupancy_count: reading.raw_occupancy_count ?? null,
+        timestamp: reading.timestamp,
+        anomaly_score: anomaly.score,
+        reasons: anomaly.reasons
+      })))
+
+    if (quarantineError) {
+      throw quarantineError
+    }
+  }
+
+  const clean = readings.filter(reading => !quarantined.has(reading))
+
+  if (clean.length > 0) {
+    const { error: historyError } = await supabaseAdmin
+      .from('occupancy_history')
+      .insert(clean.map(reading => ({
+        lot_id: reading.lot_id,
+        zone_id: reading.zone_id,
+        occupancy_count: reading.occupancy_count,
+        raw_occupancy_count: reading.raw_occupancy_count ?? null,
+        timestamp: reading.timestamp,
+        source: 'sensor'
+      })))
+
+    if (historyError) {
+      throw historyError
+    }
+  }
+
+  const newestByTarget = new Map<string, OccupancyReading>()
+  clean.forEach(reading => {
+    const target = readingTarget(reading)
+    const newest = newestByTarget.get(target)
+    if (!newest || reading.timestamp >= newest.timestamp) {
+      newestByTarget.set(target, reading)
+    }
+  })
+
+  const applied = new Set<OccupancyReading>()
+  for (const reading of Array.from(newestByTarget.values())) {
+    if (await applyReading(supabaseAdmin, reading)) {
+      applied.add(reading)
+    }
+  }
+
+  // A flatline repeats the count the lot already shows, so a lot whose only
+  // fault is sitting still keeps counting as reporting while it awaits review
+  const newestFlatline = new Map<string, OccupancyReading>()
+  quarantined.forEach((anomaly, reading) => {
+    if (anomaly.reasons.every(reason => reason === 'flatline')) {
+      const target = readingTarget(reading)
+      const newest = newestFlatline.get(target)
+      if (!newest || reading.timestamp >= newest.timestamp) {
+        newestFlatline.set(target, reading)
+      }
+    }
+  })
+  for (const reading of Array.from(newestFlatline.values())) {
+    await touchReading(supabaseAdmin, reading)
+  }
+
+  // Zone updates changed the rolled-up lot totals; record those as lot-level
+  // history so lot predictions keep working for zoned lots
+  const zonedLots = Array.from(new Set(
+    Array.from(applied).filter(reading => reading.zone_id).map(reading => reading.lot_id)
+  ))
+  if (zonedLots.length > 0) {
+    await recordLotRollups(supabaseAdmin, zonedLots, 'sensor')
+  }
+
+  await rollupLateReadings(supabaseAdmin, clean.map(reading => reading.timestamp))
+
+  return readings.map(reading => {
+    const anomaly = quarantined.get(reading)
+    if (anomaly) {
+      return { reading, action: 'quarantined', anomaly }
+    }
+    return { reading, action: applied.has(reading) ? 'applied' : 'history_only' }
+  })
+}
+
+// Snapshot the rolled-up occupancy of zoned lots into occupancy_history,
+// labelled with the source of the zone change that moved the total
+export async function recordLotRollups(
+  supabaseAdmin: SupabaseClient,
+  lotIds: string[],
+  source: 'sensor' | 'manual',
+  asOf?: string
+) {
+  const { data: rolledUp, error } = await supabaseAdmin
+    .from('parking_lots')
+    .select('id, current_occupancy, last_reading_at')
+    .in('id', lotIds)
+
+  if (error) {
+    throw error
+  }
+
+  const { error: historyError } = await supabaseAdmin
+    .from('occupancy_history')
+    .insert((rolledUp || []).map(lot => ({
+      lot_id: lot.id,
+      occupancy_count: lot.current_occupancy,
+      timestamp: asOf || lot.last_reading_at || new Date().toISOString(),
+      source
+    })))
+
+  if (historyError) {
+    console.error('Error recording rolled-up lot occupancy:', historyError)
+  }
+}
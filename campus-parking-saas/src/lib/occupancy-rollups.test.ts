@@ -0,0 +1,37 @@
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import {
+  DEFAULT_HISTORY_RETENTION_DAYS,
+  MIN_HISTORY_RETENTION_DAYS,
+  historyRetentionDays,
+  lateRollupRange
+} from './occupancy-rollups'
+
+const NOW = new Date('2026-10-05T12:30:00Z')
+
+describe('lateRollupRange', () => {
+  test('leaves readings within the lookback to the rollups job', () => {
+    assert.equal(lateRollupRange(['2026-10-05T12:00:00Z', '2026-10-04T12:45:00Z'], NOW), null)
+    assert.equal(lateRollupRange([], NOW), null)
+  })
+
+  test('covers the whole hours of the late readings', () => {
+    const range = lateRollupRange(['2026-10-02T08:20:00Z', '2026-10-05T12:00:00Z', '2026-10-03T17:59:59Z'], NOW)
+
+    assert.deepEqual(range, {
+      from: new Date('2026-10-02T08:00:00Z'),
+      to: new Date('2026-10-03T18:00:00Z')
+    })
+  })
+})
+
+describe('historyRetentionDays', () => {
+  test('reads OCCUPANCY_HISTORY_RETENTION_DAYS', () => {
+    assert.equal(historyRetentionDays({ OCCUPANCY_HISTORY_RETENTION_DAYS: '30' }), 30)
+  })
+
+  test('falls back to the default and never goes below the minimum', () => {
+    assert.equal(historyRetentionDays({}), DEFAULT_HISTORY_RETENTION_DAYS)
+    assert.equal(historyRetentionDays({ OCCUPANCY_HISTORY_RETENTION_DAYS: '1' }), MIN_HISTORY_RETENTION_DAYS)
+  })
+})
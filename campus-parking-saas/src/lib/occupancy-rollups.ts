@@ -0,0 +1,117 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { campusTimeZone } from './campus-time'
+
+// occupancy_history gets a row per reading. The rollups job folds lot-level
+// readings into occupancy_hourly and occupancy_daily (min/max/avg and when the
+// peak was), which is what predictions and analytics read, and deletes raw
+// rows (lot and zone) once they are older than the retention window. Daily
+// rollups are campus calendar days.
+
+// Hours rebuilt on every run, so late readings (batch uploads, released
+// quarantine) still make it into their hour. Writers roll up readings older
+// than this themselves (rollupLateReadings)
+export const ROLLUP_LOOKBACK_HOURS = 24
+
+const HOUR_MS = 60 * 60 * 1000
+
+export const DEFAULT_HISTORY_RETENTION_DAYS = 90
+
+// Raw rows must outlive the lookback, or a rebuilt hour would be missing
+// readings; a week also leaves anomaly detection and reconciliation their
+// recent history
+export const MIN_HISTORY_RETENTION_DAYS = 7
+
+export interface RollupRun {
+  rolled_up_from: string
+  hours_rolled_up: number
+  retention_days: number
+  purged_before: string
+  purged_readings: number
+}
+
+// Retention window for raw readings, from OCCUPANCY_HISTORY_RETENTION_DAYS
+export function historyRetentionDays(env: Record<string, string | undefined> = process.env): number {
+  const days = parseInt(env.OCCUPANCY_HISTORY_RETENTION_DAYS || '')
+  if (isNaN(days)) {
+    return DEFAULT_HISTORY_RETENTION_DAYS
+  }
+  return Math.max(MIN_HISTORY_RETENTION_DAYS, days)
+}
+
+// Rebuild the hourly and daily rollups for readings between `from` and `to`
+export async function rollupOccupancyHistory(
+  supabaseAdmin: SupabaseClient,
+  from: Date,
+  to: Date = new Date()
+): Promise<number> {
+  const { data, error } = await supabaseAdmin.rpc('rollup_occupancy_history', {
+    from_time: from.toISOString(),
+    to_time: to.toISOString(),
+    campus_timezone: campusTimeZone()
+  })
+
+  if (error) {
+    throw error
+  }
+  return data || 0
+}
+
+// The whole hours holding readings too old for the next scheduled run to
+// rebuild, or null if there are none. Ends on an hour boundary: a rebuilt hour
+// is replaced, so it must be rebuilt from all of its readings.
+export function lateRollupRange(timestamps: string[], now: Date = new Date()): { from: Date; to: Date } | null {
+  const lookbackStart = now.getTime() - ROLLUP_LOOKBACK_HOURS * HOUR_MS
+  const late = timestamps.map(timestamp => Date.parse(timestamp)).filter(time => time < lookbackStart)
+  if (late.length === 0) {
+    return null
+  }
+
+  return {
+    from: new Date(Math.floor(Math.min(...late) / HOUR_MS) * HOUR_MS),
+    to: new Date(Math.floor(Math.max(...late) / HOUR_MS) * HOUR_MS + HOUR_MS)
+  }
+}
+
+// Roll up the hours that readings written just now landed in, if the rollups
+// job would no longer reach them. The readings are already stored, so a
+// failure is only logged; the purge rolls them up before deleting them.
+export async function rollupLateReadings(supabaseAdmin: SupabaseClient, timestamps: string[]) {
+  const range = lateRollupRange(timestamps)
+  if (!range) {
+    return
+  }
+
+  try {
+    await rollupOccupancyHistory(supabaseAdmin, range.from, range.to)
+  } catch (error) {
+    console.error('Error rolling up late readings:', error)
+  }
+}
+
+// Scheduled run: refresh the recent rollups, then purge expired raw readings
+export async function runOccupancyRollups(
+  supabaseAdmin: SupabaseClient,
+  now: Date = new Date()
+): Promise<RollupRun> {
+  const from = new Date(now.getTime() - ROLLUP_LOOKBACK_HOURS * HOUR_MS)
+  const hours_rolled_up = await rollupOccupancyHistory(supabaseAdmin, from, now)
+
+  const retention_days = historyRetentionDays()
+  const purgeBefore = new Date(now.getTime() - retention_days * 24 * 60 * 60 * 1000)
+  const { data: purged, error } = await supabaseAdmin.rpc('purge_occupancy_history', {
+    before_time: purgeBefore.toISOString(),
+    campus_timezone: campusTimeZone()
+  })
+
+  if (error) {
+    throw error
+  }
+
+  return {
+    rolled_up_from: from.toISOString(),
+    hours_rolled_up,
+    retention_days,
+    purged_before: purgeBefore.toISOString(),
+    purged_readings: purged || 0
+  }
+}
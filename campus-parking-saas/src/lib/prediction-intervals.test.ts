@@ -0,0 +1,44 @@
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import { predictionInterval, probabilityFree } from './prediction-intervals'
+
+const forecast = (mean: number, uncertainty: number) => ({
+  predicted_occupancy: mean,
+  uncertainty,
+  components: { seasonal: mean, weather: 0, trend: 0, events: 0 }
+})
+
+describe('predictionInterval', () => {
+  test('spreads p10 and p90 evenly around the mean', () => {
+    // sd = 10 * sqrt(pi / 2) = 12.53; 1.2816 sd = 16.06
+    assert.deepEqual(predictionInterval(forecast(50, 10), 100), { p10: 34, p50: 50, p90: 66 })
+  })
+
+  test('cuts the interval off at 0 and capacity', () => {
+    assert.deepEqual(predictionInterval(forecast(95, 10), 100), { p10: 79, p50: 95, p90: 100 })
+    assert.deepEqual(predictionInterval(forecast(5, 10), 100), { p10: 0, p50: 5, p90: 21 })
+  })
+})
+
+describe('probabilityFree', () => {
+  test('judges free spaces on the uncapped mean', () => {
+    const overfull = { ...forecast(100, 5), components: { seasonal: 100, weather: 0, trend: 0, events: 20 } }
+
+    assert.equal(probabilityFree(overfull, 100), 0)
+  })
+
+  test('gives the chance of at least N free spaces', () => {
+    assert.equal(probabilityFree(forecast(20, 10), 100), 1)
+    assert.equal(probabilityFree(forecast(99.5, 10), 100, 1), 0.5)
+    assert.ok(probabilityFree(forecast(90, 10), 100, 5) > probabilityFree(forecast(90, 10), 100, 15))
+  })
+
+  test('is certain without uncertainty', () => {
+    assert.equal(probabilityFree(forecast(99, 0), 100, 1), 1)
+    assert.equal(probabilityFree(forecast(100, 0), 100, 1), 0)
+  })
+
+  test('never finds more free spaces than the lot has', () => {
+    assert.equal(probabilityFree(forecast(0, 10), 100, 101), 0)
+  })
+})
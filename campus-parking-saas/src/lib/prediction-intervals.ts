@@ -0,0 +1,69 @@
+// Forecasts as distributions rather than single numbers. A point's occupancy
+// is taken as normally distributed around the forecast before it is capped
+// (the sum of its components), with a spread from its typical error, which
+// comes from how much comparable days have varied (ForecastPoint.uncertainty).
+// Cut off at 0 and capacity, that gives p10/p50/p90 occupancy and the chance
+// that at least N spaces are free.
+
+// Standard deviation of a normal error whose mean absolute error is 1
+const SD_PER_MAE = Math.sqrt(Math.PI / 2)
+
+// 90th percentile of the standard normal
+const Z90 = 1.2816
+
+export interface PredictionInterval {
+  p10: number
+  p50: number
+  p90: number
+}
+
+// What the interval and probabilities are computed from; ForecastPoint has
+// all of these
+export interface OccupancyForecast {
+  predicted_occupancy: number
+  uncertainty: number
+  components: { seasonal: number; weather: number; trend: number; events: number }
+}
+
+// Abramowitz & Stegun 7.1.26; accurate to about 1e-7
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2
+  const t = 1 / (1 + 0.3275911 * x)
+  const erf = 1 - t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429)))) * Math.exp(-x * x)
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2
+}
+
+function distribution(forecast: OccupancyForecast): { mean: number; sd: number } {
+  const { seasonal, weather, trend, events } = forecast.components
+  return {
+    mean: seasonal + weather + trend + events,
+    sd: forecast.uncertainty * SD_PER_MAE
+  }
+}
+
+export function predictionInterval(forecast: OccupancyForecast, capacity: number): PredictionInterval {
+  const { mean, sd } = distribution(forecast)
+  const clamp = (value: number) => Math.max(0, Math.min(capacity, Math.round(value)))
+
+  return {
+    p10: clamp(mean - Z90 * sd),
+    p50: clamp(mean),
+    p90: clamp(mean + Z90 * sd)
+  }
+}
+
+// Chance that at least `spaces` spaces are free, i.e. that occupancy is at
+// most capacity - spaces (counts are whole cars, hence the half)
+export function probabilityFree(forecast: OccupancyForecast, capacity: number, spaces: number = 1): number {
+  const limit = capacity - spaces
+  if (limit < 0) {
+    return 0
+  }
+
+  const { mean, sd } = distribution(forecast)
+  const probability = sd > 0
+    ? normalCdf((limit + 0.5 - mean) / sd)
+    : mean <= limit ? 1 : 0
+
+  return Math.round(probability * 100) / 100
+}
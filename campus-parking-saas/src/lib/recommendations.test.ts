@@ -0,0 +1,153 @@
+import { describe, test } from 'node:test'
+import assert from 'node:assert/strict'
+import {
+  DEFAULT_RECOMMENDATION_WEIGHTS,
+  recommendLots,
+  scoreLot,
+  validateRecommendationWeights,
+  type RecommendableLot
+} from './recommendations'
+import type { ArrivalForecast } from './arrival-forecast'
+
+const DRIVER = { lat: 40, lng: -75 }
+
+// About 111 m per 0.001 degree of latitude
+const metersNorth = (meters: number) => ({ lat: DRIVER.lat + meters / 111195, lng: DRIVER.lng })
+
+function lot(overrides: Partial<RecommendableLot> = {}): RecommendableLot {
+  return {
+    id: 'lot-1',
+    name: 'Lot A',
+    capacity: 100,
+    current_occupancy: 50,
+    location: metersNorth(300),
+    permit_restrictions: [],
+    amenities: [],
+    ...overrides
+  }
+}
+
+function arrival(predicted_occupancy: number, probability_free: number): ArrivalForecast {
+  return {
+    lot_id: 'lot-1',
+    lot_name: 'Lot A',
+    capacity: 100,
+    arrival_time: '2026-10-05T09:15:00.000Z',
+    travel_minutes: 5,
+    predicted_occupancy,
+    expected_free_spaces: 100 - predicted_occupancy,
+    interval: { p10: predicted_occupancy, p50: predicted_occupancy, p90: predicted_occupancy },
+    probability_free,
+    model: 'seasonal'
+  }
+}
+
+const points = (breakdown: Array<{ factor: string; points: number }>) =>
+  Object.fromEntries(breakdown.map(contribution => [contribution.factor, contribution.points]))
+
+describe('scoreLot', () => {
+  test('adds up distance, free spaces and emptiness', () => {
+    const { score, breakdown } = scoreLot(lot(), 300, null, {}, DEFAULT_RECOMMENDATION_WEIGHTS)
+
+    assert.deepEqual(points(breakdown), { distance: 70, free_spaces: 100, low_occupancy: 25 })
+    assert.equal(score, 195)
+    assert.equal(breakdown[0].detail, '300 m away')
+  })
+
+  test('judges the lot as forecast on arrival, less the chance it is full', () => {
+    const { breakdown } = scoreLot(lot(), 300, arrival(90, 0.75), {}, DEFAULT_RECOMMENDATION_WEIGHTS)
+
+    assert.deepEqual(points(breakdown), { distance: 70, free_spaces: 20, low_occupancy: 5, full_on_arrival: -25 })
+    assert.equal(breakdown[1].detail, '10 free on arrival')
+  })
+
+  test('only gives amenity bonuses the driver asked for', () => {
+    const amenities = ['covered', 'ev_charging', 'handicap_accessible']
+    const asked = scoreLot(lot({ amenities }), 300, null, { preferCovered: true, needEvCharging: true }, DEFAULT_RECOMMENDATION_WEIGHTS)
+    const unasked = scoreLot(lot({ amenities }), 300, null, {}, DEFAULT_RECOMMENDATION_WEIGHTS)
+
+    assert.equal(points(asked.breakdown).covered, 20)
+    assert.equal(points(asked.breakdown).ev_charging, 30)
+    assert.equal(points(asked.breakdown).accessible, undefined)
+    assert.equal(asked.score - unasked.score, 50)
+  })
+
+  test('leaves out factors worth nothing', () => {
+    const { breakdown } = scoreLot(lot({ current_occupancy: 100 }), 1500, null, {}, DEFAULT_RECOMMENDATION_WEIGHTS)
+
+    assert.deepEqual(breakdown, [])
+  })
+
+  test('follows the weights', () => {
+    const weights = { ...DEFAULT_RECOMMENDATION_WEIGHTS, points_per_free_space: 0, low_occupancy_points: 0 }
+
+    assert.equal(scoreLot(lot(), 300, null, {}, weights).score, 70)
+  })
+})
+
+describe('recommendLots', () => {
+  test('ranks the lots the permit allows, best first', () => {
+    const recommendations = recommendLots(
+      [
+        lot({ id: 'far', location: metersNorth(900) }),
+        lot({ id: 'near', location: metersNorth(100) }),
+        lot({ id: 'staff', location: metersNorth(50), permit_restrictions: ['staff'] })
+      ],
+      DRIVER,
+      'student',
+      {},
+      DEFAULT_RECOMMENDATION_WEIGHTS
+    )
+
+    assert.deepEqual(recommendations.map(recommendation => recommendation.lot_id), ['near', 'far'])
+    assert.equal(recommendations[0].distance, 100)
+  })
+
+  test('levels lots by their score', () => {
+    const [busy, empty] = ['busy', 'empty'].map(id => recommendLots(
+      [lot({ id, current_occupancy: id === 'busy' ? 98 : 0, location: metersNorth(1000) })],
+      DRIVER,
+      'student',
+      {},
+      DEFAULT_RECOMMENDATION_WEIGHTS
+    )[0])
+
+    assert.equal(busy.recommendation, 'available')
+    assert.equal(empty.recommendation, 'highly_recommended')
+  })
+
+  test('reports spaces on arrival when forecast', () => {
+    const [recommendation] = recommendLots(
+      [lot()],
+      DRIVER,
+      'student',
+      {},
+      DEFAULT_RECOMMENDATION_WEIGHTS,
+      { 'lot-1': arrival(90, 0.75) }
+    )
+
+    assert.equal(recommendation.available_spaces, 10)
+    assert.equal(recommendation.occupancy_rate, 0.9)
+    assert.equal(recommendation.current_occupancy, 50)
+  })
+})
+
+describe('validateRecommendationWeights', () => {
+  test('applies a partial set over the base weights', () => {
+    const validation = validateRecommendationWeights({ covered_bonus: 40 })
+
+    assert.deepEqual(validation, { ok: true, weights: { ...DEFAULT_RECOMMENDATION_WEIGHTS, covered_bonus: 40 } })
+  })
+
+  test('rejects unknown and negative weights', () => {
+    assert.deepEqual(validateRecommendationWeights({ parking_karma: 1 }), { ok: false, error: 'Unknown weight: parking_karma' })
+    assert.equal(validateRecommendationWeights({ covered_bonus: -1 }).ok, false)
+    assert.equal(validateRecommendationWeights({ covered_bonus: '40' }).ok, false)
+    assert.equal(validateRecommendationWeights([]).ok, false)
+  })
+
+  test('keeps the recommendation levels in order', () => {
+    assert.equal(validateRecommendationWeights({ recommended_score: 150 }).ok, false)
+    assert.equal(validateRecommendationWeights({ distance_range_meters: 0 }).ok, false)
+  })
+})
@@ -0,0 +1,257 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { calculateDistance } from './utils'
+import type { ArrivalForecast } from './arrival-forecast'
+import type { GeoPoint } from './campus-events'
+
+// Parking recommendations. Every lot the driver's permit allows is scored as
+// a sum of factors (closeness, free spaces, how empty it is, the chance it is
+// full on arrival, amenities the driver asked for), each weighted by the
+// campus's recommendation weights, and every recommendation carries the
+// points each factor contributed so the ranking can be explained. Lots are
+// judged as forecast for the driver's arrival when arrivals are given.
+
+export interface RecommendationWeights {
+  distance_points_per_100m: number // For each 100 m closer than distance_range_meters
+  distance_range_meters: number // Lots further away than this get no distance points
+  points_per_free_space: number
+  low_occupancy_points: number // For an empty lot, scaled down as it fills
+  full_on_arrival_penalty: number // Taken off a lot certain to be full, scaled by the chance it is
+  covered_bonus: number // For drivers who prefer covered lots
+  ev_charging_bonus: number // For drivers who need EV charging
+  accessible_bonus: number // For drivers who need accessible parking
+  highly_recommended_score: number // Score above which a lot is highly recommended
+  recommended_score: number // ...and recommended
+}
+
+// Reproduce the dashboard's scoring before weights were configurable: its
+// distance, space and amenity points, and the full-on-arrival penalty it
+// gained with arrival forecasts
+export const DEFAULT_RECOMMENDATION_WEIGHTS: RecommendationWeights = {
+  distance_points_per_100m: 10,
+  distance_range_meters: 1000,
+  points_per_free_space: 2,
+  low_occupancy_points: 50,
+  full_on_arrival_penalty: 100,
+  covered_bonus: 20,
+  ev_charging_bonus: 30,
+  accessible_bonus: 25,
+  highly_recommended_score: 100,
+  recommended_score: 50
+}
+
+export const RECOMMENDATION_FACTORS = [
+  'distance',
+  'free_spaces',
+  'low_occupancy',
+  'full_on_arrival',
+  'covered',
+  'ev_charging',
+  'accessible'
+] as const
+
+export type RecommendationFactor = typeof RECOMMENDATION_FACTORS[number]
+
+export interface ScoreContribution {
+  factor: RecommendationFactor
+  points: number
+  detail: string
+}
+
+export type RecommendationLevel = 'highly_recommended' | 'recommended' | 'available'
+
+export interface RecommendableLot {
+  id: string
+  name: string
+  capacity: number
+  current_occupancy: number
+  location: GeoPoint
+  permit_restrictions: string[]
+  amenities: string[]
+}
+
+export interface DriverPreferences {
+  preferCovered?: boolean
+  needEvCharging?: boolean
+  needHandicapAccess?: boolean
+}
+
+export interface Recommendation {
+  lot_id: string
+  lot_name: string
+  capacity: number
+  current_occupancy: number
+  distance: number // Meters from the driver
+  available_spaces: number // On arrival when forecast, otherwise now
+  occupancy_rate: number
+  arrival: ArrivalForecast | null
+  score: number
+  recommendation: RecommendationLevel
+  breakdown: ScoreContribution[] // Factors that added or took off points
+}
+
+export type RecommendationWeightsValidation =
+  | { ok: true; weights: RecommendationWeights }
+  | { ok: false; error: string }
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10
+}
+
+// A full or partial set of weights, applied over `base`
+export function validateRecommendationWeights(
+  item: unknown,
+  base: RecommendationWeights = DEFAULT_RECOMMENDATION_WEIGHTS
+): RecommendationWeightsValidation {
+  if (!item || typeof item !== 'object' || Array.isArray(item)) {
+    return { ok: false, error: 'Weights must be an object' }
+  }
+
+  const weights = { ...base }
+  for (const [key, value] of Object.entries(item as Record<string, unknown>)) {
+    if (!(key in DEFAULT_RECOMMENDATION_WEIGHTS)) {
+      return { ok: false, error: `Unknown weight: ${key}` }
+    }
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+      return { ok: false, error: `${key} must be a non-negative number` }
+    }
+    weights[key as keyof RecommendationWeights] = value
+  }
+
+  if (weights.distance_range_meters <= 0) {
+    return { ok: false, error: 'distance_range_meters must be positive' }
+  }
+  if (weights.recommended_score > weights.highly_recommended_score) {
+    return { ok: false, error: 'recommended_score must not exceed highly_recommended_score' }
+  }
+
+  return { ok: true, weights }
+}
+
+// Score one lot, factor by factor. Factors that don't apply are left out.
+export function scoreLot(
+  lot: RecommendableLot,
+  distance: number,
+  arrival: ArrivalForecast | null,
+  preferences: DriverPreferences,
+  weights: RecommendationWeights
+): { score: number; breakdown: ScoreContribution[] } {
+  const occupancy = arrival ? arrival.predicted_occupancy : lot.current_occupancy
+  const freeSpaces = lot.capacity - occupancy
+  const occupancyRate = lot.capacity > 0 ? occupancy / lot.capacity : 1
+  const when = arrival ? 'on arrival' : 'now'
+
+  const breakdown: ScoreContribution[] = [
+    {
+      factor: 'distance',
+      points: Math.max(0, weights.distance_range_meters - distance) / 100 * weights.distance_points_per_100m,
+      detail: `${Math.round(distance)} m away`
+    },
+    {
+      factor: 'free_spaces',
+      points: freeSpaces * weights.points_per_free_space,
+      detail: `${freeSpaces} free ${when}`
+    },
+    {
+      factor: 'low_occupancy',
+      points: (1 - occupancyRate) * weights.low_occupancy_points,
+      detail: `${Math.round(occupancyRate * 100)}% full ${when}`
+    }
+  ]
+
+  if (arrival) {
+    breakdown.push({
+      factor: 'full_on_arrival',
+      points: -(1 - arrival.probability_free) * weights.full_on_arrival_penalty,
+      detail: `${Math.round(arrival.probability_free * 100)}% chance of a space`
+    })
+  }
+  if (preferences.preferCovered && lot.amenities.includes('covered')) {
+    breakdown.push({ factor: 'covered', points: weights.covered_bonus, detail: 'Covered, as you prefer' })
+  }
+  if (preferences.needEvCharging && lot.amenities.includes('ev_charging')) {
+    breakdown.push({ factor: 'ev_charging', points: weights.ev_charging_bonus, detail: 'Has EV charging' })
+  }
+  if (preferences.needHandicapAccess && lot.amenities.includes('handicap_accessible')) {
+    breakdown.push({ factor: 'accessible', points: weights.accessible_bonus, detail: 'Accessible parking' })
+  }
+
+  const contributions = breakdown
+    .filter(contribution => contribution.points !== 0)
+    .map(contribution => ({ ...contribution, points: round1(contribution.points) }))
+
+  return {
+    score: round1(contributions.reduce((sum, contribution) => sum + contribution.points, 0)),
+    breakdown: contributions
+  }
+}
+
+// Lots the permit allows, best first
+export function recommendLots(
+  lots: RecommendableLot[],
+  userLocation: GeoPoint,
+  userPermit: string,
+  preferences: DriverPreferences,
+  weights: RecommendationWeights,
+  arrivals: Record<string, ArrivalForecast> = {}
+): Recommendation[] {
+  return lots
+    .filter(lot => lot.permit_restrictions.includes(userPermit) || lot.permit_restrictions.length === 0)
+    .map(lot => {
+      const distance = calculateDistance(userLocation.lat, userLocation.lng, lot.location.lat, lot.location.lng)
+      const arrival = arrivals[lot.id] || null
+      const occupancy = arrival ? arrival.predicted_occupancy : lot.current_occupancy
+      const { score, breakdown } = scoreLot(lot, distance, arrival, preferences, weights)
+
+      return {
+        lot_id: lot.id,
+        lot_name: lot.name,
+        capacity: lot.capacity,
+        current_occupancy: lot.current_occupancy,
+        distance: Math.round(distance),
+        available_spaces: lot.capacity - occupancy,
+        occupancy_rate: lot.capacity > 0 ? occupancy / lot.capacity : 1,
+        arrival,
+        score,
+        recommendation: score > weights.highly_recommended_score ? 'highly_recommended' as const
+          : score > weights.recommended_score ? 'recommended' as const
+          : 'available' as const,
+        breakdown
+      }
+    })
+    .sort((a, b) => b.score - a.score)
+}
+
+// The campus's weights, with defaults for any not set
+export async function loadRecommendationWeights(supabaseAdmin: SupabaseClient): Promise<RecommendationWeights> {
+  const { data, error } = await supabaseAdmin
+    .from('recommendation_settings')
+    .select('weights')
+    .maybeSingle()
+
+  if (error) {
+    throw error
+  }
+
+  if (!data) {
+    return DEFAULT_RECOMMENDATION_WEIGHTS
+  }
+
+  // Stored weights were validated on the way in; drop any that no longer exist
+  const known = Object.fromEntries(Object.entries(data.weights || {})
+    .filter(([key]) => key in DEFAULT_RECOMMENDATION_WEIGHTS))
+  return { ...DEFAULT_RECOMMENDATION_WEIGHTS, ...known }
+}
+
+export async function saveRecommendationWeights(
+  supabaseAdmin: SupabaseClient,
+  weights: RecommendationWeights,
+  updatedBy: string
+): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('recommendation_settings')
+    .upsert({ id: true, weights, updated_by: updatedBy })
+
+  if (error) {
+    throw error
+  }
+}
@@ -0,0 +1,160 @@
+import { createHmac, timingSafeEqual } from 'crypto'
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+// Maximum clock skew accepted between a device and the server, in seconds.
+// Nonces only need to be remembered for this long, since anything older is
+// rejected on its timestamp alone.
+export const SENSOR_SIGNATURE_TOLERANCE_SECONDS = 300
+
+export const SENSOR_AUTH_HEADERS = {
+  deviceId: 'x-sensor-id',
+  timestamp: 'x-sensor-timestamp',
+  nonce: 'x-sensor-nonce',
+  signature: 'x-sensor-signature'
+} as const
+
+export interface SensorDevice {
+  id: string
+  lot_id: string
+  zone_id: string | null
+  enabled: boolean
+  last_seen_at: string | null
+}
+
+export type SensorAuthFailureReason =
+  | 'missing_headers'
+  | 'unknown_device'
+  | 'device_disabled'
+  | 'stale_timestamp'
+  | 'invalid_signature'
+  | 'replayed_nonce'
+  | 'lot_mismatch'
+
+export type SensorAuthResult =
+  | { ok: true; device: SensorDevice }
+  | { ok: false; status: number; reason: SensorAuthFailureReason; deviceId: string | null; lotId?: string | null }
+
+// Signature covers the timestamp, nonce and the exact request body bytes:
+// hex(HMAC-SHA256(secret, `${timestamp}.${nonce}.${body}`))
+export function computeSensorSignature(secret: string, timestamp: string, nonce: string, body: string): string {
+  return createHmac('sha256', secret)
+    .update(`${timestamp}.${nonce}.${body}`)
+    .digest('hex')
+}
+
+function signaturesMatch(expected: string, received: string): boolean {
+  const a = Buffer.from(expected, 'hex')
+  const b = Buffer.from(received, 'hex')
+  return a.length === b.length && a.length > 0 && timingSafeEqual(a, b)
+}
+
+// Verify a signed sensor request against the device registry.
+// Consumes the nonce on success so the same request cannot be replayed.
+export async function verifySensorRequest(
+  supabaseAdmin: SupabaseClient,
+  headers: Headers,
+  rawBody: string
+): Promise<SensorAuthResult> {
+  const deviceId = headers.get(SENSOR_AUTH_HEADERS.deviceId)
+  const timestamp = headers.get(SENSOR_AUTH_HEADERS.timestamp)
+  const nonce = headers.get(SENSOR_AUTH_HEADERS.nonce)
+  const signature = headers.get(SENSOR_AUTH_HEADERS.signature)
+
+  if (!deviceId || !timestamp || !nonce || !signature) {
+    return { ok: false, status: 401, reason: 'missing_headers', deviceId }
+  }
+
+  const { data: device, error } = await supabaseAdmin
+    .from('sensor_devices')
+    .select('id, lot_id, zone_id, enabled, last_seen_at, secret')
+    .eq('id', deviceId)
+    .single()
+
+  if (error || !device) {
+    return { ok: false, status: 401, reason: 'unknown_device', deviceId }
+  }
+
+  if (!device.enabled) {
+    return { ok: false, status: 403, reason: 'device_disabled', deviceId, lotId: device.lot_id }
+  }
+
+  const sentAt = Number(timestamp)
+  const skew = Math.abs(Date.now() / 1000 - sentAt)
+  if (!Number.isFinite(sentAt) || skew > SENSOR_SIGNATURE_TOLERANCE_SECONDS) {
+    return { ok: false, status: 401, reason: 'stale_timestamp', deviceId, lotId: device.lot_id }
+  }
+
+  const expected = computeSensorSignature(device.secret, timestamp, nonce, rawBody)
+  if (!signaturesMatch(expected, signature)) {
+    return { ok: false, status: 401, reason: 'invalid_signature', deviceId, lotId: device.lot_id }
+  }
+
+  // The (device_id, nonce) primary key makes a second insert fail
+  const { error: nonceError } = await supabaseAdmin
+    .from('sensor_nonces')
+    .insert({ device_id: deviceId, nonce })
+
+  if (nonceError) {
+    if (nonceError.code === '23505') {
+      return { ok: false, status: 409, reason: 'replayed_nonce', deviceId, lotId: device.lot_id }
+    }
+    throw nonceError
+  }
+
+  // Nonces older than the tolerance window can never be replayed successfully
+  const nonceCutoff = new Date(Date.now() - 2 * SENSOR_SIGNATURE_TOLERANCE_SECONDS * 1000).toISOString()
+  await supabaseAdmin
+    .from('sensor_nonces')
+    .delete()
+    .eq('device_id', deviceId)
+    .lt('created_at', nonceCutoff)
+
+  const lastSeenAt = new Date().toISOString()
+  await supabaseAdmin
+    .from('sensor_devices')
+    .update({ last_seen_at: lastSeenAt })
+    .eq('id', deviceId)
+
+  return {
+    ok: true,
+    device: {
+      id: device.id,
+      lot_id: device.lot_id,
+      zone_id: device.zone_id,
+      enabled: device.enabled,
+      last_seen_at: lastSeenAt
+    }
+  }
+}
+
+// Record a rejected sensor request so admins can spot misbehaving devices
+export async function recordSensorAuthFailure(
+  supabaseAdmin: SupabaseClient,
+  failure: {
+    device_id: string | null
+    lot_id?: string | null
+    reason: SensorAuthFailureReason
+    ip_address: string | null
+  }
+) {
+  const { error } = await supabaseAdmin
+    .from('sensor_auth_failures')
+    .insert({
+      device_id: failure.device_id,
+      lot_id: failure.lot_id || null,
+      reason: failure.reason,
+      ip_address: failure.ip_address
+    })
+
+  if (error) {
+    console.error('Error recording sensor auth failure:', error)
+  }
+}
+
+export function getRequestIp(headers: Headers): string | null {
+  const forwardedFor = headers.get('x-forwarded-for')
+  if (forwardedFor) {
+    return forwardedFor.split(',')[0].trim()
+  }
+  return headers.get('x-real-ip')
+}
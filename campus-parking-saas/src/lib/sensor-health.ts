@@ -0,0 +1,98 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+// Sensor and lot data health helpers. Kept free of server-only imports so the
+// dashboards can use them too.
+
+// Lot data older than these thresholds is shown as stale / offline
+export const FRESHNESS_STALE_AFTER_MINUTES = 15
+export const FRESHNESS_OFFLINE_AFTER_MINUTES = 60
+
+// Devices are expected to heartbeat every few minutes
+export const DEVICE_OFFLINE_AFTER_MINUTES = 15
+
+export type DataFreshness = 'live' | 'stale' | 'offline' | 'unknown'
+export type DeviceHealth = 'online' | 'offline' | 'never_seen'
+
+function minutesSince(timestamp: string, now: Date): number {
+  return (now.getTime() - new Date(timestamp).getTime()) / (60 * 1000)
+}
+
+// Newest of a lot's absolute-count and gate-event timestamps
+export function getLastDataAt(lot: { last_reading_at: string | null; last_event_at?: string | null }): string | null {
+  const candidates = [lot.last_reading_at, lot.last_event_at].filter((t): t is string => !!t)
+  if (candidates.length === 0) {
+    return null
+  }
+  return candidates.reduce((a, b) => (new Date(a) > new Date(b) ? a : b))
+}
+
+export function getDataFreshness(lastDataAt: string | null, now: Date = new Date()): DataFreshness {
+  if (!lastDataAt) {
+    return 'unknown'
+  }
+
+  const age = minutesSince(lastDataAt, now)
+  if (age <= FRESHNESS_STALE_AFTER_MINUTES) {
+    return 'live'
+  }
+  if (age <= FRESHNESS_OFFLINE_AFTER_MINUTES) {
+    return 'stale'
+  }
+  return 'offline'
+}
+
+export function getFreshnessStatus(lastDataAt: string | null, now: Date = new Date()) {
+  const freshness = getDataFreshness(lastDataAt, now)
+  const age = lastDataAt ? Math.round(minutesSince(lastDataAt, now)) : null
+
+  switch (freshness) {
+    case 'live':
+      return { freshness, label: 'Live', color: 'text-green-600', bgColor: 'bg-green-100' }
+    case 'stale':
+      return { freshness, label: `Updated ${age} min ago`, color: 'text-yellow-600', bgColor: 'bg-yellow-100' }
+    case 'offline':
+      return { freshness, label: 'Sensor offline', color: 'text-red-600', bgColor: 'bg-red-100' }
+    default:
+      return { freshness, label: 'No sensor data', color: 'text-gray-600', bgColor: 'bg-gray-100' }
+  }
+}
+
+export function getDeviceHealth(lastSeenAt: string | null, now: Date = new Date()): DeviceHealth {
+  if (!lastSeenAt) {
+    return 'never_seen'
+  }
+  return minutesSince(lastSeenAt, now) <= DEVICE_OFFLINE_AFTER_MINUTES ? 'online' : 'offline'
+}
+
+// Heartbeat bodies are JSON objects; both fields are optional
+export function isHeartbeatBody(body: unknown): body is { battery_level?: unknown; firmware_version?: unknown } {
+  return !!body && typeof body === 'object' && !Array.isArray(body)
+}
+
+// Store a device heartbeat along with any battery/firmware info it reported
+export async function recordHeartbeat(
+  supabaseAdmin: SupabaseClient,
+  device_id: string,
+  heartbeat: { battery_level?: unknown; firmware_version?: unknown },
+  receivedAt: string = new Date().toISOString()
+) {
+  const updates: Record<string, unknown> = {
+    last_seen_at: receivedAt,
+    last_heartbeat_at: receivedAt
+  }
+  if (typeof heartbeat.battery_level === 'number') {
+    updates.battery_level = Math.max(0, Math.min(100, Math.round(heartbeat.battery_level)))
+  }
+  if (typeof heartbeat.firmware_version === 'string') {
+    updates.firmware_version = heartbeat.firmware_version
+  }
+
+  const { error } = await supabaseAdmin
+    .from('sensor_devices')
+    .update(updates)
+    .eq('id', device_id)
+
+  if (error) {
+    throw error
+  }
+}
@@ -0,0 +1,228 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { FUTURE_READING_TOLERANCE_MS, applyReading, recordLotRollups, type OccupancyReading } from './occupancy-ingest'
+import { rollupLateReadings } from './occupancy-rollups'
+
+// Per-stall ground sensors report a stall becoming occupied or free. Stall
+// state is kept in parking_stalls; lots and zones flagged occupancy_from_stalls
+// take their occupancy from the number of occupied stalls in them.
+
+export type StallType = 'standard' | 'ev' | 'ada' | 'compact'
+
+export const STALL_TYPES: StallType[] = ['standard', 'ev', 'ada', 'compact']
+
+export interface StallEvent {
+  stall_id: string
+  occupied: boolean
+  timestamp: string
+}
+
+export interface Stall {
+  id: string
+  lot_id: string
+  zone_id: string | null
+  stall_type: StallType
+  occupied: boolean
+  last_changed_at: string | null
+}
+
+export type StallEventValidation =
+  | { ok: true; event: StallEvent }
+  | { ok: false; error: string }
+
+export interface StallEventResult extends StallEvent {
+  // false when the stall already reflects a newer event
+  applied: boolean
+}
+
+export function validateStallEvent(item: unknown): StallEventValidation {
+  if (!item || typeof item !== 'object') {
+    return { ok: false, error: 'Invalid event' }
+  }
+
+  const { stall_id, occupied, timestamp } = item as Record<string, unknown>
+
+  if (typeof stall_id !== 'string' || !stall_id) {
+    return { ok: false, error: 'stall_id is required' }
+  }
+
+  if (typeof occupied !== 'boolean') {
+    return { ok: false, error: 'occupied must be true or false' }
+  }
+
+  let eventTime = new Date()
+  if (timestamp !== undefined && timestamp !== null) {
+    eventTime = new Date(timestamp as string)
+    if (typeof timestamp !== 'string' || isNaN(eventTime.getTime())) {
+      return { ok: false, error: 'Invalid timestamp' }
+    }
+    if (eventTime.getTime() > Date.now() + FUTURE_READING_TOLERANCE_MS) {
+      return { ok: false, error: 'Timestamp is in the future' }
+    }
+  }
+
+  return {
+    ok: true,
+    event: { stall_id, occupied, timestamp: eventTime.toISOString() }
+  }
+}
+
+// A device may only report stalls in its own lot, and zone if it has one
+export function stallBelongsToDevice(
+  stall: Pick<Stall, 'lot_id' | 'zone_id'>,
+  device: { lot_id: string; zone_id: string | null }
+): boolean {
+  return stall.lot_id === device.lot_id && (!device.zone_id || stall.zone_id === device.zone_id)
+}
+
+// Fetch the stalls referenced by a set of events in one query
+export async function loadStalls(
+  supabaseAdmin: SupabaseClient,
+  stallIds: string[]
+): Promise<Map<string, Stall>> {
+  const stalls = new Map<string, Stall>()
+  const uniqueIds = Array.from(new Set(stallIds))
+  if (uniqueIds.length === 0) {
+    return stalls
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('parking_stalls')
+    .select('id, lot_id, zone_id, stall_type, occupied, last_changed_at')
+    .in('id', uniqueIds)
+
+  if (error) {
+    throw error
+  }
+
+  data?.forEach(stall => stalls.set(stall.id, stall))
+  return stalls
+}
+
+// Apply stall events in timestamp order, skipping any older than the stall's
+// last change, then re-derive occupancy for the affected lots and zones
+export async function applyStallEvents(
+  supabaseAdmin: SupabaseClient,
+  device_id: string,
+  events: StallEvent[],
+  stalls: Map<string, Stall>
+): Promise<StallEventResult[]> {
+  const ordered = [...events].sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+  const results: StallEventResult[] = []
+  const changed: Stall[] = []
+
+  for (const event of ordered) {
+    const { data: updated, error } = await supabaseAdmin
+      .from('parking_stalls')
+      .update({ occupied: event.occupied, last_changed_at: event.timestamp })
+      .eq('id', event.stall_id)
+      .or(`last_changed_at.is.null,last_changed_at.lt."${event.timestamp}"`)
+      .select('id')
+
+    if (error) {
+      throw error
+    }
+
+    const applied = !!updated && updated.length > 0
+    results.push({ ...event, applied })
+    if (applied) {
+      changed.push(stalls.get(event.stall_id)!)
+    }
+  }
+
+  const { error: eventsError } = await supabaseAdmin
+    .from('stall_events')
+    .insert(results.map(result => ({
+      stall_id: result.stall_id,
+      device_id,
+      occupied: result.occupied,
+      timestamp: result.timestamp,
+      applied: result.applied
+    })))
+
+  if (eventsError) {
+    console.error('Error recording stall events:', eventsError)
+  }
+
+  if (changed.length > 0) {
+    const latest = results.filter(result => result.applied).pop()!.timestamp
+    await deriveOccupancyFromStalls(supabaseAdmin, changed, latest)
+  }
+
+  return results
+}
+
+// Count occupied stalls in every stall-derived lot or zone touched by `changed`
+// and apply the count as an absolute reading
+async function deriveOccupancyFromStalls(
+  supabaseAdmin: SupabaseClient,
+  changed: Stall[],
+  timestamp: string
+) {
+  const lotIds = Array.from(new Set(changed.filter(stall => !stall.zone_id).map(stall => stall.lot_id)))
+  const zoneIds = Array.from(new Set(changed.filter(stall => stall.zone_id).map(stall => stall.zone_id!)))
+  const targets: Array<Pick<OccupancyReading, 'lot_id' | 'zone_id'>> = []
+
+  if (lotIds.length > 0) {
+    const { data: lots, error } = await supabaseAdmin
+      .from('parking_lots')
+      .select('id')
+      .in('id', lotIds)
+      .eq('occupancy_from_stalls', true)
+
+    if (error) {
+      throw error
+    }
+    lots?.forEach(lot => targets.push({ lot_id: lot.id, zone_id: null }))
+  }
+
+  if (zoneIds.length > 0) {
+    const { data: zones, error } = await supabaseAdmin
+      .from('lot_zones')
+      .select('id, lot_id')
+      .in('id', zoneIds)
+      .eq('occupancy_from_stalls', true)
+
+    if (error) {
+      throw error
+    }
+    zones?.forEach(zone => targets.push({ lot_id: zone.lot_id, zone_id: zone.id }))
+  }
+
+  const zonedLots = new Set<string>()
+  for (const target of targets) {
+    let query = supabaseAdmin
+      .from('parking_stalls')
+      .select('id', { count: 'exact', head: true })
+      .eq('lot_id', target.lot_id)
+      .eq('occupied', true)
+
+    query = target.zone_id ? query.eq('zone_id', target.zone_id) : query.is('zone_id', null)
+
+    const { count, error } = await query
+    if (error) {
+      throw error
+    }
+
+    const reading: OccupancyReading = { ...target, occupancy_count: count || 0, timestamp }
+    if (!(await applyReading(supabaseAdmin, reading))) {
+      continue
+    }
+
+    const { error: historyError } = await supabaseAdmin
+      .from('occupancy_history')
+      .insert({ ...reading, source: 'sensor' })
+
+    if (historyError) {
+      console.error('Error recording stall-derived occupancy:', historyError)
+    }
+
+    if (reading.zone_id) {
+      zonedLots.add(reading.lot_id)
+    }
+  }
+
+  if (zonedLots.size > 0) {
+    await recordLotRollups(supabaseAdmin, Array.from(zonedLots), 'sensor', timestamp)
+  }
+  await rollupLateReadings(supabaseAdmin, [timestamp])
+}
@@ -111,6 +111,11 @@ export interface Database {
           name: string
           capacity: number
           current_occupancy: number
+          last_reading_at: string | null
+          occupancy_from_stalls: boolean
+          drift_offset: number
+          empty_overnight: boolean
+          last_event_at: string | null
           location: {
             lat: number
             lng: number
@@ -125,6 +130,11 @@ export interface Database {
           name: string
           capacity: number
           current_occupancy?: number
+          last_reading_at?: string | null
+          occupancy_from_stalls?: boolean
+          drift_offset?: number
+          empty_overnight?: boolean
+          last_event_at?: string | null
           location: {
             lat: number
             lng: number
@@ -139,6 +149,11 @@ export interface Database {
           name?: string
           capacity?: number
           current_occupancy?: number
+          last_reading_at?: string | null
+          occupancy_from_stalls?: boolean
+          drift_offset?: number
+          empty_overnight?: boolean
+          last_event_at?: string | null
           location?: {
             lat: number
             lng: number
@@ -149,27 +164,83 @@ export interface Database {
           updated_at?: string
         }
       }
+      lot_zones: {
+        Row: {
+          id: string
+          lot_id: string
+          parent_zone_id: string | null
+          name: string
+          zone_type: 'level' | 'section' | 'reserved'
+          level_number: number | null
+          capacity: number
+          current_occupancy: number
+          last_reading_at: string | null
+          occupancy_from_stalls: boolean
+          permit_restrictions: string[]
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          lot_id: string
+          parent_zone_id?: string | null
+          name: string
+          zone_type?: 'level' | 'section' | 'reserved'
+          level_number?: number | null
+          capacity: number
+          current_occupancy?: number
+          last_reading_at?: string | null
+          occupancy_from_stalls?: boolean
+          permit_restrictions?: string[]
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          lot_id?: string
+          parent_zone_id?: string | null
+          name?: string
+          zone_type?: 'level' | 'section' | 'reserved'
+          level_number?: number | null
+          capacity?: number
+          current_occupancy?: number
+          last_reading_at?: string | null
+          occupancy_from_stalls?: boolean
+          permit_restrictions?: string[]
+          created_at?: string
+          updated_at?: string
+        }
+      }
       occupancy_history: {
         Row: {
           id: string
           lot_id: string
+          zone_id: string | null
           occupancy_count: number
+          raw_occupancy_count: number | null
           timestamp: string
           source: 'sensor' | 'manual' | 'prediction'
+          reading_type: 'count' | 'gate_event'
         }
         Insert: {
           id?: string
           lot_id: string
+          zone_id?: string | null
           occupancy_count: number
+          raw_occupancy_count?: number | null
           timestamp?: string
           source: 'sensor' | 'manual' | 'prediction'
+          reading_type?: 'count' | 'gate_event'
         }
         Update: {
           id?: string
           lot_id?: string
+          zone_id?: string | null
           occupancy_count?: number
+          raw_occupancy_count?: number | null
           timestamp?: string
           source?: 'sensor' | 'manual' | 'prediction'
+          reading_type?: 'count' | 'gate_event'
         }
       }
       violations: {
@@ -207,35 +278,76 @@ export interface Database {
           created_at?: string
         }
       }
+      campus_venues: {
+        Row: {
+          id: string
+          name: string
+          code: string | null
+          location: {
+            lat: number
+            lng: number
+          }
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          code?: string | null
+          location: {
+            lat: number
+            lng: number
+          }
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          code?: string | null
+          location?: {
+            lat: number
+            lng: number
+          }
+          created_at?: string
+          updated_at?: string
+        }
+      }
       campus_events: {
         Row: {
           id: string
           name: string
           location: string
+          venue_id: string | null
           start_time: string
           end_time: string
           expected_attendance: number
           impact_radius: number
+          arrival_profile: 'standard' | 'early' | 'all_day'
           created_at: string
         }
         Insert: {
           id?: string
           name: string
           location: string
+          venue_id?: string | null
           start_time: string
           end_time: string
           expected_attendance: number
           impact_radius: number
+          arrival_profile?: 'standard' | 'early' | 'all_day'
           created_at?: string
         }
         Update: {
           id?: string
           name?: string
           location?: string
+          venue_id?: string | null
           start_time?: string
           end_time?: string
           expected_attendance?: number
           impact_radius?: number
+          arrival_profile?: 'standard' | 'early' | 'all_day'
           created_at?: string
         }
       }
@@ -262,21 +374,683 @@ export interface Database {
           status?: 'pending' | 'in_progress' | 'completed'
         }
       }
+      sensor_devices: {
+        Row: {
+          id: string
+          lot_id: string
+          zone_id: string | null
+          secret: string
+          enabled: boolean
+          last_seen_at: string | null
+          last_heartbeat_at: string | null
+          battery_level: number | null
+          firmware_version: string | null
+          created_at: string
+        }
+        Insert: {
+          id: string
+          lot_id: string
+          zone_id?: string | null
+          secret: string
+          enabled?: boolean
+          last_seen_at?: string | null
+          last_heartbeat_at?: string | null
+          battery_level?: number | null
+          firmware_version?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          lot_id?: string
+          zone_id?: string | null
+          secret?: string
+          enabled?: boolean
+          last_seen_at?: string | null
+          last_heartbeat_at?: string | null
+          battery_level?: number | null
+          firmware_version?: string | null
+          created_at?: string
+        }
+      }
+      sensor_nonces: {
+        Row: {
+          device_id: string
+          nonce: string
+          created_at: string
+        }
+        Insert: {
+          device_id: string
+          nonce: string
+          created_at?: string
+        }
+        Update: {
+          device_id?: string
+          nonce?: string
+          created_at?: string
+        }
+      }
+      sensor_auth_failures: {
+        Row: {
+          id: string
+          device_id: string | null
+          lot_id: string | null
+          reason: string
+          ip_address: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          device_id?: string | null
+          lot_id?: string | null
+          reason: string
+          ip_address?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          device_id?: string | null
+          lot_id?: string | null
+          reason?: string
+          ip_address?: string | null
+          created_at?: string
+        }
+      }
+      gate_events: {
+        Row: {
+          id: string
+          lot_id: string
+          zone_id: string | null
+          device_id: string | null
+          event_id: string | null
+          direction: 'entry' | 'exit'
+          vehicle_count: number
+          timestamp: string
+          resulting_occupancy: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          lot_id: string
+          zone_id?: string | null
+          device_id?: string | null
+          event_id?: string | null
+          direction: 'entry' | 'exit'
+          vehicle_count?: number
+          timestamp: string
+          resulting_occupancy: number
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          lot_id?: string
+          zone_id?: string | null
+          device_id?: string | null
+          event_id?: string | null
+          direction?: 'entry' | 'exit'
+          vehicle_count?: number
+          timestamp?: string
+          resulting_occupancy?: number
+          created_at?: string
+        }
+      }
+      occupancy_reconciliations: {
+        Row: {
+          id: string
+          lot_id: string
+          reference_count: number
+          reference_time: string
+          event_delta: number
+          previous_occupancy: number
+          reconciled_occupancy: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          lot_id: string
+          reference_count: number
+          reference_time: string
+          event_delta: number
+          previous_occupancy: number
+          reconciled_occupancy: number
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          lot_id?: string
+          reference_count?: number
+          reference_time?: string
+          event_delta?: number
+          previous_occupancy?: number
+          reconciled_occupancy?: number
+          created_at?: string
+        }
+      }
+      quarantined_readings: {
+        Row: {
+          id: string
+          lot_id: string
+          zone_id: string | null
+          occupancy_count: number
+          raw_occupancy_count: number | null
+          timestamp: string
+          anomaly_score: number
+          reasons: string[]
+          status: 'pending' | 'accepted' | 'discarded'
+          reviewed_by: string | null
+          reviewed_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          lot_id: string
+          zone_id?: string | null
+          occupancy_count: number
+          raw_occupancy_count?: number | null
+          timestamp: string
+          anomaly_score: number
+          reasons?: string[]
+          status?: 'pending' | 'accepted' | 'discarded'
+          reviewed_by?: string | null
+          reviewed_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          lot_id?: string
+          zone_id?: string | null
+          occupancy_count?: number
+          raw_occupancy_count?: number | null
+          timestamp?: string
+          anomaly_score?: number
+          reasons?: string[]
+          status?: 'pending' | 'accepted' | 'discarded'
+          reviewed_by?: string | null
+          reviewed_at?: string | null
+          created_at?: string
+        }
+      }
+      parking_stalls: {
+        Row: {
+          id: string
+          lot_id: string
+          zone_id: string | null
+          stall_type: 'standard' | 'ev' | 'ada' | 'compact'
+          occupied: boolean
+          last_changed_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id: string
+          lot_id: string
+          zone_id?: string | null
+          stall_type?: 'standard' | 'ev' | 'ada' | 'compact'
+          occupied?: boolean
+          last_changed_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          lot_id?: string
+          zone_id?: string | null
+          stall_type?: 'standard' | 'ev' | 'ada' | 'compact'
+          occupied?: boolean
+          last_changed_at?: string | null
+          created_at?: string
+        }
+      }
+      stall_events: {
+        Row: {
+          id: string
+          stall_id: string
+          device_id: string | null
+          occupied: boolean
+          timestamp: string
+          applied: boolean
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          stall_id: string
+          device_id?: string | null
+          occupied: boolean
+          timestamp: string
+          applied: boolean
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          stall_id?: string
+          device_id?: string | null
+          occupied?: boolean
+          timestamp?: string
+          applied?: boolean
+          created_at?: string
+        }
+      }
+      manual_counts: {
+        Row: {
+          id: string
+          lot_id: string
+          zone_id: string | null
+          officer_id: string | null
+          occupancy_count: number
+          sensor_occupancy: number
+          discrepancy: number
+          authoritative: boolean
+          applied: boolean
+          notes: string | null
+          counted_at: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          lot_id: string
+          zone_id?: string | null
+          officer_id?: string | null
+          occupancy_count: number
+          sensor_occupancy: number
+          discrepancy: number
+          authoritative?: boolean
+          applied?: boolean
+          notes?: string | null
+          counted_at: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          lot_id?: string
+          zone_id?: string | null
+          officer_id?: string | null
+          occupancy_count?: number
+          sensor_occupancy?: number
+          discrepancy?: number
+          authoritative?: boolean
+          applied?: boolean
+          notes?: string | null
+          counted_at?: string
+          created_at?: string
+        }
+      }
+      sensor_drift_estimates: {
+        Row: {
+          id: string
+          lot_id: string
+          reference_type: 'manual_count' | 'overnight_empty'
+          reference_count: number
+          sensor_count: number
+          residual: number
+          previous_offset: number
+          new_offset: number
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          lot_id: string
+          reference_type: 'manual_count' | 'overnight_empty'
+          reference_count: number
+          sensor_count: number
+          residual: number
+          previous_offset: number
+          new_offset: number
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          lot_id?: string
+          reference_type?: 'manual_count' | 'overnight_empty'
+          reference_count?: number
+          sensor_count?: number
+          residual?: number
+          previous_offset?: number
+          new_offset?: number
+          created_at?: string
+        }
+      }
+      occupancy_hourly: {
+        Row: {
+          lot_id: string
+          hour_start: string
+          reading_count: number
+          min_occupancy: number
+          max_occupancy: number
+          avg_occupancy: number
+          peak_at: string
+          updated_at: string
+        }
+        Insert: {
+          lot_id: string
+          hour_start: string
+          reading_count: number
+          min_occupancy: number
+          max_occupancy: number
+          avg_occupancy: number
+          peak_at: string
+          updated_at?: string
+        }
+        Update: {
+          lot_id?: string
+          hour_start?: string
+          reading_count?: number
+          min_occupancy?: number
+          max_occupancy?: number
+          avg_occupancy?: number
+          peak_at?: string
+          updated_at?: string
+        }
+      }
+      occupancy_daily: {
+        Row: {
+          lot_id: string
+          day: string
+          reading_count: number
+          min_occupancy: number
+          max_occupancy: number
+          avg_occupancy: number
+          peak_at: string
+          updated_at: string
+        }
+        Insert: {
+          lot_id: string
+          day: string
+          reading_count: number
+          min_occupancy: number
+          max_occupancy: number
+          avg_occupancy: number
+          peak_at: string
+          updated_at?: string
+        }
+        Update: {
+          lot_id?: string
+          day?: string
+          reading_count?: number
+          min_occupancy?: number
+          max_occupancy?: number
+          avg_occupancy?: number
+          peak_at?: string
+          updated_at?: string
+        }
+      }
+      forecast_evaluations: {
+        Row: {
+          id: string
+          lot_id: string
+          generated_at: string
+          target_hour: string
+          horizon_hours: number
+          model: string
+          predicted_occupancy: number
+          confidence: number
+          p10_occupancy: number | null
+          p90_occupancy: number | null
+          actual_occupancy: number | null
+          resolved_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          lot_id: string
+          generated_at: string
+          target_hour: string
+          horizon_hours: number
+          model: string
+          predicted_occupancy: number
+          confidence: number
+          p10_occupancy?: number | null
+          p90_occupancy?: number | null
+          actual_occupancy?: number | null
+          resolved_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          lot_id?: string
+          generated_at?: string
+          target_hour?: string
+          horizon_hours?: number
+          model?: string
+          predicted_occupancy?: number
+          confidence?: number
+          p10_occupancy?: number | null
+          p90_occupancy?: number | null
+          actual_occupancy?: number | null
+          resolved_at?: string | null
+          created_at?: string
+        }
+      }
+      occupancy_forecasts: {
+        Row: {
+          id: string
+          lot_id: string
+          generated_at: string
+          target_time: string
+          source: 'prediction'
+          model: string
+          model_version: string
+          current_occupancy: number
+          predicted_occupancy: number
+          p10_occupancy: number
+          p90_occupancy: number
+          uncertainty: number
+          confidence: number
+          day_type: string | null
+          weather: string | null
+          components: {
+            seasonal: number
+            weather: number
+            trend: number
+            events: number
+          }
+          events: Array<{
+            event_id: string
+            name: string
+            venue: string | null
+            cars: number
+          }>
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          lot_id: string
+          generated_at: string
+          target_time: string
+          source?: 'prediction'
+          model: string
+          model_version: string
+          current_occupancy: number
+          predicted_occupancy: number
+          p10_occupancy: number
+          p90_occupancy: number
+          uncertainty: number
+          confidence: number
+          day_type?: string | null
+          weather?: string | null
+          components: {
+            seasonal: number
+            weather: number
+            trend: number
+            events: number
+          }
+          events?: Array<{
+            event_id: string
+            name: string
+            venue: string | null
+            cars: number
+          }>
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          lot_id?: string
+          generated_at?: string
+          target_time?: string
+          source?: 'prediction'
+          model?: string
+          model_version?: string
+          current_occupancy?: number
+          predicted_occupancy?: number
+          p10_occupancy?: number
+          p90_occupancy?: number
+          uncertainty?: number
+          confidence?: number
+          day_type?: string | null
+          weather?: string | null
+          components?: {
+            seasonal: number
+            weather: number
+            trend: number
+            events: number
+          }
+          events?: Array<{
+            event_id: string
+            name: string
+            venue: string | null
+            cars: number
+          }>
+          created_at?: string
+        }
+      }
+      academic_calendar: {
+        Row: {
+          id: string
+          name: string
+          day_type: string
+          start_date: string
+          end_date: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          day_type: string
+          start_date: string
+          end_date: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          day_type?: string
+          start_date?: string
+          end_date?: string
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      weather_hourly: {
+        Row: {
+          hour_start: string
+          condition: 'clear' | 'cloudy' | 'fog' | 'rain' | 'heavy_rain' | 'snow' | 'storm'
+          temperature_c: number | null
+          precipitation_mm: number
+          is_forecast: boolean
+          source: string
+          updated_at: string
+        }
+        Insert: {
+          hour_start: string
+          condition: 'clear' | 'cloudy' | 'fog' | 'rain' | 'heavy_rain' | 'snow' | 'storm'
+          temperature_c?: number | null
+          precipitation_mm?: number
+          is_forecast?: boolean
+          source: string
+          updated_at?: string
+        }
+        Update: {
+          hour_start?: string
+          condition?: 'clear' | 'cloudy' | 'fog' | 'rain' | 'heavy_rain' | 'snow' | 'storm'
+          temperature_c?: number | null
+          precipitation_mm?: number
+          is_forecast?: boolean
+          source?: string
+          updated_at?: string
+        }
+      }
+      recommendation_settings: {
+        Row: {
+          id: boolean
+          weights: Record<string, number>
+          updated_by: string | null
+          updated_at: string
+        }
+        Insert: {
+          id?: boolean
+          weights?: Record<string, number>
+          updated_by?: string | null
+          updated_at?: string
+        }
+        Update: {
+          id?: boolean
+          weights?: Record<string, number>
+          updated_by?: string | null
+          updated_at?: string
+        }
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      apply_occupancy_delta: {
+        Args: {
+          target_lot_id: string
+          delta: number
+          target_zone_id?: string | null
+        }
+        Returns: number
+      }
+      apply_gate_events: {
+        Args: {
+          target_device_id: string
+          target_lot_id: string
+          target_zone_id: string | null
+          batch: {
+            event_id: string | null
+            direction: 'entry' | 'exit'
+            vehicle_count: number
+            timestamp: string
+          }[]
+        }
+        Returns: Database['public']['Tables']['gate_events']['Row'][]
+      }
       predict_occupancy: {
         Args: {
           lot_id: string
           prediction_time: string
+          campus_timezone?: string
         }
         Returns: {
           predicted_occupancy: number
           confidence: number
         }
       }
+      replace_academic_calendar: {
+        Args: {
+          periods: {
+            name: string
+            day_type: string
+            start_date: string
+            end_date: string
+          }[]
+        }
+        Returns: Database['public']['Tables']['academic_calendar']['Row'][]
+      }
+      rollup_occupancy_history: {
+        Args: {
+          from_time: string
+          to_time: string
+          campus_timezone?: string
+        }
+        Returns: number
+      }
+      purge_occupancy_history: {
+        Args: {
+          before_time: string
+          campus_timezone?: string
+        }
+        Returns: number
+      }
       optimize_patrol_route: {
         Args: {
           officer_id: string
@@ -0,0 +1,164 @@
+import { eventContributions, type PlacedEvent } from './campus-events'
+import { campusTime } from './campus-time'
+import type { WeatherCondition, WeatherHour } from './weather'
+
+// Synthetic parking traffic for local development and load testing: daily
+// occupancy curves per lot, the cars of campus events, LPR detections, and
+// hourly weather standing in for a real feed. Everything is driven by a
+// seeded random generator so runs are repeatable.
+
+export interface SimulatedLot {
+  id: string
+  name: string
+  capacity: number
+  permit_restrictions: string[]
+}
+
+export interface SimulatedDetection {
+  lot_id: string
+  license_plate: string
+  violation_type: string
+  camera_id: string
+  confidence_score: number
+}
+
+const VIOLATION_TYPES = ['No Valid Permit', 'Expired Meter', 'Parked in Reserved Space', 'Overtime Parking']
+
+const HOUR_MS = 60 * 60 * 1000
+
+// Mulberry32: small, fast and good enough for synthetic traffic
+export function createRng(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+// Smooth bump centred on `peak` hours with the given width
+function bump(hour: number, peak: number, width: number): number {
+  return Math.exp(-Math.pow((hour - peak) / width, 2))
+}
+
+// Expected occupancy as a share of capacity at a campus time, before noise.
+// Weekdays fill from 7am to a late-morning peak, dip at lunch and empty out
+// in the evening; faculty/staff lots fill earlier and stay fuller; weekends
+// stay quiet.
+export function baselineOccupancyFraction(lot: SimulatedLot, time: Date): number {
+  const local = campusTime(time)
+  const hour = local.hour + local.minute / 60
+  const day = local.day_of_week
+  const weekend = day === 0 || day === 6
+  const staffLot = lot.permit_restrictions.some(permit => permit === 'faculty' || permit === 'staff') &&
+    !lot.permit_restrictions.includes('student')
+  const visitorLot = lot.permit_restrictions.length === 1 && lot.permit_restrictions[0] === 'visitor'
+
+  if (weekend) {
+    return 0.05 + 0.2 * bump(hour, 13, 3.5)
+  }
+
+  const morningPeak = staffLot ? 10 : 11
+  const peakLevel = staffLot ? 0.9 : visitorLot ? 0.65 : 0.85
+  const daytime = peakLevel * (bump(hour, morningPeak, 2.5) + 0.85 * bump(hour, 14.5, 2.2))
+  const lunchDip = 0.1 * bump(hour, 12.5, 0.7)
+  const evening = 0.15 * bump(hour, 19, 1.5)
+
+  return Math.max(0.03, Math.min(0.98, 0.03 + daytime - lunchDip + evening))
+}
+
+// Simulated car count for a lot at a point in time: the daily curve, scaled
+// by `demandFactor` (e.g. the lot's weather factor), plus the cars events
+// send to this lot
+export function simulateOccupancy(
+  lot: SimulatedLot,
+  time: Date,
+  events: PlacedEvent[],
+  rng: () => number,
+  demandFactor = 1
+): number {
+  const fraction = baselineOccupancyFraction(lot, time) * demandFactor
+  const eventCars = eventContributions(time, events, lot.id).reduce((sum, contribution) => sum + contribution.cars, 0)
+  const noise = (rng() - 0.5) * 0.06
+  return Math.max(0, Math.min(lot.capacity, Math.round(lot.capacity * (fraction + noise) + eventCars)))
+}
+
+// Hourly weather from `start` to `end`, as observations up to `now` and
+// forecasts after. Temperatures follow the season and the time of day; wet
+// spells come about every other day and last around six hours, as snow when
+// it is freezing; cloud cover changes every eight hours or so.
+export function simulateWeather(start: Date, end: Date, now: Date, rng: () => number): WeatherHour[] {
+  const hours: WeatherHour[] = []
+  let wet = false
+  let heavy = false
+  let cloudy = false
+
+  for (let time = Math.floor(start.getTime() / HOUR_MS) * HOUR_MS; time <= end.getTime(); time += HOUR_MS) {
+    const at = new Date(time)
+    const local = campusTime(at)
+    const dayOfYear = (Date.UTC(local.year, local.month - 1, local.day) - Date.UTC(local.year, 0, 1)) / (24 * HOUR_MS)
+    const seasonal = 12 - 11 * Math.cos((2 * Math.PI * (dayOfYear - 20)) / 365)
+    const diurnal = 4 * Math.sin((2 * Math.PI * (local.hour - 9)) / 24)
+    const temperature = Math.round((seasonal + diurnal + (rng() - 0.5) * 3) * 10) / 10
+
+    if (rng() < (wet ? 1 / 6 : 1 / 48)) {
+      wet = !wet
+      heavy = wet && rng() < 0.25
+    }
+    if (rng() < 1 / 8) {
+      cloudy = !cloudy
+    }
+
+    let condition: WeatherCondition = cloudy ? 'cloudy' : 'clear'
+    if (wet) {
+      condition = temperature < 1 ? 'snow' : heavy ? 'heavy_rain' : 'rain'
+    } else if (local.hour >= 5 && local.hour <= 8 && rng() < 0.1) {
+      condition = 'fog'
+    }
+
+    hours.push({
+      hour_start: at.toISOString(),
+      condition,
+      temperature_c: temperature,
+      precipitation_mm: wet ? Math.round((heavy ? 4 : 1) * (0.5 + rng()) * 10) / 10 : 0,
+      is_forecast: time > now.getTime()
+    })
+  }
+
+  return hours
+}
+
+function randomPlate(rng: () => number): string {
+  const letters = 'ABCDEFGHJKLMNPRSTUVWXYZ'
+  const pick = () => letters[Math.floor(rng() * letters.length)]
+  return `${pick()}${pick()}${pick()}${Math.floor(rng() * 9000 + 1000)}`
+}
+
+// LPR detections for one tick: each lot gets a violation with a probability
+// proportional to how full it is. `ratePerHour` is the expected number of
+// detections per lot per hour at full occupancy.
+export function simulateDetections(
+  lots: Array<SimulatedLot & { occupancy: number }>,
+  tickMinutes: number,
+  ratePerHour: number,
+  rng: () => number
+): SimulatedDetection[] {
+  const detections: SimulatedDetection[] = []
+
+  lots.forEach(lot => {
+    const fullness = lot.capacity > 0 ? lot.occupancy / lot.capacity : 0
+    if (rng() < ratePerHour * (tickMinutes / 60) * fullness) {
+      detections.push({
+        lot_id: lot.id,
+        license_plate: randomPlate(rng),
+        violation_type: VIOLATION_TYPES[Math.floor(rng() * VIOLATION_TYPES.length)],
+        camera_id: `sim-cam-${lot.id.slice(0, 8)}`,
+        confidence_score: Math.round((0.8 + rng() * 0.2) * 100) / 100
+      })
+    }
+  })
+
+  return detections
+}
@@ -1,5 +1,6 @@
 import { type ClassValue, clsx } from "clsx"
 import { twMerge } from "tailwind-merge"
+import { campusTimeZone } from "./campus-time"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
@@ -12,6 +13,7 @@ export function formatDate(date: string | Date) {
     year: 'numeric',
     hour: 'numeric',
     minute: '2-digit',
+    timeZone: campusTimeZone(),
   }).format(new Date(date))
 }
 
@@ -19,6 +21,7 @@ export function formatTime(date: string | Date) {
   return new Intl.DateTimeFormat('en-US', {
     hour: 'numeric',
     minute: '2-digit',
+    timeZone: campusTimeZone(),
   }).format(new Date(date))
 }
 
@@ -50,69 +53,3 @@ export function getOccupancyStatus(current: number, capacity: number) {
     return { status: 'available', color: 'text-green-600', bgColor: 'bg-green-100' }
   }
 }
-
-export function getParkingRecommendation(
-  lots: Array<{
-    id: string
-    name: string
-    capacity: number
-    current_occupancy: number
-    location: { lat: number; lng: number }
-    permit_restrictions: string[]
-    amenities: string[]
-  }>,
-  userLocation: { lat: number; lng: number },
-  userPermit: string,
-  preferences: any = {}
-) {
-  const filteredLots = lots.filter(lot => 
-    lot.permit_restrictions.includes(userPermit) || lot.permit_restrictions.length === 0
-  )
-
-  return filteredLots
-    .map(lot => {
-      const distance = calculateDistance(
-        userLocation.lat,
-        userLocation.lng,
-        lot.location.lat,
-        lot.location.lng
-      )
-      
-      const occupancyRate = lot.current_occupancy / lot.capacity
-      const availableSpots = lot.capacity - lot.current_occupancy
-      
-      // Calculate score based on distance, availability, and preferences
-      let score = 0
-      
-      // Distance factor (closer is better)
-      score += Math.max(0, 1000 - distance) / 10
-      
-      // Availability factor
-      score += availableSpots * 2
-      
-      // Occupancy rate factor (less crowded is better)
-      score += (1 - occupancyRate) * 50
-      
-      // Preference bonuses
-      if (preferences?.preferCovered && lot.amenities.includes('covered')) {
-        score += 20
-      }
-      if (preferences?.needEvCharging && lot.amenities.includes('ev_charging')) {
-        score += 30
-      }
-      if (preferences?.needHandicapAccess && lot.amenities.includes('handicap_accessible')) {
-        score += 25
-      }
-      
-      return {
-        ...lot,
-        distance,
-        availableSpots,
-        occupancyRate,
-        score,
-        recommendation: score > 100 ? 'highly_recommended' : 
-                      score > 50 ? 'recommended' : 'available'
-      }
-    })
-    .sort((a, b) => b.score - a.score)
-}
\ No newline at end of file
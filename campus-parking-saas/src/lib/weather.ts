@@ -0,0 +1,224 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+// Campus weather, one row per hour: observations for past hours and
+// forecasts for future ones, loaded from a file or the simulated stand-in
+// feed (scripts/load-weather.ts) or POSTed to /api/weather. Bad weather moves
+// people from walking and cycling to driving, and drivers from open lots to
+// covered ones; forecasting turns each hour's condition into a demand factor
+// per lot (weatherFactor).
+
+export const WEATHER_CONDITIONS = ['clear', 'cloudy', 'fog', 'rain', 'heavy_rain', 'snow', 'storm'] as const
+
+export type WeatherCondition = typeof WEATHER_CONDITIONS[number]
+
+// Per condition: extra parking demand as a share of normal demand, and the
+// share of drivers who switch from open lots to covered ones
+export const WEATHER_EFFECTS: Record<WeatherCondition, { driving: number; covered_shift: number }> = {
+  clear: { driving: 0, covered_shift: 0 },
+  cloudy: { driving: 0, covered_shift: 0 },
+  fog: { driving: 0.03, covered_shift: 0 },
+  rain: { driving: 0.08, covered_shift: 0.1 },
+  heavy_rain: { driving: 0.12, covered_shift: 0.2 },
+  snow: { driving: 0.15, covered_shift: 0.2 },
+  storm: { driving: 0.1, covered_shift: 0.2 }
+}
+
+// Lots with this amenity count as covered
+export const COVERED_AMENITY = 'covered'
+
+export const MAX_IMPORT_HOURS = 5000
+
+const HOUR_MS = 60 * 60 * 1000
+const PAGE_SIZE = 1000
+
+export interface WeatherHour {
+  hour_start: string
+  condition: WeatherCondition
+  temperature_c: number | null
+  precipitation_mm: number
+  is_forecast: boolean
+}
+
+export type WeatherHourValidation =
+  | { ok: true; hour: WeatherHour }
+  | { ok: false; error: string }
+
+function isCondition(value: unknown): value is WeatherCondition {
+  return typeof value === 'string' && (WEATHER_CONDITIONS as readonly string[]).includes(value)
+}
+
+// Optional numbers arrive as strings from CSV
+function optionalNumber(value: unknown): number | null | undefined {
+  if (value === undefined || value === null || value === '') {
+    return null
+  }
+  const number = Number(value)
+  return isNaN(number) ? undefined : number
+}
+
+export function validateWeatherHour(item: unknown): WeatherHourValidation {
+  if (!item || typeof item !== 'object') {
+    return { ok: false, error: 'Invalid weather hour' }
+  }
+
+  const { hour_start, condition, temperature_c, precipitation_mm, is_forecast } = item as Record<string, unknown>
+
+  const time = typeof hour_start === 'string' ? new Date(hour_start) : null
+  if (!time || isNaN(time.getTime())) {
+    return { ok: false, error: 'hour_start must be a timestamp' }
+  }
+
+  if (!isCondition(condition)) {
+    return { ok: false, error: `condition must be one of: ${WEATHER_CONDITIONS.join(', ')}` }
+  }
+
+  const temperature = optionalNumber(temperature_c)
+  if (temperature === undefined) {
+    return { ok: false, error: 'temperature_c must be a number' }
+  }
+
+  const precipitation = optionalNumber(precipitation_mm)
+  if (precipitation === undefined || (precipitation !== null && precipitation < 0)) {
+    return { ok: false, error: 'precipitation_mm must be a non-negative number' }
+  }
+
+  return {
+    ok: true,
+    hour: {
+      hour_start: new Date(Math.floor(time.getTime() / HOUR_MS) * HOUR_MS).toISOString(),
+      condition,
+      temperature_c: temperature,
+      precipitation_mm: precipitation ?? 0,
+      is_forecast: is_forecast === true || is_forecast === 'true'
+    }
+  }
+}
+
+// Parse an import body: a JSON array (or {"hours": [...]}) or CSV with a
+// hour_start,condition,temperature_c,precipitation_mm,is_forecast header
+// (Content-Type: text/csv)
+export function parseWeatherImport(rawBody: string, contentType: string | null): unknown[] {
+  if (contentType?.includes('csv')) {
+    const [header, ...lines] = rawBody
+      .split('\n')
+      .map(line => line.trim())
+      .filter(line => line.length > 0)
+    const columns = (header || '').split(',').map(column => column.trim().toLowerCase())
+
+    return lines.map(line => {
+      const cells = line.split(',').map(cell => cell.trim().replace(/^"(.*)"$/, '$1'))
+      return Object.fromEntries(columns.map((column, i) => [column, cells[i]]))
+    })
+  }
+
+  const parsed = JSON.parse(rawBody)
+  if (Array.isArray(parsed)) {
+    return parsed
+  }
+  if (parsed && Array.isArray(parsed.hours)) {
+    return parsed.hours
+  }
+  throw new Error('Expected an array of weather hours')
+}
+
+// Multiplier on a lot's normal demand in the given weather. Covered lots take
+// the drivers that open lots lose, in proportion to how much of the campus's
+// capacity is open.
+export function weatherFactor(weather: WeatherHour | null, covered: boolean, coveredShare: number): number {
+  if (!weather) {
+    return 1
+  }
+
+  const effect = WEATHER_EFFECTS[weather.condition]
+  if (coveredShare <= 0 || coveredShare >= 1) {
+    return 1 + effect.driving
+  }
+
+  return covered
+    ? 1 + effect.driving + effect.covered_shift * (1 - coveredShare) / coveredShare
+    : 1 + effect.driving - effect.covered_shift
+}
+
+// Weather lookup for the hour containing a time
+export function createWeatherLookup(hours: WeatherHour[]): (time: Date) => WeatherHour | null {
+  const byHour = new Map(hours.map(hour => [new Date(hour.hour_start).getTime(), hour]))
+  return (time: Date) => byHour.get(Math.floor(time.getTime() / HOUR_MS) * HOUR_MS) || null
+}
+
+// Weather for the hours from `from` to `to`, oldest first, paged past the
+// API's row limit
+export async function loadWeather(
+  supabaseAdmin: SupabaseClient,
+  from: Date,
+  to: Date
+): Promise<WeatherHour[]> {
+  const hours: WeatherHour[] = []
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabaseAdmin
+      .from('weather_hourly')
+      .select('hour_start, condition, temperature_c, precipitation_mm, is_forecast')
+      .gte('hour_start', new Date(Math.floor(from.getTime() / HOUR_MS) * HOUR_MS).toISOString())
+      .lte('hour_start', to.toISOString())
+      .order('hour_start')
+      .range(offset, offset + PAGE_SIZE - 1)
+
+    if (error) {
+      throw error
+    }
+
+    data?.forEach(row => {
+      hours.push({
+        ...row,
+        temperature_c: row.temperature_c === null ? null : Number(row.temperature_c),
+        precipitation_mm: Number(row.precipitation_mm)
+      })
+    })
+
+    if (!data || data.length < PAGE_SIZE) {
+      return hours
+    }
+  }
+}
+
+// Store weather hours, replacing what is stored for the same hours, except
+// that a forecast never replaces an observation
+export async function saveWeather(
+  supabaseAdmin: SupabaseClient,
+  hours: WeatherHour[],
+  source: string
+): Promise<{ saved: number; skipped: number }> {
+  const forecasts = hours.filter(hour => hour.is_forecast)
+  const observed = new Set<string>()
+
+  if (forecasts.length > 0) {
+    const times = forecasts.map(hour => new Date(hour.hour_start).getTime())
+    const stored = await loadWeather(supabaseAdmin, new Date(Math.min(...times)), new Date(Math.max(...times)))
+    stored
+      .filter(hour => !hour.is_forecast)
+      .forEach(hour => observed.add(new Date(hour.hour_start).toISOString()))
+  }
+
+  // One row per hour, the last one given winning
+  const byHour = new Map<string, WeatherHour>()
+  hours
+    .filter(hour => !hour.is_forecast || !observed.has(hour.hour_start))
+    .forEach(hour => byHour.set(hour.hour_start, hour))
+  const rows = Array.from(byHour.values()).map(hour => ({
+    ...hour,
+    source,
+    updated_at: new Date().toISOString()
+  }))
+
+  for (let i = 0; i < rows.length; i += PAGE_SIZE) {
+    const { error } = await supabaseAdmin
+      .from('weather_hourly')
+      .upsert(rows.slice(i, i + PAGE_SIZE), { onConflict: 'hour_start' })
+
+    if (error) {
+      throw error
+    }
+  }
+
+  return { saved: rows.length, skipped: hours.length - rows.length }
+}
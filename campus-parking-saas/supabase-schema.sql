@@ -24,6 +24,11 @@ CREATE TABLE public.parking_lots (
     name TEXT NOT NULL,
     capacity INTEGER NOT NULL,
     current_occupancy INTEGER DEFAULT 0,
+    last_reading_at TIMESTAMP WITH TIME ZONE, -- Timestamp of the reading current_occupancy came from
+    last_event_at TIMESTAMP WITH TIME ZONE, -- Timestamp of the newest gate event applied
+    occupancy_from_stalls BOOLEAN NOT NULL DEFAULT FALSE, -- Count occupied parking_stalls instead of lot-level sensors
+    drift_offset DECIMAL NOT NULL DEFAULT 0, -- Learned correction added to raw lot-level sensor counts
+    empty_overnight BOOLEAN NOT NULL DEFAULT FALSE, -- Lot is reliably empty in the early morning (drift reference)
     location JSONB NOT NULL, -- {lat: number, lng: number}
     permit_restrictions TEXT[] DEFAULT '{}',
     amenities TEXT[] DEFAULT '{}',
@@ -31,13 +36,35 @@ CREATE TABLE public.parking_lots (
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Zones within a lot: levels, sections within a level, reserved areas.
+-- Sensors report for leaf zones; parent zones and the lot roll up their
+-- children's capacity and occupancy (see rollup_zone_occupancy below).
+CREATE TABLE public.lot_zones (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    lot_id UUID REFERENCES parking_lots(id) ON DELETE CASCADE NOT NULL,
+    parent_zone_id UUID REFERENCES lot_zones(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    zone_type TEXT NOT NULL DEFAULT 'level' CHECK (zone_type IN ('level', 'section', 'reserved')),
+    level_number INTEGER, -- Floor number for levels, for ordering and display
+    capacity INTEGER NOT NULL,
+    current_occupancy INTEGER DEFAULT 0,
+    last_reading_at TIMESTAMP WITH TIME ZONE,
+    occupancy_from_stalls BOOLEAN NOT NULL DEFAULT FALSE, -- Count occupied parking_stalls in this zone
+    permit_restrictions TEXT[] DEFAULT '{}', -- Empty means the lot's permits apply
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
 -- Occupancy history table
 CREATE TABLE public.occupancy_history (
     id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
     lot_id UUID REFERENCES parking_lots(id) ON DELETE CASCADE,
+    zone_id UUID REFERENCES lot_zones(id) ON DELETE CASCADE, -- NULL for lot-wide counts
     occupancy_count INTEGER NOT NULL,
+    raw_occupancy_count INTEGER, -- Sensor value before drift correction, when corrected
     timestamp TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
-    source occupancy_source NOT NULL DEFAULT 'sensor'
+    source occupancy_source NOT NULL DEFAULT 'sensor',
+    reading_type TEXT NOT NULL DEFAULT 'count' CHECK (reading_type IN ('count', 'gate_event'))
 );
 
 -- Violations table
@@ -53,15 +80,28 @@ CREATE TABLE public.violations (
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Campus venues table
+-- Building catalog: geocoded venues that campus events take place at
+CREATE TABLE public.campus_venues (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    name TEXT NOT NULL UNIQUE,
+    code TEXT UNIQUE, -- Building code, e.g. 'SC'
+    location JSONB NOT NULL, -- {lat: number, lng: number}
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
 -- Campus events table
 CREATE TABLE public.campus_events (
     id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
     name TEXT NOT NULL,
-    location TEXT NOT NULL,
+    location TEXT NOT NULL, -- Where, as shown to users; matched to a venue name or code when venue_id is null
+    venue_id UUID REFERENCES campus_venues(id) ON DELETE SET NULL,
     start_time TIMESTAMP WITH TIME ZONE NOT NULL,
     end_time TIMESTAMP WITH TIME ZONE NOT NULL,
     expected_attendance INTEGER NOT NULL,
     impact_radius INTEGER NOT NULL, -- meters
+    arrival_profile TEXT NOT NULL DEFAULT 'standard' CHECK (arrival_profile IN ('standard', 'early', 'all_day')),
     created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
@@ -74,12 +114,264 @@ CREATE TABLE public.patrol_routes (
     status route_status DEFAULT 'pending'
 );
 
+-- Sensor device registry
+CREATE TABLE public.sensor_devices (
+    id TEXT PRIMARY KEY, -- Device identifier sent in the X-Sensor-Id header
+    lot_id UUID REFERENCES parking_lots(id) ON DELETE CASCADE NOT NULL,
+    zone_id UUID REFERENCES lot_zones(id) ON DELETE SET NULL, -- Set for per-level/section counters
+    secret TEXT NOT NULL, -- Shared HMAC key, never returned by the API
+    enabled BOOLEAN NOT NULL DEFAULT TRUE,
+    last_seen_at TIMESTAMP WITH TIME ZONE, -- Any authenticated request
+    last_heartbeat_at TIMESTAMP WITH TIME ZONE,
+    battery_level INTEGER, -- Percent, as reported in heartbeats
+    firmware_version TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Nonces already used by each device (replay protection)
+CREATE TABLE public.sensor_nonces (
+    device_id TEXT REFERENCES sensor_devices(id) ON DELETE CASCADE,
+    nonce TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (device_id, nonce)
+);
+
+-- Rejected sensor requests
+CREATE TABLE public.sensor_auth_failures (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    device_id TEXT, -- As claimed by the request, may not exist in sensor_devices
+    lot_id UUID REFERENCES parking_lots(id) ON DELETE SET NULL,
+    reason TEXT NOT NULL,
+    ip_address TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Entry/exit events from gate counters
+CREATE TABLE public.gate_events (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    lot_id UUID REFERENCES parking_lots(id) ON DELETE CASCADE NOT NULL,
+    zone_id UUID REFERENCES lot_zones(id) ON DELETE CASCADE,
+    device_id TEXT REFERENCES sensor_devices(id) ON DELETE SET NULL,
+    event_id TEXT, -- Device-assigned id; a retried event with the same id is ignored
+    direction TEXT NOT NULL CHECK (direction IN ('entry', 'exit')),
+    vehicle_count INTEGER NOT NULL DEFAULT 1,
+    timestamp TIMESTAMP WITH TIME ZONE NOT NULL,
+    resulting_occupancy INTEGER NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (device_id, event_id)
+);
+
+-- Corrections applied when gate events drift from absolute counts
+CREATE TABLE public.occupancy_reconciliations (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    lot_id UUID REFERENCES parking_lots(id) ON DELETE CASCADE NOT NULL,
+    reference_count INTEGER NOT NULL,
+    reference_time TIMESTAMP WITH TIME ZONE NOT NULL,
+    event_delta INTEGER NOT NULL, -- Net gate events since the reference count
+    previous_occupancy INTEGER NOT NULL,
+    reconciled_occupancy INTEGER NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Sensor readings held back by anomaly detection, pending admin review
+CREATE TABLE public.quarantined_readings (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    lot_id UUID REFERENCES parking_lots(id) ON DELETE CASCADE NOT NULL,
+    zone_id UUID REFERENCES lot_zones(id) ON DELETE CASCADE,
+    occupancy_count INTEGER NOT NULL,
+    raw_occupancy_count INTEGER, -- Sensor value before drift correction, when corrected
+    timestamp TIMESTAMP WITH TIME ZONE NOT NULL,
+    anomaly_score DECIMAL NOT NULL,
+    reasons TEXT[] NOT NULL DEFAULT '{}', -- rate_of_change, impossible_jump, flatline
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'discarded')),
+    reviewed_by UUID REFERENCES users(id),
+    reviewed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Individual stalls with ground sensors
+CREATE TABLE public.parking_stalls (
+    id TEXT PRIMARY KEY, -- Stall identifier painted on the ground / configured in its sensor, e.g. D-L3-042
+    lot_id UUID REFERENCES parking_lots(id) ON DELETE CASCADE NOT NULL,
+    zone_id UUID REFERENCES lot_zones(id) ON DELETE SET NULL,
+    stall_type TEXT NOT NULL DEFAULT 'standard' CHECK (stall_type IN ('standard', 'ev', 'ada', 'compact')),
+    occupied BOOLEAN NOT NULL DEFAULT FALSE,
+    last_changed_at TIMESTAMP WITH TIME ZONE, -- Timestamp of the event `occupied` came from
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Occupied/free changes reported by stall sensors
+CREATE TABLE public.stall_events (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    stall_id TEXT REFERENCES parking_stalls(id) ON DELETE CASCADE NOT NULL,
+    device_id TEXT REFERENCES sensor_devices(id) ON DELETE SET NULL,
+    occupied BOOLEAN NOT NULL,
+    timestamp TIMESTAMP WITH TIME ZONE NOT NULL,
+    applied BOOLEAN NOT NULL, -- False when a newer event had already been applied
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Headcounts from officer walk-throughs, compared with the sensor value at the time
+CREATE TABLE public.manual_counts (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    lot_id UUID REFERENCES parking_lots(id) ON DELETE CASCADE NOT NULL,
+    zone_id UUID REFERENCES lot_zones(id) ON DELETE CASCADE,
+    officer_id UUID REFERENCES users(id),
+    occupancy_count INTEGER NOT NULL,
+    sensor_occupancy INTEGER NOT NULL, -- Sensor occupancy at counted_at
+    discrepancy INTEGER NOT NULL, -- occupancy_count - sensor_occupancy
+    authoritative BOOLEAN NOT NULL DEFAULT FALSE, -- Officer chose to override the sensor value
+    applied BOOLEAN NOT NULL DEFAULT FALSE, -- Override was newer than the current reading and took effect
+    notes TEXT,
+    counted_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- History of each lot's drift offset and the references it was learned from
+CREATE TABLE public.sensor_drift_estimates (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    lot_id UUID REFERENCES parking_lots(id) ON DELETE CASCADE NOT NULL,
+    reference_type TEXT NOT NULL CHECK (reference_type IN ('manual_count', 'overnight_empty')),
+    reference_count INTEGER NOT NULL, -- Trusted occupancy
+    sensor_count INTEGER NOT NULL, -- Raw sensor occupancy at the same time plus the offset, unclamped
+    residual INTEGER NOT NULL, -- reference_count - sensor_count
+    previous_offset DECIMAL NOT NULL,
+    new_offset DECIMAL NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Hourly rollups of lot-level occupancy_history, built by the rollups job.
+-- These outlive the raw rows, which are only kept for the retention window.
+CREATE TABLE public.occupancy_hourly (
+    lot_id UUID REFERENCES parking_lots(id) ON DELETE CASCADE NOT NULL,
+    hour_start TIMESTAMP WITH TIME ZONE NOT NULL,
+    reading_count INTEGER NOT NULL,
+    min_occupancy INTEGER NOT NULL,
+    max_occupancy INTEGER NOT NULL,
+    avg_occupancy DECIMAL NOT NULL,
+    peak_at TIMESTAMP WITH TIME ZONE NOT NULL, -- When max_occupancy was first reached
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (lot_id, hour_start)
+);
+
+-- Daily rollups, built from the hourly ones
+CREATE TABLE public.occupancy_daily (
+    lot_id UUID REFERENCES parking_lots(id) ON DELETE CASCADE NOT NULL,
+    day DATE NOT NULL,
+    reading_count INTEGER NOT NULL,
+    min_occupancy INTEGER NOT NULL,
+    max_occupancy INTEGER NOT NULL,
+    avg_occupancy DECIMAL NOT NULL,
+    peak_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (lot_id, day)
+);
+
+-- Live forecasts recorded by the forecast-accuracy job, with the actual
+-- hourly average filled in once the target hour has been rolled up
+CREATE TABLE public.forecast_evaluations (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    lot_id UUID REFERENCES parking_lots(id) ON DELETE CASCADE NOT NULL,
+    generated_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    target_hour TIMESTAMP WITH TIME ZONE NOT NULL, -- Start of the hour forecast
+    horizon_hours INTEGER NOT NULL,
+    model TEXT NOT NULL,
+    predicted_occupancy INTEGER NOT NULL,
+    confidence DECIMAL NOT NULL,
+    p10_occupancy INTEGER, -- Prediction interval; NULL for forecasts recorded before intervals
+    p90_occupancy INTEGER,
+    actual_occupancy DECIMAL, -- occupancy_hourly.avg_occupancy for the target hour, once known
+    resolved_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Forecasts precomputed by the precompute-forecasts job and served by the
+-- prediction endpoints. Every run is kept, so past forecasts can be compared
+-- with what happened. They are occupancy figures of source 'prediction', kept
+-- out of occupancy_history because they are for times still to come.
+CREATE TABLE public.occupancy_forecasts (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    lot_id UUID REFERENCES parking_lots(id) ON DELETE CASCADE NOT NULL,
+    generated_at TIMESTAMP WITH TIME ZONE NOT NULL, -- Shared by all rows of a run
+    target_time TIMESTAMP WITH TIME ZONE NOT NULL,
+    source occupancy_source NOT NULL DEFAULT 'prediction' CHECK (source = 'prediction'),
+    model TEXT NOT NULL,
+    model_version TEXT NOT NULL,
+    current_occupancy INTEGER NOT NULL, -- The lot's occupancy when forecast
+    predicted_occupancy INTEGER NOT NULL,
+    p10_occupancy INTEGER NOT NULL,
+    p90_occupancy INTEGER NOT NULL,
+    uncertainty DECIMAL NOT NULL,
+    confidence DECIMAL NOT NULL,
+    day_type TEXT,
+    weather TEXT,
+    components JSONB NOT NULL,
+    events JSONB NOT NULL DEFAULT '[]',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (lot_id, generated_at, target_time)
+);
+
+-- Academic calendar: terms, breaks, holidays, exam weeks and custom day
+-- types. A date takes the day type of the shortest period covering it;
+-- uncovered dates are 'regular'.
+CREATE TABLE public.academic_calendar (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    name TEXT NOT NULL,
+    day_type TEXT NOT NULL CHECK (day_type ~ '^[a-z][a-z0-9_]{0,39}$'),
+    start_date DATE NOT NULL,
+    end_date DATE NOT NULL, -- Inclusive
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CHECK (end_date >= start_date)
+);
+
+-- Campus weather by hour: observations for past hours, forecasts for future
+-- ones. Loaded by scripts/load-weather.ts or POST /api/weather; an
+-- observation replaces the forecast for its hour, never the other way round.
+CREATE TABLE public.weather_hourly (
+    hour_start TIMESTAMP WITH TIME ZONE PRIMARY KEY,
+    condition TEXT NOT NULL CHECK (condition IN ('clear', 'cloudy', 'fog', 'rain', 'heavy_rain', 'snow', 'storm')),
+    temperature_c DECIMAL,
+    precipitation_mm DECIMAL NOT NULL DEFAULT 0,
+    is_forecast BOOLEAN NOT NULL DEFAULT FALSE,
+    source TEXT NOT NULL, -- File name, feed or 'simulator'
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Recommendation weights for the campus (src/lib/recommendations.ts); a
+-- single row, and weights it doesn't set take their defaults
+CREATE TABLE public.recommendation_settings (
+    id BOOLEAN PRIMARY KEY DEFAULT TRUE CHECK (id),
+    weights JSONB NOT NULL DEFAULT '{}',
+    updated_by UUID REFERENCES users(id),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
 -- Create indexes for better performance
 CREATE INDEX idx_occupancy_history_lot_timestamp ON occupancy_history(lot_id, timestamp DESC);
+CREATE INDEX idx_occupancy_history_zone_timestamp ON occupancy_history(zone_id, timestamp DESC) WHERE zone_id IS NOT NULL;
+CREATE INDEX idx_occupancy_history_timestamp ON occupancy_history(timestamp);
+CREATE INDEX idx_occupancy_daily_day ON occupancy_daily(day DESC);
+CREATE INDEX idx_academic_calendar_dates ON academic_calendar(start_date, end_date);
+CREATE INDEX idx_forecast_evaluations_target ON forecast_evaluations(target_hour, lot_id);
+CREATE INDEX idx_forecast_evaluations_unresolved ON forecast_evaluations(target_hour) WHERE actual_occupancy IS NULL;
+CREATE INDEX idx_occupancy_forecasts_generated ON occupancy_forecasts(generated_at DESC);
+CREATE INDEX idx_occupancy_forecasts_target ON occupancy_forecasts(lot_id, target_time);
+CREATE INDEX idx_lot_zones_lot ON lot_zones(lot_id, parent_zone_id);
+CREATE INDEX idx_parking_stalls_lot ON parking_stalls(lot_id, zone_id, occupied);
+CREATE INDEX idx_stall_events_stall ON stall_events(stall_id, timestamp DESC);
+CREATE INDEX idx_manual_counts_lot ON manual_counts(lot_id, counted_at DESC);
+CREATE INDEX idx_sensor_drift_estimates_lot ON sensor_drift_estimates(lot_id, created_at DESC);
 CREATE INDEX idx_violations_lot_timestamp ON violations(lot_id, timestamp DESC);
 CREATE INDEX idx_violations_status ON violations(status);
 CREATE INDEX idx_campus_events_time ON campus_events(start_time, end_time);
 CREATE INDEX idx_patrol_routes_officer ON patrol_routes(officer_id, created_at DESC);
+CREATE INDEX idx_sensor_devices_lot ON sensor_devices(lot_id);
+CREATE INDEX idx_sensor_nonces_created ON sensor_nonces(device_id, created_at);
+CREATE INDEX idx_sensor_auth_failures_device ON sensor_auth_failures(device_id, created_at DESC);
+CREATE INDEX idx_gate_events_lot_timestamp ON gate_events(lot_id, timestamp DESC);
+CREATE INDEX idx_occupancy_reconciliations_lot ON occupancy_reconciliations(lot_id, created_at DESC);
+CREATE INDEX idx_quarantined_readings_status ON quarantined_readings(status, created_at DESC);
 
 -- Create updated_at trigger function
 CREATE OR REPLACE FUNCTION update_updated_at_column()
@@ -93,16 +385,88 @@ $$ language 'plpgsql';
 -- Apply updated_at triggers
 CREATE TRIGGER update_users_updated_at BEFORE UPDATE ON users FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 CREATE TRIGGER update_parking_lots_updated_at BEFORE UPDATE ON parking_lots FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_lot_zones_updated_at BEFORE UPDATE ON lot_zones FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_campus_venues_updated_at BEFORE UPDATE ON campus_venues FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_academic_calendar_updated_at BEFORE UPDATE ON academic_calendar FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_recommendation_settings_updated_at BEFORE UPDATE ON recommendation_settings FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Roll a zone's capacity and occupancy up into its parent zone, or into the
+-- lot for top-level zones. Updating the parent fires this again, so changes
+-- propagate all the way up.
+CREATE OR REPLACE FUNCTION refresh_zone_rollup(target_lot_id UUID, target_parent_zone_id UUID)
+RETURNS VOID AS $$
+BEGIN
+    IF target_parent_zone_id IS NOT NULL THEN
+        UPDATE lot_zones parent
+        SET capacity = totals.capacity,
+            current_occupancy = totals.occupancy,
+            last_reading_at = totals.last_reading_at
+        FROM (
+            SELECT SUM(capacity) AS capacity, SUM(current_occupancy) AS occupancy, MAX(last_reading_at) AS last_reading_at
+            FROM lot_zones
+            WHERE parent_zone_id = target_parent_zone_id
+        ) totals
+        WHERE parent.id = target_parent_zone_id
+        AND totals.capacity IS NOT NULL;
+    ELSE
+        UPDATE parking_lots lot
+        SET capacity = totals.capacity,
+            current_occupancy = totals.occupancy,
+            last_reading_at = GREATEST(lot.last_reading_at, totals.last_reading_at)
+        FROM (
+            SELECT SUM(capacity) AS capacity, SUM(current_occupancy) AS occupancy, MAX(last_reading_at) AS last_reading_at
+            FROM lot_zones
+            WHERE lot_id = target_lot_id AND parent_zone_id IS NULL
+        ) totals
+        WHERE lot.id = target_lot_id
+        AND totals.capacity IS NOT NULL;
+    END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION rollup_zone_occupancy()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'DELETE' OR (TG_OP = 'UPDATE' AND OLD.parent_zone_id IS DISTINCT FROM NEW.parent_zone_id) THEN
+        PERFORM refresh_zone_rollup(OLD.lot_id, OLD.parent_zone_id);
+    END IF;
+    IF TG_OP <> 'DELETE' THEN
+        PERFORM refresh_zone_rollup(NEW.lot_id, NEW.parent_zone_id);
+    END IF;
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER rollup_lot_zones AFTER INSERT OR UPDATE OR DELETE ON lot_zones FOR EACH ROW EXECUTE FUNCTION rollup_zone_occupancy();
 
 -- Row Level Security (RLS) policies
 
 -- Enable RLS on all tables
 ALTER TABLE users ENABLE ROW LEVEL SECURITY;
 ALTER TABLE parking_lots ENABLE ROW LEVEL SECURITY;
+ALTER TABLE lot_zones ENABLE ROW LEVEL SECURITY;
 ALTER TABLE occupancy_history ENABLE ROW LEVEL SECURITY;
 ALTER TABLE violations ENABLE ROW LEVEL SECURITY;
 ALTER TABLE campus_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE campus_venues ENABLE ROW LEVEL SECURITY;
 ALTER TABLE patrol_routes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sensor_devices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sensor_nonces ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sensor_auth_failures ENABLE ROW LEVEL SECURITY;
+ALTER TABLE gate_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE occupancy_reconciliations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE quarantined_readings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE parking_stalls ENABLE ROW LEVEL SECURITY;
+ALTER TABLE stall_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE manual_counts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sensor_drift_estimates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE occupancy_hourly ENABLE ROW LEVEL SECURITY;
+ALTER TABLE occupancy_daily ENABLE ROW LEVEL SECURITY;
+ALTER TABLE forecast_evaluations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE occupancy_forecasts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE academic_calendar ENABLE ROW LEVEL SECURITY;
+ALTER TABLE weather_hourly ENABLE ROW LEVEL SECURITY;
+ALTER TABLE recommendation_settings ENABLE ROW LEVEL SECURITY;
 
 -- Users can only see their own profile
 CREATE POLICY "Users can view own profile" ON users FOR SELECT USING (auth.uid() = id);
@@ -116,17 +480,55 @@ CREATE POLICY "Only admins can modify parking lots" ON parking_lots FOR ALL USIN
     EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin')
 );
 
+-- Zones are publicly readable, only admins can modify them
+CREATE POLICY "Lot zones are publicly readable" ON lot_zones FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Only admins can modify lot zones" ON lot_zones FOR ALL USING (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin')
+);
+
+-- Stalls are publicly readable, only admins can modify them
+CREATE POLICY "Parking stalls are publicly readable" ON parking_stalls FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Only admins can modify parking stalls" ON parking_stalls FOR ALL USING (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin')
+);
+
 -- Occupancy history is publicly readable
 CREATE POLICY "Occupancy history is publicly readable" ON occupancy_history FOR SELECT TO authenticated USING (true);
 
 -- Only system can insert occupancy data
 CREATE POLICY "System can insert occupancy data" ON occupancy_history FOR INSERT WITH CHECK (true);
+CREATE POLICY "Hourly occupancy is publicly readable" ON occupancy_hourly FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Daily occupancy is publicly readable" ON occupancy_daily FOR SELECT TO authenticated USING (true);
 
 -- Violations are only visible to admins
 CREATE POLICY "Violations visible to admins" ON violations FOR SELECT USING (
     EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin')
 );
 
+-- Academic calendar is readable by everyone, editable by admins
+CREATE POLICY "Academic calendar is publicly readable" ON academic_calendar FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Only admins can manage the academic calendar" ON academic_calendar FOR ALL USING (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin')
+);
+
+-- Weather is readable by everyone, loaded by admins
+CREATE POLICY "Weather is publicly readable" ON weather_hourly FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Only admins can load weather" ON weather_hourly FOR ALL USING (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin')
+);
+
+-- Recommendation weights are readable by everyone, set by admins
+CREATE POLICY "Recommendation settings are publicly readable" ON recommendation_settings FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Only admins can change recommendation settings" ON recommendation_settings FOR ALL USING (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin')
+);
+
+-- Venues are publicly readable, managed by admins
+CREATE POLICY "Venues are publicly readable" ON campus_venues FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Only admins can manage venues" ON campus_venues FOR ALL USING (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin')
+);
+
 -- Campus events are publicly readable
 CREATE POLICY "Campus events are publicly readable" ON campus_events FOR SELECT TO authenticated USING (true);
 
@@ -141,6 +543,53 @@ CREATE POLICY "Patrol routes visible to officer and admins" ON patrol_routes FOR
     EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin')
 );
 
+-- Sensor devices and their rejected requests are only visible to admins
+-- (sensor_nonces has no policies: only the service role touches it)
+CREATE POLICY "Sensor devices visible to admins" ON sensor_devices FOR SELECT USING (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin')
+);
+
+CREATE POLICY "Sensor auth failures visible to admins" ON sensor_auth_failures FOR SELECT USING (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin')
+);
+
+-- Gate events and reconciliations are only visible to admins
+CREATE POLICY "Gate events visible to admins" ON gate_events FOR SELECT USING (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin')
+);
+
+CREATE POLICY "Occupancy reconciliations visible to admins" ON occupancy_reconciliations FOR SELECT USING (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin')
+);
+
+-- Quarantined readings are only visible to admins
+CREATE POLICY "Quarantined readings visible to admins" ON quarantined_readings FOR SELECT USING (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin')
+);
+
+-- Stall events are only visible to admins
+CREATE POLICY "Stall events visible to admins" ON stall_events FOR SELECT USING (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin')
+);
+
+-- Manual counts are only visible to admins
+CREATE POLICY "Manual counts visible to admins" ON manual_counts FOR SELECT USING (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin')
+);
+
+-- Drift estimates are only visible to admins
+CREATE POLICY "Sensor drift estimates visible to admins" ON sensor_drift_estimates FOR SELECT USING (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin')
+);
+
+-- Forecast evaluations are only visible to admins
+CREATE POLICY "Forecast evaluations visible to admins" ON forecast_evaluations FOR SELECT USING (
+    EXISTS (SELECT 1 FROM users WHERE id = auth.uid() AND role = 'admin')
+);
+
+-- Stored forecasts are readable by any signed-in user, like the live ones
+CREATE POLICY "Occupancy forecasts are publicly readable" ON occupancy_forecasts FOR SELECT TO authenticated USING (true);
+
 -- Insert some sample data
 INSERT INTO parking_lots (name, capacity, current_occupancy, location, permit_restrictions, amenities) VALUES
 ('Student Lot A', 200, 150, '{"lat": 40.7128, "lng": -74.0060}', ARRAY['student', 'faculty'], ARRAY['covered', 'ev_charging']),
@@ -148,49 +597,108 @@ INSERT INTO parking_lots (name, capacity, current_occupancy, location, permit_re
 ('Visitor Lot C', 50, 30, '{"lat": 40.7118, "lng": -74.0050}', ARRAY['visitor'], ARRAY['handicap_accessible']),
 ('Main Lot D', 300, 200, '{"lat": 40.7148, "lng": -74.0080}', ARRAY['student', 'faculty', 'staff'], ARRAY['ev_charging', 'security_cameras']);
 
-INSERT INTO campus_events (name, location, start_time, end_time, expected_attendance, impact_radius) VALUES
-('Basketball Game', 'Sports Complex', NOW() + INTERVAL '2 hours', NOW() + INTERVAL '4 hours', 5000, 500),
-('Graduation Ceremony', 'Main Auditorium', NOW() + INTERVAL '1 day', NOW() + INTERVAL '1 day 3 hours', 2000, 300);
+-- Main Lot D is a parking structure with three levels and a reserved section
+INSERT INTO lot_zones (lot_id, name, zone_type, level_number, capacity, current_occupancy, permit_restrictions)
+SELECT id, 'Level 1', 'level', 1, 100, 80, '{}' FROM parking_lots WHERE name = 'Main Lot D'
+UNION ALL
+SELECT id, 'Level 2', 'level', 2, 100, 70, '{}' FROM parking_lots WHERE name = 'Main Lot D'
+UNION ALL
+SELECT id, 'Level 3', 'level', 3, 100, 50, '{}' FROM parking_lots WHERE name = 'Main Lot D';
+
+INSERT INTO lot_zones (lot_id, parent_zone_id, name, zone_type, level_number, capacity, current_occupancy, permit_restrictions)
+SELECT lot_id, id, 'Level 1 Faculty Reserved', 'reserved', 1, 20, 15, ARRAY['faculty'] FROM lot_zones WHERE name = 'Level 1'
+UNION ALL
+SELECT lot_id, id, 'Level 1 General', 'section', 1, 80, 65, '{}' FROM lot_zones WHERE name = 'Level 1';
+
+-- Faculty Lot B closes overnight, so its sensors should read zero in the early morning
+UPDATE parking_lots SET empty_overnight = TRUE WHERE name = 'Faculty Lot B';
+
+-- Visitor Lot C has a ground sensor in every stall
+UPDATE parking_lots SET occupancy_from_stalls = TRUE WHERE name = 'Visitor Lot C';
+
+INSERT INTO parking_stalls (id, lot_id, stall_type, occupied)
+SELECT 'C-' || LPAD(n::TEXT, 3, '0'), lot.id,
+       CASE WHEN n <= 4 THEN 'ada' WHEN n <= 10 THEN 'ev' WHEN n > 44 THEN 'compact' ELSE 'standard' END,
+       n > 22 OR n IN (3, 8)
+FROM parking_lots lot, generate_series(1, 50) n
+WHERE lot.name = 'Visitor Lot C';
+
+-- Development sensor (replace the secret before going to production)
+INSERT INTO sensor_devices (id, lot_id, secret)
+SELECT 'sensor-001', id, 'dev-sensor-secret-change-me' FROM parking_lots WHERE name = 'Student Lot A';
+
+INSERT INTO campus_venues (name, code, location) VALUES
+('Sports Complex', 'SC', '{"lat": 40.7152, "lng": -74.0086}'),
+('Main Auditorium', 'AUD', '{"lat": 40.7126, "lng": -74.0056}'),
+('Student Union', 'SU', '{"lat": 40.7133, "lng": -74.0066}');
+
+INSERT INTO campus_events (name, location, venue_id, start_time, end_time, expected_attendance, impact_radius, arrival_profile)
+SELECT 'Basketball Game', name, id, NOW() + INTERVAL '2 hours', NOW() + INTERVAL '4 hours', 5000, 500, 'standard' FROM campus_venues WHERE code = 'SC'
+UNION ALL
+SELECT 'Graduation Ceremony', name, id, NOW() + INTERVAL '1 day', NOW() + INTERVAL '1 day 3 hours', 2000, 300, 'early' FROM campus_venues WHERE code = 'AUD';
+
+INSERT INTO academic_calendar (name, day_type, start_date, end_date) VALUES
+('Fall Term', 'term', CURRENT_DATE - 30, CURRENT_DATE + 60),
+('Thanksgiving', 'holiday', CURRENT_DATE + 35, CURRENT_DATE + 36),
+('Fall Finals', 'exams', CURRENT_DATE + 61, CURRENT_DATE + 67),
+('Winter Break', 'break', CURRENT_DATE + 68, CURRENT_DATE + 99),
+('Spring Term', 'term', CURRENT_DATE + 100, CURRENT_DATE + 210),
+('First Week of Spring Classes', 'first_week', CURRENT_DATE + 100, CURRENT_DATE + 104);
 
 -- Create functions for predictive analytics
 
--- Function to predict occupancy based on historical data
-CREATE OR REPLACE FUNCTION predict_occupancy(lot_id UUID, prediction_time TIMESTAMP WITH TIME ZONE)
+-- Great-circle distance in meters between two {lat, lng} points
+CREATE OR REPLACE FUNCTION distance_meters(a JSONB, b JSONB)
+RETURNS DOUBLE PRECISION AS $$
+    SELECT 2 * 6371000 * ASIN(SQRT(
+        POWER(SIN(RADIANS((b->>'lat')::FLOAT - (a->>'lat')::FLOAT) / 2), 2) +
+        COS(RADIANS((a->>'lat')::FLOAT)) * COS(RADIANS((b->>'lat')::FLOAT)) *
+        POWER(SIN(RADIANS((b->>'lng')::FLOAT - (a->>'lng')::FLOAT) / 2), 2)
+    ))
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Function to predict occupancy based on historical data. Forecasts are made by
+-- src/lib/forecasting.ts; this is only its fallback. Days and hours are
+-- matched on the campus clock (an IANA timezone name).
+CREATE OR REPLACE FUNCTION predict_occupancy(lot_id UUID, prediction_time TIMESTAMP WITH TIME ZONE, campus_timezone TEXT DEFAULT 'UTC')
 RETURNS TABLE(predicted_occupancy INTEGER, confidence DECIMAL) AS $$
 DECLARE
     historical_avg DECIMAL;
     lot_capacity INTEGER;
+    lot_location JSONB;
     event_impact DECIMAL := 0;
     day_of_week INTEGER;
     hour_of_day INTEGER;
 BEGIN
-    -- Get lot capacity
-    SELECT capacity INTO lot_capacity FROM parking_lots WHERE id = lot_id;
+    -- Get lot capacity and location
+    SELECT capacity, location INTO lot_capacity, lot_location FROM parking_lots WHERE id = lot_id;
     
     -- Extract day of week and hour for pattern matching
-    day_of_week := EXTRACT(DOW FROM prediction_time);
-    hour_of_day := EXTRACT(HOUR FROM prediction_time);
+    day_of_week := EXTRACT(DOW FROM prediction_time AT TIME ZONE campus_timezone);
+    hour_of_day := EXTRACT(HOUR FROM prediction_time AT TIME ZONE campus_timezone);
     
-    -- Calculate historical average for same day/hour
-    SELECT COALESCE(AVG(occupancy_count), 0) INTO historical_avg
-    FROM occupancy_history oh
+    -- Calculate historical average for same day/hour from the hourly rollups
+    SELECT COALESCE(AVG(avg_occupancy), 0) INTO historical_avg
+    FROM occupancy_hourly oh
     WHERE oh.lot_id = predict_occupancy.lot_id
-    AND EXTRACT(DOW FROM timestamp) = day_of_week
-    AND EXTRACT(HOUR FROM timestamp) = hour_of_day
-    AND timestamp >= NOW() - INTERVAL '30 days';
+    AND EXTRACT(DOW FROM hour_start AT TIME ZONE campus_timezone) = day_of_week
+    AND EXTRACT(HOUR FROM hour_start AT TIME ZONE campus_timezone) = hour_of_day
+    AND hour_start >= NOW() - INTERVAL '30 days';
     
-    -- Check for nearby events that might impact parking
-    SELECT COALESCE(SUM(expected_attendance * 0.3), 0) INTO event_impact
-    FROM campus_events
-    WHERE prediction_time BETWEEN start_time - INTERVAL '1 hour' AND end_time + INTERVAL '1 hour'
-    AND ST_DWithin(
-        ST_Point((location->>'lng')::FLOAT, (location->>'lat')::FLOAT),
-        ST_Point(
-            (SELECT (location->>'lng')::FLOAT FROM parking_lots WHERE id = lot_id),
-            (SELECT (location->>'lat')::FLOAT FROM parking_lots WHERE id = lot_id)
-        ),
-        impact_radius
-    );
+    -- Events running around the prediction time: the attendees who drive
+    -- (30%) are shared by capacity between the lots within the impact radius
+    -- of the venue, or between all lots when the venue is unknown
+    SELECT COALESCE(SUM(
+        e.expected_attendance * 0.3 * lot_capacity / NULLIF((
+            SELECT SUM(p.capacity) FROM parking_lots p
+            WHERE v.id IS NULL OR distance_meters(p.location, v.location) <= e.impact_radius
+        ), 0)
+    ), 0) INTO event_impact
+    FROM campus_events e
+    LEFT JOIN campus_venues v ON v.id = e.venue_id
+        OR (e.venue_id IS NULL AND (LOWER(v.name) = LOWER(e.location) OR LOWER(v.code) = LOWER(e.location)))
+    WHERE prediction_time BETWEEN e.start_time - INTERVAL '1 hour' AND e.end_time + INTERVAL '1 hour'
+    AND (v.id IS NULL OR distance_meters(lot_location, v.location) <= e.impact_radius);
     
     -- Combine historical data with event impact
     predicted_occupancy := LEAST(lot_capacity, (historical_avg + event_impact)::INTEGER);
@@ -203,6 +711,192 @@ BEGIN
 END;
 $$ LANGUAGE plpgsql;
 
+-- Function to apply a gate counter delta atomically, clamped to 0..capacity.
+-- With a zone, the zone is updated and the lot follows via the rollup trigger.
+CREATE OR REPLACE FUNCTION apply_occupancy_delta(target_lot_id UUID, delta INTEGER, target_zone_id UUID DEFAULT NULL)
+RETURNS INTEGER AS $$
+DECLARE
+    new_occupancy INTEGER;
+BEGIN
+    IF target_zone_id IS NOT NULL THEN
+        UPDATE lot_zones
+        SET current_occupancy = LEAST(capacity, GREATEST(0, current_occupancy + delta))
+        WHERE id = target_zone_id AND lot_id = target_lot_id
+        RETURNING current_occupancy INTO new_occupancy;
+
+        RETURN new_occupancy;
+    END IF;
+
+    UPDATE parking_lots
+    SET current_occupancy = LEAST(capacity, GREATEST(0, current_occupancy + delta))
+    WHERE id = target_lot_id
+    RETURNING current_occupancy INTO new_occupancy;
+
+    RETURN new_occupancy;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Function to apply a batch of gate events from one device in a single
+-- transaction, in timestamp order: each event is stored in gate_events, its
+-- delta applied with apply_occupancy_delta and the result written to
+-- occupancy_history, then the lot's last_event_at moves forward. Events whose
+-- event_id the device has already sent are skipped, so a retried batch is not
+-- counted twice. Returns the events that were applied.
+CREATE OR REPLACE FUNCTION apply_gate_events(target_device_id TEXT, target_lot_id UUID, target_zone_id UUID, batch JSONB)
+RETURNS SETOF gate_events AS $$
+DECLARE
+    item JSONB;
+    applied gate_events;
+    latest_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+    FOR item IN
+        SELECT value FROM jsonb_array_elements(batch) ORDER BY (value->>'timestamp')::TIMESTAMP WITH TIME ZONE
+    LOOP
+        INSERT INTO gate_events (lot_id, zone_id, device_id, event_id, direction, vehicle_count, timestamp, resulting_occupancy)
+        VALUES (
+            target_lot_id,
+            target_zone_id,
+            target_device_id,
+            item->>'event_id',
+            item->>'direction',
+            (item->>'vehicle_count')::INTEGER,
+            (item->>'timestamp')::TIMESTAMP WITH TIME ZONE,
+            0
+        )
+        ON CONFLICT (device_id, event_id) DO NOTHING
+        RETURNING * INTO applied;
+
+        IF NOT FOUND THEN
+            CONTINUE;
+        END IF;
+
+        UPDATE gate_events
+        SET resulting_occupancy = apply_occupancy_delta(
+            target_lot_id,
+            CASE WHEN applied.direction = 'entry' THEN applied.vehicle_count ELSE -applied.vehicle_count END,
+            target_zone_id
+        )
+        WHERE id = applied.id
+        RETURNING * INTO applied;
+
+        INSERT INTO occupancy_history (lot_id, zone_id, occupancy_count, timestamp, source, reading_type)
+        VALUES (target_lot_id, target_zone_id, applied.resulting_occupancy, applied.timestamp, 'sensor', 'gate_event');
+
+        latest_at := applied.timestamp;
+        RETURN NEXT applied;
+    END LOOP;
+
+    -- Record when the lot last heard from its gates, for data freshness
+    IF latest_at IS NOT NULL THEN
+        UPDATE parking_lots
+        SET last_event_at = latest_at
+        WHERE id = target_lot_id AND (last_event_at IS NULL OR last_event_at < latest_at);
+    END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Function to replace the whole academic calendar with the given periods in
+-- one transaction, so a failed import leaves the old calendar in place.
+-- Returns the new periods.
+CREATE OR REPLACE FUNCTION replace_academic_calendar(periods JSONB)
+RETURNS SETOF academic_calendar AS $$
+    DELETE FROM academic_calendar WHERE id IS NOT NULL;
+
+    INSERT INTO academic_calendar (name, day_type, start_date, end_date)
+    SELECT name, day_type, start_date, end_date
+    FROM jsonb_to_recordset(periods) AS period(name TEXT, day_type TEXT, start_date DATE, end_date DATE)
+    RETURNING *;
+$$ LANGUAGE sql;
+
+-- Function to (re)build occupancy rollups for lot-level readings between
+-- from_time and to_time. Hours are rebuilt from the raw rows, so only call it
+-- for hours whose raw rows are still retained; the days those hours fall in
+-- are rebuilt from the hourly rollups. Days are campus calendar days in
+-- campus_timezone; hours are whole UTC hours, which are whole campus hours
+-- everywhere but the few zones offset by a half or quarter hour. Returns the
+-- number of hours rebuilt.
+CREATE OR REPLACE FUNCTION rollup_occupancy_history(from_time TIMESTAMP WITH TIME ZONE, to_time TIMESTAMP WITH TIME ZONE, campus_timezone TEXT DEFAULT 'UTC')
+RETURNS INTEGER AS $$
+DECLARE
+    hours_rolled INTEGER;
+BEGIN
+    INSERT INTO occupancy_hourly (lot_id, hour_start, reading_count, min_occupancy, max_occupancy, avg_occupancy, peak_at, updated_at)
+    SELECT
+        lot_id,
+        date_trunc('hour', timestamp),
+        COUNT(*),
+        MIN(occupancy_count),
+        MAX(occupancy_count),
+        ROUND(AVG(occupancy_count), 2),
+        (ARRAY_AGG(timestamp ORDER BY occupancy_count DESC, timestamp))[1],
+        NOW()
+    FROM occupancy_history
+    WHERE zone_id IS NULL
+    AND source <> 'prediction'
+    AND timestamp >= date_trunc('hour', from_time)
+    AND timestamp < to_time
+    GROUP BY lot_id, date_trunc('hour', timestamp)
+    ON CONFLICT (lot_id, hour_start) DO UPDATE SET
+        reading_count = EXCLUDED.reading_count,
+        min_occupancy = EXCLUDED.min_occupancy,
+        max_occupancy = EXCLUDED.max_occupancy,
+        avg_occupancy = EXCLUDED.avg_occupancy,
+        peak_at = EXCLUDED.peak_at,
+        updated_at = EXCLUDED.updated_at;
+
+    GET DIAGNOSTICS hours_rolled = ROW_COUNT;
+
+    INSERT INTO occupancy_daily (lot_id, day, reading_count, min_occupancy, max_occupancy, avg_occupancy, peak_at, updated_at)
+    SELECT
+        lot_id,
+        (hour_start AT TIME ZONE campus_timezone)::DATE,
+        SUM(reading_count),
+        MIN(min_occupancy),
+        MAX(max_occupancy),
+        ROUND(SUM(avg_occupancy * reading_count) / SUM(reading_count), 2),
+        (ARRAY_AGG(peak_at ORDER BY max_occupancy DESC, peak_at))[1],
+        NOW()
+    FROM occupancy_hourly
+    WHERE hour_start >= date_trunc('day', from_time AT TIME ZONE campus_timezone) AT TIME ZONE campus_timezone
+    AND hour_start < (date_trunc('day', to_time AT TIME ZONE campus_timezone) + INTERVAL '1 day') AT TIME ZONE campus_timezone
+    GROUP BY lot_id, (hour_start AT TIME ZONE campus_timezone)::DATE
+    ON CONFLICT (lot_id, day) DO UPDATE SET
+        reading_count = EXCLUDED.reading_count,
+        min_occupancy = EXCLUDED.min_occupancy,
+        max_occupancy = EXCLUDED.max_occupancy,
+        avg_occupancy = EXCLUDED.avg_occupancy,
+        peak_at = EXCLUDED.peak_at,
+        updated_at = EXCLUDED.updated_at;
+
+    RETURN hours_rolled;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Function to delete raw readings (lot and zone) from before the hour that
+-- contains before_time. The lot-level rows are rolled up first, so nothing is
+-- lost if the rollups job missed them. Returns the number of rows deleted.
+CREATE OR REPLACE FUNCTION purge_occupancy_history(before_time TIMESTAMP WITH TIME ZONE, campus_timezone TEXT DEFAULT 'UTC')
+RETURNS INTEGER AS $$
+DECLARE
+    cutoff TIMESTAMP WITH TIME ZONE := date_trunc('hour', before_time);
+    oldest TIMESTAMP WITH TIME ZONE;
+    purged INTEGER;
+BEGIN
+    SELECT MIN(timestamp) INTO oldest FROM occupancy_history WHERE timestamp < cutoff;
+
+    IF oldest IS NULL THEN
+        RETURN 0;
+    END IF;
+
+    PERFORM rollup_occupancy_history(oldest, cutoff, campus_timezone);
+
+    DELETE FROM occupancy_history WHERE timestamp < cutoff;
+    GET DIAGNOSTICS purged = ROW_COUNT;
+
+    RETURN purged;
+END;
+$$ LANGUAGE plpgsql;
+
 -- Function to optimize patrol routes
 CREATE OR REPLACE FUNCTION optimize_patrol_route(officer_id UUID)
 RETURNS TABLE(route JSONB, estimated_time INTEGER) AS $$